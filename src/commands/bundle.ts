@@ -0,0 +1,92 @@
+/**
+ * Create offline installation bundles (see utils/bundle.ts for the format)
+ */
+
+import { executeCommand } from '../utils/system.ts';
+import { BUNDLE_FORMAT, BUNDLE_MANIFEST, BundleManifest, sha256File } from '../utils/bundle.ts';
+import { BINARY_TARBALL, cleanupRelease, downloadRelease, fetchRelease } from '../utils/releases.ts';
+import { WgetBinaryDownloader } from '../infrastructure/binary-downloader-impl.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+
+export interface BundleCreateOptions {
+  /** Bundle path (default: ./d9-bundle-<network>-<release>.tar.gz) */
+  output?: string;
+  /** d9-node release tag (default: latest) */
+  version?: string;
+}
+
+export interface BundleReport {
+  path: string;
+  manifest: BundleManifest;
+}
+
+/**
+ * Download a release and the active network's chain spec, verify them and
+ * pack them with a manifest
+ */
+export async function createBundle(options: BundleCreateOptions = {}): Promise<BundleReport> {
+  const profile = getNetworkProfile();
+  const downloader = new WgetBinaryDownloader();
+
+  console.log(`🌐 Fetching ${options.version ? `release ${options.version}` : 'latest release'}...`);
+  const release = await fetchRelease(options.version);
+  const output = options.output ?? `d9-bundle-${profile.name}-${release.tag}.tar.gz`;
+
+  const staging = await Deno.makeTempDir({ prefix: 'd9-bundle-' });
+  try {
+    await downloadRelease(release, downloader);
+
+    const nodeTarball = BINARY_TARBALL.split('/').pop()!;
+    for (const suffix of ['', '.sha256']) {
+      await Deno.copyFile(`${BINARY_TARBALL}${suffix}`, `${staging}/${nodeTarball}${suffix}`);
+    }
+
+    let chainSpec: string | null = null;
+    if (profile.chainSpecUrl) {
+      chainSpec = profile.chainSpecPath.split('/').pop()!;
+      console.log(`\n📥 Downloading chain specification (${profile.name})...`);
+      await downloader.download(profile.chainSpecUrl, `${staging}/${chainSpec}`);
+    } else {
+      console.log(`⏭️  ${profile.name} uses the built-in chain ${profile.chainSpecPath}, no chain spec to bundle`);
+    }
+
+    const sha256: Record<string, string> = {};
+    for await (const entry of Deno.readDir(staging)) {
+      sha256[entry.name] = await sha256File(`${staging}/${entry.name}`);
+    }
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      createdAt: new Date().toISOString(),
+      release: release.tag,
+      network: profile.name,
+      chainId: profile.chainId,
+      files: { nodeTarball, chainSpec },
+      sha256,
+    };
+    await Deno.writeTextFile(`${staging}/${BUNDLE_MANIFEST}`, JSON.stringify(manifest, null, 2) + '\n');
+
+    console.log(`\n📦 Writing ${output}...`);
+    const tarResult = await executeCommand('tar', ['-czf', output, '-C', staging, '.']);
+    if (!tarResult.success) {
+      throw new Error(`Failed to write bundle: ${tarResult.error}`);
+    }
+
+    console.log(`✅ Bundle created: ${output}`);
+    return { path: output, manifest };
+  } finally {
+    await cleanupRelease();
+    await Deno.remove(staging, { recursive: true }).catch(() => {});
+  }
+}
+
+export function printBundleReport(report: BundleReport): void {
+  console.log('\n📋 Bundle Contents');
+  console.log('─'.repeat(30));
+  console.log(`Release: d9-node ${report.manifest.release}`);
+  console.log(`Network: ${report.manifest.network} (${report.manifest.chainId})`);
+  for (const [name, hash] of Object.entries(report.manifest.sha256)) {
+    console.log(`  ${name}  ${hash.slice(0, 16)}…`);
+  }
+  console.log(`\n💡 Install with: d9-manager --network ${report.manifest.network} setup --from-bundle ${report.path}`);
+}
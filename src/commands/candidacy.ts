@@ -1,22 +1,34 @@
 import { Input, Confirm } from '@cliffy/prompt';
-import { Messages, NodeMetadataStruct } from '../types.ts';
-import { getD9API } from '../utils/polkadot.ts';
+import { CandidateInfo, CandidateMetadata, Messages, NodeMetadataStruct } from '../types.ts';
+import { DryRunResult, getD9API } from '../utils/polkadot.ts';
 import { getNodeAddress } from '../utils/keystore.ts';
-import { createProgressBar } from '../utils/system.ts';
+import { createProgressBar, executeCommand } from '../utils/system.ts';
 import { checkBalanceWithPrompt } from '../utils/balance.ts';
-import { PATHS, SERVICE } from '../config/constants.ts';
+import { CommandError } from '../utils/output.ts';
+import { CANDIDACY, EXIT_CODES, PATHS, SERVICE, hostPath } from '../config/constants.ts';
 
-export async function submitCandidacy(messages: Messages): Promise<void> {
+/**
+ * Answers for the candidacy prompts; undefined values are asked interactively.
+ */
+export interface CandidacyOptions {
+  name?: string;
+  /** Share of rewards passed on to voters (default: 0) */
+  sharingPercent?: number;
+  /** Skip confirmation prompts and do not wait for funding */
+  yes?: boolean;
+}
+
+export async function submitCandidacy(messages: Messages, options: CandidacyOptions = {}): Promise<boolean> {
   console.log('\n' + messages.submitCandidacy);
   
   // Check if validator node is properly configured
   const isValidatorReady = await checkValidatorConfiguration();
   if (!isValidatorReady) {
-    const convert = await Confirm.prompt('Node is not configured as validator. Convert now?');
+    const convert = options.yes || await Confirm.prompt('Node is not configured as validator. Convert now?');
     if (convert) {
       await convertToValidator();
     } else {
-      return;
+      return false;
     }
   }
 
@@ -24,7 +36,7 @@ export async function submitCandidacy(messages: Messages): Promise<void> {
   const nodeAddress = await getNodeAddress();
   if (!nodeAddress) {
     console.log(`❌ ${messages.errors.keyNotFound}`);
-    return;
+    return false;
   }
 
   console.log(`\n🔗 Node Address: ${nodeAddress}`);
@@ -34,41 +46,50 @@ export async function submitCandidacy(messages: Messages): Promise<void> {
   try {
     await createProgressBar(2000, messages.checkingBalance);
     
-    const balanceResult = await checkBalanceWithPrompt(nodeAddress);
+    const balanceResult = await checkBalanceWithPrompt(nodeAddress, { waitForFunds: !options.yes });
     
     if (balanceResult.isEmpty) {
       console.log('❌ Cannot submit candidacy with empty balance');
-      return;
+      return false;
     }
     
     // Check if already a candidate
     const candidacyStatus = await api.checkCandidacyStatus(nodeAddress);
     if (candidacyStatus.isCandidate) {
       console.log('ℹ️  You are already a validator candidate');
-      console.log('Current metadata:', candidacyStatus.metadata);
-      return;
+      if (candidacyStatus.candidate) printCandidate(candidacyStatus.candidate);
+      console.log('💡 Change the name or sharing percentage with: d9-manager candidacy edit');
+      return true;
     }
 
     // Collect candidacy information
-    const nodeName = await Input.prompt({
+    const nodeName = options.name ?? await Input.prompt({
       message: messages.candidacyForm.namePrompt,
       hint: messages.candidacyForm.nameNote
     });
 
     if (!nodeName || nodeName.length === 0) {
       console.log('❌ Node name is required');
-      return;
+      return false;
+    }
+
+    const nameError = validateCandidateName(nodeName);
+    if (nameError) {
+      console.log(`❌ ${nameError}`);
+      return false;
     }
 
-    if (nodeName.length > 128) {
-      console.log('❌ Node name must be 128 characters or less');
-      return;
+    const sharingPercent = options.sharingPercent ?? 0;
+    const percentError = validateSharingPercent(sharingPercent);
+    if (percentError) {
+      console.log(`❌ ${percentError}`);
+      return false;
     }
 
     // Create metadata structure
     const metadata: NodeMetadataStruct = {
       name: nodeName,
-      sharing_percent: 0,
+      sharing_percent: sharingPercent,
       index_of_last_percent_change: 0
     };
 
@@ -78,9 +99,9 @@ export async function submitCandidacy(messages: Messages): Promise<void> {
     console.log(`Sharing Percent: ${metadata.sharing_percent}%`);
     console.log(`Address: ${nodeAddress}`);
 
-    const confirm = await Confirm.prompt(messages.candidacyForm.confirmSubmission);
+    const confirm = options.yes || await Confirm.prompt(messages.candidacyForm.confirmSubmission);
     if (!confirm) {
-      return;
+      return false;
     }
 
     // Submit candidacy
@@ -94,7 +115,9 @@ export async function submitCandidacy(messages: Messages): Promise<void> {
       }
       console.log('\n🗳️  Your node is now a validator candidate.');
       console.log('Other validators need to vote for you to become an active validator.');
-      console.log('Only the top 27 voted nodes can be active validators.');
+      console.log(`Only the top ${CANDIDACY.ACTIVE_SET_SIZE} voted nodes can be active validators.`);
+      console.log('💡 See where you stand with: d9-manager validators');
+      return true;
     } else {
       console.log(`❌ Failed to submit candidacy: ${result.error}`);
       
@@ -102,17 +125,254 @@ export async function submitCandidacy(messages: Messages): Promise<void> {
       if (result.error?.includes('insufficient')) {
         console.log(`💡 ${messages.errors.insufficientFunds}`);
       }
+      return false;
     }
 
   } catch (error) {
     console.log(`❌ ${messages.errors.networkError}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+export interface CandidacyStatusReport {
+  address: string;
+  isCandidate: boolean;
+  candidate?: CandidateInfo;
+}
+
+/**
+ * Look up whether the node account is already a validator candidate
+ */
+export async function collectCandidacyStatus(): Promise<CandidacyStatusReport> {
+  const address = await getNodeAddress({ verbose: false });
+  if (!address) {
+    throw new CommandError('Keystore not found or invalid', EXIT_CODES.NOT_FOUND);
+  }
+
+  try {
+    await getD9API().connect();
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+
+  const status = await getD9API().checkCandidacyStatus(address);
+  return { address, ...status };
+}
+
+export function printCandidacyStatus(report: CandidacyStatusReport): void {
+  console.log(`🔗 Node Address: ${report.address}`);
+  if (report.isCandidate) {
+    console.log('✅ Validator candidate');
+    if (report.candidate) printCandidate(report.candidate);
+  } else {
+    console.log('❌ Not a validator candidate');
+  }
+}
+
+/**
+ * Changes to an existing candidacy; undefined values are asked interactively
+ */
+export interface CandidacyEditOptions {
+  name?: string;
+  sharingPercent?: number;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+export interface CandidacyChange {
+  field: 'name' | 'sharingPercent';
+  /** d9NodeVoting call that makes the change */
+  call: string;
+  success: boolean;
+  hash?: string;
+  error?: string;
+}
+
+export interface CandidacyEditReport {
+  address: string;
+  currentSession: number;
+  current: CandidateMetadata;
+  proposed: CandidateMetadata;
+  changes: CandidacyChange[];
+}
+
+/**
+ * Change the public name and/or sharing percentage of the node's candidacy.
+ * Resolves to null if the user declines.
+ */
+export async function editCandidacy(messages: Messages, options: CandidacyEditOptions = {}): Promise<CandidacyEditReport | null> {
+  const address = await getNodeAddress({ verbose: false });
+  if (!address) {
+    throw new CommandError(messages.errors.keyNotFound, EXIT_CODES.NOT_FOUND);
+  }
+
+  const api = getD9API();
+  let candidate: CandidateInfo | null;
+  let currentSession: number;
+  try {
+    candidate = await api.getCandidate(address);
+    currentSession = await api.getCurrentSessionIndex();
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+  if (!candidate) {
+    throw new CommandError(`${address} is not a validator candidate, submit with: d9-manager candidacy`, EXIT_CODES.NOT_FOUND);
+  }
+  if (!candidate.metadata) {
+    throw new CommandError(`No candidacy metadata on chain for ${address}`, EXIT_CODES.NOT_FOUND);
+  }
+  const current = candidate.metadata;
+
+  let { name, sharingPercent } = options;
+  if (name === undefined && sharingPercent === undefined) {
+    if (options.yes) {
+      throw new CommandError('Pass --name and/or --sharing-percent', EXIT_CODES.USAGE);
+    }
+    name = await Input.prompt({
+      message: messages.candidacyForm.namePrompt,
+      hint: messages.candidacyForm.nameNote,
+      default: current.name,
+      validate: (value) => validateCandidateName(value) ?? true,
+    });
+    const percent = await Input.prompt({
+      message: 'Sharing percentage (0-100)',
+      default: String(current.sharingPercent),
+      validate: (value) => validateSharingPercent(parseInt(value, 10)) ?? true,
+    });
+    sharingPercent = parseInt(percent, 10);
+  }
+
+  const proposed: CandidateMetadata = {
+    name: name ?? current.name,
+    sharingPercent: sharingPercent ?? current.sharingPercent,
+    lastPercentChangeSession: current.lastPercentChangeSession,
+  };
+  const invalid = validateCandidateName(proposed.name) ?? validateSharingPercent(proposed.sharingPercent);
+  if (invalid) {
+    throw new CommandError(invalid, EXIT_CODES.USAGE);
+  }
+
+  const report: CandidacyEditReport = { address, currentSession, current, proposed, changes: [] };
+  const pending: { field: CandidacyChange['field']; call: string; args: unknown[] }[] = [];
+  if (proposed.name !== current.name) {
+    pending.push({
+      field: 'name',
+      call: CANDIDACY.CHANGE_NAME_CALL,
+      args: [Array.from(new TextEncoder().encode(proposed.name))],
+    });
+  }
+  if (proposed.sharingPercent !== current.sharingPercent) {
+    pending.push({ field: 'sharingPercent', call: CANDIDACY.CHANGE_SHARING_CALL, args: [proposed.sharingPercent] });
+  }
+
+  printCandidacyComparison(report);
+  if (pending.length === 0) {
+    console.log('\n✅ Nothing to change');
+    return report;
+  }
+
+  // Name length, share range and how often the share may change are the
+  // pallet's rules, so the runtime checks each change before anything is sent
+  const rejected: string[] = [];
+  let unchecked = false;
+  for (const change of pending) {
+    let check: DryRunResult;
+    try {
+      check = await api.checkExtrinsic('d9NodeVoting', change.call, change.args);
+    } catch (error) {
+      throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+    }
+    unchecked ||= !check.checked;
+    if (check.error) {
+      rejected.push(change.field === 'sharingPercent'
+        ? `Sharing percentage: ${check.error} (last changed in session ${current.lastPercentChangeSession}, current session ${currentSession})`
+        : `Name: ${check.error}`);
+    }
+  }
+  if (rejected.length > 0) {
+    throw new CommandError(`The runtime rejects these changes:\n  ${rejected.join('\n  ')}`, EXIT_CODES.ERROR, report);
+  }
+  if (unchecked) {
+    console.log('\n⚠️  The RPC endpoint does not allow dry runs; the runtime checks the changes only once they are sent');
+  }
+
+  if (!options.yes) {
+    const proceed = await Confirm.prompt('Submit these changes?');
+    if (!proceed) {
+      console.log('❌ Candidacy changes cancelled');
+      return null;
+    }
+  }
+
+  for (const change of pending) {
+    console.log(`\n🚀 Submitting d9NodeVoting.${change.call}...`);
+    const result = await api.submitExtrinsic('d9NodeVoting', change.call, change.args);
+    report.changes.push({ field: change.field, call: change.call, ...result });
+    console.log(result.success ? `✅ In block ${result.hash}` : `❌ ${result.error}`);
+  }
+  return report;
+}
+
+export function printCandidacyEditReport(report: CandidacyEditReport): void {
+  console.log('\n📋 Candidacy Changes');
+  console.log('─'.repeat(30));
+  if (report.changes.length === 0) {
+    console.log('No changes submitted');
+  }
+  for (const change of report.changes) {
+    const label = change.field === 'name' ? 'Name' : 'Sharing percentage';
+    console.log(change.success ? `✅ ${label} updated` : `❌ ${label} not updated: ${change.error}`);
+  }
+}
+
+/**
+ * Problem with a public node name found before asking the runtime, which
+ * applies the pallet's length limit
+ */
+export function validateCandidateName(name: string): string | null {
+  if (name.trim().length === 0) {
+    return 'Node name is required';
   }
+  return null;
+}
+
+/**
+ * Problem with a sharing percentage found before asking the runtime, which
+ * applies the pallet's own range and change cooldown
+ */
+export function validateSharingPercent(percent: number): string | null {
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+    return 'Sharing percentage must be a whole number from 0 to 100';
+  }
+  return null;
+}
+
+function printCandidate(candidate: CandidateInfo): void {
+  console.log(`Votes:              ${candidate.votes}`);
+  if (candidate.metadata) {
+    console.log(`Name:               ${candidate.metadata.name}`);
+    console.log(`Sharing percentage: ${candidate.metadata.sharingPercent}%`);
+    console.log(`Last share change:  session ${candidate.metadata.lastPercentChangeSession}`);
+  }
+}
+
+function printCandidacyComparison(report: CandidacyEditReport): void {
+  const { current, proposed } = report;
+  const row = (label: string, before: string, after: string) =>
+    console.log(`${label.padEnd(20)}${before.padEnd(32)}${before === after ? '(unchanged)' : `→ ${after}`}`);
+
+  console.log('\n📋 Candidacy Metadata');
+  console.log('─'.repeat(30));
+  console.log(`Address: ${report.address}`);
+  row('Name', current.name, proposed.name);
+  row('Sharing percentage', `${current.sharingPercent}%`, `${proposed.sharingPercent}%`);
+  console.log(`Last share change in session ${current.lastPercentChangeSession}, current session ${report.currentSession}`);
 }
 
 async function checkValidatorConfiguration(): Promise<boolean> {
   try {
     // Check if service file has validator flag
-    const serviceContent = await Deno.readTextFile(PATHS.SERVICE_FILE);
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
     return serviceContent.includes('--validator');
   } catch {
     return false;
@@ -124,16 +384,14 @@ async function convertToValidator(): Promise<void> {
 
   try {
     // Stop the service
-    const stopResult = await new Deno.Command('sudo', {
-      args: ['systemctl', 'stop', SERVICE.NAME]
-    }).output();
+    const stopResult = await executeCommand('sudo', ['systemctl', 'stop', SERVICE.NAME]);
 
-    if (stopResult.code !== 0) {
+    if (!stopResult.success) {
       throw new Error('Failed to stop node service');
     }
 
     // Read current service file
-    const serviceContent = await Deno.readTextFile(PATHS.SERVICE_FILE);
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
 
     // Remove any RPC/WebSocket flags and add validator flag
     let newServiceContent = serviceContent
@@ -145,30 +403,26 @@ async function convertToValidator(): Promise<void> {
     // Add validator flag if not present
     if (!newServiceContent.includes('--validator')) {
       newServiceContent = newServiceContent.replace(
-        `--port ${SERVICE.PORT}`,
-        `--port ${SERVICE.PORT} \\\n  --validator`
+        /--port\s+\d+/,
+        (portFlag) => `${portFlag} \\\n  --validator`
       );
     }
 
     // Write updated service file
     const tempServiceFile = '/tmp/d9-node.service';
     await Deno.writeTextFile(tempServiceFile, newServiceContent);
-    const moveResult = await new Deno.Command('sudo', {
-      args: ['mv', tempServiceFile, PATHS.SERVICE_FILE]
-    }).output();
+    const moveResult = await executeCommand('sudo', ['mv', tempServiceFile, hostPath(PATHS.SERVICE_FILE)]);
 
-    if (moveResult.code !== 0) {
+    if (!moveResult.success) {
       throw new Error('Failed to update service file');
     }
 
     // Reload systemd and start service
-    await new Deno.Command('sudo', { args: ['systemctl', 'daemon-reload'] }).output();
+    await executeCommand('sudo', ['systemctl', 'daemon-reload']);
 
-    const startResult = await new Deno.Command('sudo', {
-      args: ['systemctl', 'start', SERVICE.NAME]
-    }).output();
+    const startResult = await executeCommand('sudo', ['systemctl', 'start', SERVICE.NAME]);
 
-    if (startResult.code !== 0) {
+    if (!startResult.success) {
       throw new Error('Failed to start node service');
     }
 
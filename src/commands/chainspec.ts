@@ -0,0 +1,303 @@
+/**
+ * Chain spec management.
+ *
+ * A replacement spec is only installed if its genesis hash matches the
+ * genesis of the node's database: read from the running node, or else
+ * derived from the installed spec the database was created with. Swapping
+ * in a spec for another genesis would leave the node with a database it
+ * cannot use.
+ */
+
+import { Confirm } from '@cliffy/prompt';
+import { executeCommand } from '../utils/system.ts';
+import { CommandError } from '../utils/output.ts';
+import { getGenesisHash } from '../utils/node-rpc.ts';
+import { ChainSpec, ChainSpecDiff, ChainSpecSummary, diffChainSpecs, readChainSpec } from '../utils/chain-spec.ts';
+import { WgetBinaryDownloader } from '../infrastructure/binary-downloader-impl.ts';
+import { chainSpecDownloadPath, installChainSpecCommands } from './setup-v2.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+import { EXIT_CODES, SERVICE, hostPath } from '../config/constants.ts';
+
+export interface ChainSpecSourceOptions {
+  /** URL of the new spec (default: the network profile's chain spec URL) */
+  url?: string;
+  /** Local file to use instead of downloading */
+  file?: string;
+}
+
+export interface ChainSpecUpdateOptions extends ChainSpecSourceOptions {
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+/**
+ * Genesis the node's database was created with, and where it was read from
+ */
+export interface ReferenceGenesis {
+  hash: string;
+  source: string;
+}
+
+export interface ChainSpecReport {
+  spec: ChainSpecSummary;
+  /** Genesis hash reported by the running node, if it is reachable */
+  nodeGenesisHash: string | null;
+}
+
+export interface ChainSpecDiffReport {
+  source: string;
+  installed: ChainSpecSummary | null;
+  candidate: ChainSpecSummary;
+  diff: ChainSpecDiff | null;
+  reference: ReferenceGenesis | null;
+  /** Whether the candidate may replace the installed spec */
+  replaceable: boolean;
+  reason?: string;
+  updated?: boolean;
+}
+
+/**
+ * Summarize the installed chain spec of the active network
+ */
+export async function showChainSpec(): Promise<ChainSpecReport> {
+  const installed = await readInstalledSpec();
+  if (!installed) {
+    throw new CommandError(`No chain spec at ${hostPath(getNetworkProfile().chainSpecPath)}`, EXIT_CODES.NOT_FOUND);
+  }
+
+  return {
+    spec: installed.summary,
+    nodeGenesisHash: await getGenesisHash().catch(() => null),
+  };
+}
+
+/**
+ * Fetch a new spec and compare it with the installed one
+ */
+export async function diffChainSpec(options: ChainSpecSourceOptions = {}): Promise<ChainSpecDiffReport> {
+  const workDir = await Deno.makeTempDir({ prefix: 'd9-chainspec-' });
+  try {
+    const { report } = await compareCandidate(options, workDir);
+    return report;
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+/**
+ * Replace the installed spec after showing what changes. Resolves to null
+ * if the user declines; rejects if the genesis does not match the database.
+ */
+export async function updateChainSpec(options: ChainSpecUpdateOptions = {}): Promise<ChainSpecDiffReport | null> {
+  const profile = getNetworkProfile();
+  const target = hostPath(profile.chainSpecPath);
+  const workDir = await Deno.makeTempDir({ prefix: 'd9-chainspec-' });
+
+  try {
+    const { report, candidatePath } = await compareCandidate(options, workDir);
+    printChainSpecDiff(report);
+
+    if (!report.replaceable) {
+      throw new CommandError(`Refusing to install ${report.source}: ${report.reason}`, EXIT_CODES.ERROR, report);
+    }
+    if (report.diff && isUnchanged(report.diff)) {
+      console.log('\n✅ Installed chain spec is up to date');
+      return { ...report, updated: false };
+    }
+
+    if (!options.yes) {
+      const proceed = await Confirm.prompt(`Replace ${target} with ${report.source}?`);
+      if (!proceed) {
+        console.log('❌ Chain spec update cancelled');
+        return null;
+      }
+    }
+
+    if (report.installed) {
+      console.log(`\n💾 Keeping current chain spec as ${target}.bak`);
+      const backupResult = await executeCommand('sudo', ['cp', '-p', target, `${target}.bak`]);
+      if (!backupResult.success) {
+        throw new Error(`Failed to back up current chain spec: ${backupResult.error}`);
+      }
+    }
+
+    console.log('📦 Installing chain spec...');
+    await Deno.copyFile(candidatePath, chainSpecDownloadPath(profile));
+    for (const [command, args] of installChainSpecCommands(profile)) {
+      const result = await executeCommand(command, args);
+      if (!result.success) {
+        throw new Error(`Failed to install chain spec (${command} ${args[0]}): ${result.error}`);
+      }
+    }
+
+    console.log(`✅ Installed ${target}`);
+    console.log(`💡 Restart the node to use it: sudo systemctl restart ${SERVICE.NAME}`);
+    return { ...report, updated: true };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+export function printChainSpecReport(report: ChainSpecReport): void {
+  const { spec } = report;
+  console.log('\n📋 Chain Spec');
+  console.log('─'.repeat(30));
+  console.log(`File:         ${spec.path}`);
+  console.log(`Chain:        ${spec.name} (${spec.id}${spec.chainType ? `, ${spec.chainType}` : ''})`);
+  console.log(`Genesis hash: ${spec.genesisHash ?? 'unknown (genesis is not raw)'}`);
+  if (report.nodeGenesisHash) {
+    const matches = report.nodeGenesisHash === spec.genesisHash;
+    console.log(`Running node: ${matches ? '✅' : '❌'} ${report.nodeGenesisHash}`);
+  } else {
+    console.log('Running node: not reachable');
+  }
+  console.log(`Bootnodes (${spec.bootNodes.length}):`);
+  for (const node of spec.bootNodes) {
+    console.log(`  ${node}`);
+  }
+}
+
+export function printChainSpecDiff(report: ChainSpecDiffReport): void {
+  console.log('\n📋 Chain Spec Changes');
+  console.log('─'.repeat(30));
+  console.log(`Installed: ${report.installed?.path ?? 'none'}`);
+  console.log(`New:       ${report.source}`);
+
+  const { diff } = report;
+  if (!diff) {
+    console.log(`Genesis:   ${report.candidate.genesisHash ?? 'unknown (genesis is not raw)'}`);
+  } else if (isUnchanged(diff)) {
+    console.log('No changes');
+  } else {
+    for (const change of diff.fields) {
+      console.log(`${change.field}: ${JSON.stringify(change.old)} → ${JSON.stringify(change.new)}`);
+    }
+    if (diff.bootNodes.added.length > 0 || diff.bootNodes.removed.length > 0) {
+      console.log('Bootnodes:');
+      diff.bootNodes.removed.forEach((node) => console.log(`  - ${node}`));
+      diff.bootNodes.added.forEach((node) => console.log(`  + ${node}`));
+    }
+    if (diff.genesis.same) {
+      console.log(`Genesis:   ✅ unchanged (${diff.genesis.new})`);
+    } else {
+      console.log(`Genesis:   ❌ ${diff.genesis.old ?? 'unknown'} → ${diff.genesis.new ?? 'unknown'}`);
+      const storage = diff.genesis.storage;
+      if (storage) {
+        console.log(
+          `           ${storage.added} storage keys added, ${storage.removed} removed, ${storage.changed} changed` +
+          (storage.runtimeChanged ? ' (runtime code changed)' : '')
+        );
+      }
+    }
+  }
+
+  if (report.reference) {
+    console.log(`Database:  ${report.reference.hash} (from ${report.reference.source})`);
+  }
+  if (!report.replaceable) {
+    console.log(`\n⚠️  This spec cannot be installed: ${report.reason}`);
+  }
+}
+
+function isUnchanged(diff: ChainSpecDiff): boolean {
+  return diff.genesis.same && diff.fields.length === 0 &&
+    diff.bootNodes.added.length === 0 && diff.bootNodes.removed.length === 0;
+}
+
+async function readInstalledSpec(): Promise<ChainSpec | null> {
+  const path = hostPath(getNetworkProfile().chainSpecPath);
+  try {
+    await Deno.stat(path);
+  } catch {
+    return null;
+  }
+  return await readChainSpec(path);
+}
+
+/**
+ * Fetch the candidate spec into workDir and decide whether it may be installed
+ */
+async function compareCandidate(
+  options: ChainSpecSourceOptions,
+  workDir: string
+): Promise<{ report: ChainSpecDiffReport; candidatePath: string }> {
+  const { path: candidatePath, source } = await fetchCandidate(options, workDir);
+  const candidate = await readChainSpec(candidatePath);
+  const installed = await readInstalledSpec();
+  const reference = await findReferenceGenesis(installed);
+
+  const report: ChainSpecDiffReport = {
+    source,
+    installed: installed?.summary ?? null,
+    candidate: candidate.summary,
+    diff: installed ? diffChainSpecs(installed, candidate) : null,
+    reference,
+    replaceable: true,
+  };
+
+  if (!candidate.summary.genesisHash) {
+    report.replaceable = false;
+    report.reason = 'its genesis is not raw, so its genesis hash cannot be checked';
+  } else if (reference && reference.hash !== candidate.summary.genesisHash) {
+    report.replaceable = false;
+    report.reason = `its genesis ${candidate.summary.genesisHash} differs from ${reference.hash} ` +
+      `(${reference.source}); the node database belongs to another chain`;
+  } else if (!reference && installed) {
+    report.replaceable = false;
+    report.reason = 'the genesis of the node database is unknown, start the node so it can be read over RPC';
+  }
+
+  return { report, candidatePath };
+}
+
+/**
+ * Genesis the database was created with: from the running node, or else
+ * from the installed spec
+ */
+async function findReferenceGenesis(installed: ChainSpec | null): Promise<ReferenceGenesis | null> {
+  try {
+    return { hash: await getGenesisHash(), source: 'running node' };
+  } catch {
+    // Node is stopped, fall back to the installed spec
+  }
+
+  if (installed?.summary.genesisHash) {
+    return { hash: installed.summary.genesisHash, source: installed.summary.path };
+  }
+  return null;
+}
+
+/**
+ * Copy or download the candidate spec
+ */
+async function fetchCandidate(
+  options: ChainSpecSourceOptions,
+  workDir: string
+): Promise<{ path: string; source: string }> {
+  const profile = getNetworkProfile();
+  const candidatePath = `${workDir}/${profile.chainSpecPath.split('/').pop()}`;
+
+  if (options.file) {
+    try {
+      await Deno.copyFile(options.file, candidatePath);
+    } catch (error) {
+      throw new CommandError(
+        `Cannot read ${options.file}: ${error instanceof Error ? error.message : String(error)}`,
+        EXIT_CODES.NOT_FOUND
+      );
+    }
+    return { path: candidatePath, source: options.file };
+  }
+
+  const url = options.url ?? profile.chainSpecUrl;
+  if (!url) {
+    throw new CommandError(
+      `Network ${profile.name} has no chain spec URL, pass --url or --file`,
+      EXIT_CODES.USAGE
+    );
+  }
+
+  console.log(`\n📥 Downloading chain specification (${profile.name})...`);
+  await new WgetBinaryDownloader().download(url, candidatePath);
+  return { path: candidatePath, source: url };
+}
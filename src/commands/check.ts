@@ -0,0 +1,201 @@
+/**
+ * Health check for external monitors (Nagios, Icinga, cron scripts).
+ *
+ * Each probe reports OK, WARNING or CRITICAL; the worst one is the result
+ * and the exit code, following the Nagios plugin convention. Probes only
+ * read local state and the local node's RPC, so a check finishes within a
+ * few seconds even when the node is down.
+ */
+
+import { checkSystemRequirements, executeCommand } from '../utils/system.ts';
+import { hasValidKeystore } from '../utils/keystore.ts';
+import { collectNodeHealth, NodeHealth } from './dashboard.ts';
+import { verifyKeys } from './keys.ts';
+import { getNodeTypeRequirements, NodeType } from '../domain/node-configuration.ts';
+import { HEALTH_CHECK, PATHS, SERVICE, hostPath } from '../config/constants.ts';
+
+export const PROBES = ['service', 'rpc', 'peers', 'finality', 'disk', 'keystore'] as const;
+
+export type ProbeName = typeof PROBES[number];
+
+export type CheckStatus = keyof typeof HEALTH_CHECK.STATUS;
+
+export interface ProbeResult {
+  probe: ProbeName;
+  status: CheckStatus;
+  message: string;
+  /** Nagios performance data, e.g. "peers=12;3;0" */
+  perfData?: string;
+}
+
+export interface CheckOptions {
+  /** Probes to run (default: all) */
+  probes?: ProbeName[];
+  /** Warn below this many peers */
+  minPeers?: number;
+  /** Warn above this finality lag in blocks, critical above twice it */
+  maxFinalityLag?: number;
+}
+
+export interface CheckReport {
+  status: CheckStatus;
+  exitCode: number;
+  probes: ProbeResult[];
+}
+
+/**
+ * Run the selected probes
+ */
+export async function runHealthCheck(options: CheckOptions = {}): Promise<CheckReport> {
+  const selected = options.probes && options.probes.length > 0 ? options.probes : [...PROBES];
+  const minPeers = options.minPeers ?? HEALTH_CHECK.MIN_PEERS;
+  const maxFinalityLag = options.maxFinalityLag ?? HEALTH_CHECK.MAX_FINALITY_LAG;
+  const nodeType = await readInstalledNodeType();
+
+  // rpc, peers and finality share one snapshot
+  let health: NodeHealth | null = null;
+  let rpcError = '';
+  if (selected.some((probe) => probe === 'rpc' || probe === 'peers' || probe === 'finality')) {
+    try {
+      health = await collectNodeHealth();
+    } catch (error) {
+      rpcError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const probes: ProbeResult[] = [];
+  for (const probe of PROBES.filter((name) => selected.includes(name))) {
+    switch (probe) {
+      case 'service':
+        probes.push(await probeService());
+        break;
+      case 'rpc':
+        probes.push(
+          health
+            ? { probe, status: 'OK', message: `RPC answers, best block #${health.bestBlock}` }
+            : { probe, status: 'CRITICAL', message: rpcError }
+        );
+        break;
+      case 'peers':
+        probes.push(health ? probePeers(health, minPeers) : { probe, status: 'CRITICAL', message: 'no data, RPC unreachable' });
+        break;
+      case 'finality':
+        probes.push(
+          health ? probeFinality(health, maxFinalityLag) : { probe, status: 'CRITICAL', message: 'no data, RPC unreachable' }
+        );
+        break;
+      case 'disk':
+        probes.push(await probeDisk(nodeType));
+        break;
+      case 'keystore':
+        probes.push(await probeKeystore(nodeType));
+        break;
+    }
+  }
+
+  const status = worstStatus(probes.map((result) => result.status));
+  return { status, exitCode: HEALTH_CHECK.STATUS[status], probes };
+}
+
+async function probeService(): Promise<ProbeResult> {
+  const stateResult = await executeCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]);
+  const state = stateResult.output.trim().split('\n')[0] || 'unknown';
+  return state === 'active'
+    ? { probe: 'service', status: 'OK', message: `${SERVICE.NAME} active` }
+    : { probe: 'service', status: 'CRITICAL', message: `${SERVICE.NAME} ${state}` };
+}
+
+function probePeers(health: NodeHealth, minPeers: number): ProbeResult {
+  const perfData = `peers=${health.peers};${minPeers};0`;
+  if (health.peers === 0) {
+    return { probe: 'peers', status: 'CRITICAL', message: 'no peers', perfData };
+  }
+  if (health.peers < minPeers) {
+    return { probe: 'peers', status: 'WARNING', message: `${health.peers} peers, fewer than ${minPeers}`, perfData };
+  }
+  return { probe: 'peers', status: 'OK', message: `${health.peers} peers`, perfData };
+}
+
+function probeFinality(health: NodeHealth, maxLag: number): ProbeResult {
+  const lag = health.finalityLag;
+  const perfData = `finality_lag=${lag};${maxLag};${maxLag * 2}`;
+  const message = `finalized #${health.finalizedBlock}, ${lag} blocks behind best`;
+  if (lag > maxLag * 2) {
+    return { probe: 'finality', status: 'CRITICAL', message, perfData };
+  }
+  if (lag > maxLag) {
+    return { probe: 'finality', status: 'WARNING', message, perfData };
+  }
+  return { probe: 'finality', status: 'OK', message, perfData };
+}
+
+async function probeDisk(nodeType: NodeType['type']): Promise<ProbeResult> {
+  const { diskSpace } = await checkSystemRequirements();
+  const minimum = getNodeTypeRequirements({ type: nodeType }).minimumDiskSpace;
+  const perfData = `disk_free=${diskSpace}GB;${minimum};${HEALTH_CHECK.CRITICAL_DISK_GB}`;
+  const message = `${diskSpace} GB free, ${nodeType} nodes need ${minimum} GB`;
+  if (diskSpace < HEALTH_CHECK.CRITICAL_DISK_GB) {
+    return { probe: 'disk', status: 'CRITICAL', message, perfData };
+  }
+  if (diskSpace < minimum) {
+    return { probe: 'disk', status: 'WARNING', message, perfData };
+  }
+  return { probe: 'disk', status: 'OK', message, perfData };
+}
+
+/**
+ * A validator needs all four session keys; other node types need none
+ */
+async function probeKeystore(nodeType: NodeType['type']): Promise<ProbeResult> {
+  if (nodeType !== 'validator') {
+    return { probe: 'keystore', status: 'OK', message: `not required for ${nodeType} nodes` };
+  }
+  if (!await hasValidKeystore({ verbose: false })) {
+    return { probe: 'keystore', status: 'CRITICAL', message: 'no usable aura key' };
+  }
+
+  const report = await verifyKeys({ offline: true });
+  const problems = report.keys.flatMap((key) => key.problems);
+  return problems.length === 0
+    ? { probe: 'keystore', status: 'OK', message: `all ${report.keys.length} session keys present` }
+    : { probe: 'keystore', status: 'CRITICAL', message: problems.join('; ') };
+}
+
+/**
+ * Node type from the installed service file (full if there is none)
+ */
+async function readInstalledNodeType(): Promise<NodeType['type']> {
+  try {
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
+    if (serviceContent.includes('--validator')) {
+      return 'validator';
+    }
+    return serviceContent.includes('--pruning archive') ? 'archiver' : 'full';
+  } catch {
+    return 'full';
+  }
+}
+
+function worstStatus(statuses: CheckStatus[]): CheckStatus {
+  return statuses.reduce<CheckStatus>(
+    (worst, status) => HEALTH_CHECK.STATUS[status] > HEALTH_CHECK.STATUS[worst] ? status : worst,
+    'OK'
+  );
+}
+
+/**
+ * Print the result in Nagios plugin format: a status line with performance
+ * data, then one line per probe
+ */
+export function printCheckReport(report: CheckReport): void {
+  const failing = report.probes.filter((result) => result.status !== 'OK');
+  const summary = failing.length > 0
+    ? failing.map((result) => `${result.probe}: ${result.message}`).join('; ')
+    : `${report.probes.length} probes passed`;
+  const perfData = report.probes.flatMap((result) => result.perfData ? [result.perfData] : []).join(' ');
+
+  console.log(`D9 NODE ${report.status} - ${summary}${perfData ? ` | ${perfData}` : ''}`);
+  for (const result of report.probes) {
+    console.log(`[${result.status}] ${result.probe}: ${result.message}`);
+  }
+}
@@ -1,11 +1,121 @@
 import { Select, Confirm } from '@cliffy/prompt';
 import { NodeType, Messages } from '../types.ts';
-import { checkDiskSpace, createProgressBar, systemctl, executeCommand } from '../utils/system.ts';
-import { PATHS, SERVICE } from '../config/constants.ts';
+import { checkDiskSpace, createProgressBar, systemctl, executeCommand, formatCommand } from '../utils/system.ts';
+import { unifiedDiff } from '../utils/diff.ts';
+import { PlanStep } from '../core/plan.ts';
+import { PATHS, SERVICE, hostPath } from '../config/constants.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+
+/**
+ * Answers for the conversion prompts; undefined values are asked interactively.
+ */
+export interface ConvertOptions {
+  to?: NodeType;
+  /** Skip confirmation prompts */
+  yes?: boolean;
+  /** Submit validator candidacy after converting to a validator */
+  candidacy?: boolean;
+}
 
-export async function convertNode(messages: Messages): Promise<void> {
+export async function convertNode(messages: Messages, options: ConvertOptions = {}): Promise<boolean> {
   console.log('\n' + messages.convertNode);
-  
+
+  const newNodeType = await selectConversionTarget(messages, options);
+  if (newNodeType === null) {
+    return false;
+  }
+  if (newNodeType === undefined) {
+    return true;
+  }
+
+  const confirm = options.yes || await Confirm.prompt('Proceed with conversion?');
+  if (!confirm) {
+    return false;
+  }
+
+  try {
+    await performConversion(newNodeType as NodeType, messages);
+    
+    // If converting to validator, ask about candidacy
+    if (newNodeType === NodeType.VALIDATOR) {
+      const submitCandidacy = options.candidacy ?? await Confirm.prompt('Would you like to submit validator candidacy now?');
+      if (submitCandidacy) {
+        const { submitCandidacy: submitCandidacyCommand } = await import('./candidacy.ts');
+        await submitCandidacyCommand(messages, { yes: options.yes });
+      }
+    }
+    
+    console.log(`✅ ${messages.progress.complete}`);
+    console.log('\n📊 Node has been converted successfully!');
+    console.log('🔍 Check status: d9-manager logs --follow');
+    return true;
+  } catch (error) {
+    console.log(`❌ Conversion failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Work out what convertNode would do with the same answers, without touching
+ * the service. Resolves to null if the conversion would not go ahead.
+ */
+export async function planConversion(messages: Messages, options: ConvertOptions = {}): Promise<PlanStep[] | null> {
+  console.log('\n' + messages.convertNode);
+
+  const newNodeType = await selectConversionTarget(messages, options);
+  if (newNodeType === null) {
+    return null;
+  }
+  if (newNodeType === undefined) {
+    return [];
+  }
+
+  let serviceContent: string;
+  try {
+    serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
+  } catch {
+    throw new Error('Service file not found. Please run setup first.');
+  }
+
+  const newServiceContent = buildConvertedServiceContent(serviceContent, newNodeType);
+  const steps: PlanStep[] = [
+    {
+      description: `Stop ${SERVICE.NAME}`,
+      commands: [formatCommand('sudo', ['systemctl', 'stop', SERVICE.NAME])],
+    },
+    {
+      description: `Rewrite ${PATHS.SERVICE_FILE} for a ${newNodeType} node`,
+      commands: [
+        'write /tmp/d9-node.service',
+        formatCommand('sudo', ['mv', '/tmp/d9-node.service', hostPath(PATHS.SERVICE_FILE)]),
+        formatCommand('sudo', ['systemctl', 'daemon-reload']),
+      ],
+      diff: unifiedDiff(serviceContent, newServiceContent, hostPath(PATHS.SERVICE_FILE), hostPath(PATHS.SERVICE_FILE)) || undefined,
+    },
+    {
+      description: `Start ${SERVICE.NAME}`,
+      commands: [
+        formatCommand('sudo', ['systemctl', 'start', SERVICE.NAME]),
+        formatCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]),
+      ],
+    },
+  ];
+
+  if (newNodeType === NodeType.VALIDATOR && options.candidacy) {
+    steps.push({ description: 'Submit validator candidacy', commands: [] });
+  }
+
+  return steps;
+}
+
+/**
+ * Show the current configuration and pick the target node type.
+ * Resolves to undefined if no conversion is needed and null if it cannot proceed.
+ */
+async function selectConversionTarget(
+  messages: Messages,
+  options: ConvertOptions
+): Promise<NodeType | null | undefined> {
   // Check current node configuration
   const currentConfig = await getCurrentNodeConfiguration();
   console.log(`\n📊 Current configuration: ${currentConfig.type}`);
@@ -13,7 +123,7 @@ export async function convertNode(messages: Messages): Promise<void> {
   console.log(`Archive mode: ${currentConfig.isArchive ? '✅' : '❌'}`);
 
   // Select new configuration
-  const newNodeType = await Select.prompt<NodeType>({
+  const newNodeType = options.to ?? await Select.prompt<NodeType>({
     message: 'Convert to which node type?',
     options: [
       {
@@ -34,17 +144,17 @@ export async function convertNode(messages: Messages): Promise<void> {
   // Check if conversion is needed
   if (currentConfig.type === newNodeType) {
     console.log('ℹ️  Node is already configured as ' + newNodeType);
-    return;
+    return undefined;
   }
 
   // Check disk space requirements
   const requiredSpace = newNodeType === NodeType.ARCHIVER ? 120 : 60;
   const hasSpace = await checkDiskSpace(requiredSpace);
-  
+
   if (!hasSpace) {
     console.log(`❌ ${messages.errors.diskSpace}`);
     console.log(`Required: ${requiredSpace}GB`);
-    return;
+    return null;
   }
 
   // Show conversion details
@@ -53,30 +163,7 @@ export async function convertNode(messages: Messages): Promise<void> {
   console.log(`${selectedType.description}`);
   console.log(`${selectedType.requirements}\n`);
 
-  const confirm = await Confirm.prompt('Proceed with conversion?');
-  if (!confirm) {
-    return;
-  }
-
-  try {
-    await performConversion(newNodeType as NodeType, messages);
-    
-    // If converting to validator, ask about candidacy
-    if (newNodeType === NodeType.VALIDATOR) {
-      const submitCandidacy = await Confirm.prompt('Would you like to submit validator candidacy now?');
-      if (submitCandidacy) {
-        const { submitCandidacy: submitCandidacyCommand } = await import('./candidacy.ts');
-        await submitCandidacyCommand(messages);
-      }
-    }
-    
-    console.log(`✅ ${messages.progress.complete}`);
-    console.log('\n📊 Node has been converted successfully!');
-    console.log(`🔍 Check status: journalctl -u ${SERVICE.NAME} -f`);
-    
-  } catch (error) {
-    console.log(`❌ Conversion failed: ${error instanceof Error ? error.message : String(error)}`);
-  }
+  return newNodeType as NodeType;
 }
 
 interface NodeConfiguration {
@@ -87,7 +174,7 @@ interface NodeConfiguration {
 
 async function getCurrentNodeConfiguration(): Promise<NodeConfiguration> {
   try {
-    const serviceContent = await Deno.readTextFile(PATHS.SERVICE_FILE);
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
 
     const isValidator = serviceContent.includes('--validator');
     const isArchive = serviceContent.includes('--pruning archive');
@@ -108,7 +195,7 @@ async function getCurrentNodeConfiguration(): Promise<NodeConfiguration> {
   }
 }
 
-async function performConversion(nodeType: NodeType, messages: Messages): Promise<void> {
+export async function performConversion(nodeType: NodeType, messages: Messages): Promise<void> {
   await createProgressBar(1000, 'Stopping node...');
 
   // Stop the service
@@ -122,11 +209,51 @@ async function performConversion(nodeType: NodeType, messages: Messages): Promis
   // Read current service configuration
   let serviceContent: string;
   try {
-    serviceContent = await Deno.readTextFile(PATHS.SERVICE_FILE);
+    serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
   } catch {
     throw new Error('Service file not found. Please run setup first.');
   }
 
+  const newServiceContent = buildConvertedServiceContent(serviceContent, nodeType);
+
+  // Write new service file
+  const tempServiceFile = '/tmp/d9-node.service';
+  await Deno.writeTextFile(tempServiceFile, newServiceContent);
+  const moveResult = await executeCommand('sudo', ['mv', tempServiceFile, hostPath(PATHS.SERVICE_FILE)]);
+
+  if (!moveResult.success) {
+    throw new Error('Failed to update service configuration');
+  }
+
+  // Reload systemd
+  const reloadResult = await executeCommand('sudo', ['systemctl', 'daemon-reload']);
+  if (!reloadResult.success) {
+    throw new Error('Failed to reload systemd');
+  }
+
+  await createProgressBar(1000, 'Starting node...');
+
+  // Start the service
+  const started = await systemctl('start', SERVICE.NAME);
+  if (!started) {
+    throw new Error('Failed to start node service');
+  }
+
+  // Verify service is running
+  await new Promise(resolve => setTimeout(resolve, 3000));
+
+  const statusResult = await executeCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]);
+  if (!statusResult.success || !statusResult.output.includes('active')) {
+    console.log('⚠️  Service may not be running properly. Check logs:');
+    console.log('d9-manager logs -n 20');
+  }
+}
+
+/**
+ * Service file for the given node type, preserving the name, user, base path,
+ * working directory, chain and ports of the current installation
+ */
+function buildConvertedServiceContent(serviceContent: string, nodeType: NodeType): string {
   // Extract existing configuration values to preserve installation mode
   const nameMatch = serviceContent.match(/--name\s+"([^"]+)"/);
   const nodeName = nameMatch ? nameMatch[1] : 'D9-Node';
@@ -143,6 +270,20 @@ async function performConversion(nodeType: NodeType, messages: Messages): Promis
   const groupMatch = serviceContent.match(/Group=([^\s]+)/);
   const serviceGroup = groupMatch ? groupMatch[1] : undefined;
 
+  // Chain and ports fall back to the active network profile
+  const profile = getNetworkProfile();
+  const chainMatch = serviceContent.match(/--chain\s+([^\s\\]+)/);
+  const chainSpec = chainMatch ? chainMatch[1] : profile.chainSpecPath;
+
+  const portMatch = serviceContent.match(/--port\s+(\d+)/);
+  const port = portMatch ? portMatch[1] : String(profile.p2pPort);
+
+  const rpcPortMatch = serviceContent.match(/--rpc-port\s+(\d+)/);
+  const rpcPort = rpcPortMatch ? rpcPortMatch[1] : profile.rpcPort?.toString();
+
+  const prometheusPortMatch = serviceContent.match(/--prometheus-port\s+(\d+)/);
+  const prometheusExternal = /--prometheus-external\b/.test(serviceContent);
+
   // Create new service configuration preserving the installation mode
   let newServiceContent = `[Unit]
 Description=D9 Node
@@ -163,9 +304,20 @@ User=${serviceUser}`;
   newServiceContent += `
 ExecStart=${PATHS.BINARY} \\
   --base-path ${basePath} \\
-  --chain ${PATHS.CHAIN_SPEC} \\
+  --chain ${chainSpec} \\
   --name "${nodeName}" \\
-  --port ${SERVICE.PORT}`;
+  --port ${port}`;
+
+  if (rpcPort) {
+    newServiceContent += ` \\\n  --rpc-port ${rpcPort}`;
+  }
+
+  if (prometheusPortMatch) {
+    newServiceContent += ` \\\n  --prometheus-port ${prometheusPortMatch[1]}`;
+  }
+  if (prometheusExternal) {
+    newServiceContent += ' \\\n  --prometheus-external';
+  }
 
   // Add type-specific flags
   switch (nodeType) {
@@ -187,35 +339,5 @@ Restart=on-failure
 WantedBy=multi-user.target
 `;
 
-  // Write new service file
-  const tempServiceFile = '/tmp/d9-node.service';
-  await Deno.writeTextFile(tempServiceFile, newServiceContent);
-  const moveResult = await executeCommand('sudo', ['mv', tempServiceFile, PATHS.SERVICE_FILE]);
-
-  if (!moveResult.success) {
-    throw new Error('Failed to update service configuration');
-  }
-
-  // Reload systemd
-  const reloadResult = await executeCommand('sudo', ['systemctl', 'daemon-reload']);
-  if (!reloadResult.success) {
-    throw new Error('Failed to reload systemd');
-  }
-
-  await createProgressBar(1000, 'Starting node...');
-
-  // Start the service
-  const started = await systemctl('start', SERVICE.NAME);
-  if (!started) {
-    throw new Error('Failed to start node service');
-  }
-
-  // Verify service is running
-  await new Promise(resolve => setTimeout(resolve, 3000));
-
-  const statusResult = await executeCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]);
-  if (!statusResult.success || !statusResult.output.includes('active')) {
-    console.log('⚠️  Service may not be running properly. Check logs:');
-    console.log(`journalctl -u ${SERVICE.NAME} -n 20`);
-  }
-}
\ No newline at end of file
+  return newServiceContent;
+}
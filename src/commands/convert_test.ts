@@ -0,0 +1,132 @@
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { performConversion } from './convert.ts';
+import { FakeCommandRunner } from '../utils/command-runner.ts';
+import { TestEnvironment, withTestEnvironment } from '../utils/testing.ts';
+import { getMessage } from '../i18n.ts';
+import { NodeType } from '../types.ts';
+import { PATHS } from '../config/constants.ts';
+
+const messages = getMessage('en');
+
+const FULL_NODE_SERVICE = `[Unit]
+Description=D9 Node
+After=network.target
+
+[Service]
+Type=simple
+User=d9-node
+Group=d9-node
+ExecStart=/usr/local/bin/d9-node \\
+  --base-path /var/lib/d9-node \\
+  --chain /usr/local/bin/new-main-spec.json \\
+  --name "Test Node" \\
+  --port 40100 \\
+  --rpc-port 40300 \\
+  --pruning 1000
+
+Restart=on-failure
+
+[Install]
+WantedBy=multi-user.target
+`;
+
+/**
+ * Run fn against a host root holding a full node's service file
+ */
+async function withInstalledNode(
+  runner: FakeCommandRunner,
+  fn: (serviceFile: string, environment: TestEnvironment) => Promise<void>,
+  serviceContent: string | null = FULL_NODE_SERVICE
+): Promise<void> {
+  await withTestEnvironment({ runner, rootPrefix: true, captureConsole: true }, async (environment) => {
+    const serviceFile = `${environment.root}${PATHS.SERVICE_FILE}`;
+    if (serviceContent !== null) {
+      await Deno.mkdir(serviceFile.slice(0, serviceFile.lastIndexOf('/')), { recursive: true });
+      await Deno.writeTextFile(serviceFile, serviceContent);
+    }
+    await fn(serviceFile, environment);
+  });
+}
+
+/**
+ * Strict runner answering every command of a successful conversion, with the
+ * service file move carried out for real
+ */
+function conversionRunner(isActiveOutput = 'active\n'): FakeCommandRunner {
+  return new FakeCommandRunner({ strict: true })
+    .on('sudo systemctl stop d9-node.service', {})
+    .on(/^sudo mv \/tmp\/d9-node\.service /, ({ args }) => {
+      Deno.renameSync(args[1], args[2]);
+      return {};
+    })
+    .on('sudo systemctl daemon-reload', {})
+    .on('sudo systemctl start d9-node.service', {})
+    .on('sudo systemctl is-active d9-node.service', { stdout: isActiveOutput });
+}
+
+Deno.test('performConversion rewrites the service file and restarts the node', async () => {
+  const runner = conversionRunner();
+  await withInstalledNode(runner, async (serviceFile) => {
+    await performConversion(NodeType.VALIDATOR, messages);
+
+    assertEquals(runner.commandLines, [
+      'sudo systemctl stop d9-node.service',
+      `sudo mv /tmp/d9-node.service ${serviceFile}`,
+      'sudo systemctl daemon-reload',
+      'sudo systemctl start d9-node.service',
+      'sudo systemctl is-active d9-node.service',
+    ]);
+
+    const converted = await Deno.readTextFile(serviceFile);
+    assertStringIncludes(converted, '--validator');
+    assertStringIncludes(converted, '--name "Test Node"');
+    assertStringIncludes(converted, '--rpc-port 40300');
+    assertEquals(converted.includes('--pruning'), false);
+  });
+});
+
+Deno.test('performConversion stops when the service cannot be stopped', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on('sudo systemctl stop d9-node.service', { code: 5, stderr: 'Failed to stop d9-node.service: Unit not loaded.' });
+  await withInstalledNode(runner, async () => {
+    await assertRejects(() => performConversion(NodeType.ARCHIVER, messages), Error, 'Failed to stop node service');
+
+    assertEquals(runner.commandLines, ['sudo systemctl stop d9-node.service']);
+  });
+});
+
+Deno.test('performConversion requires an installed service file', async () => {
+  const runner = new FakeCommandRunner({ strict: true }).on('sudo systemctl stop d9-node.service', {});
+  await withInstalledNode(runner, async () => {
+    await assertRejects(
+      () => performConversion(NodeType.ARCHIVER, messages),
+      Error,
+      'Service file not found. Please run setup first.'
+    );
+  }, null);
+});
+
+Deno.test('performConversion stops when the service file cannot be moved into place', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on('sudo systemctl stop d9-node.service', {})
+    .on(/^sudo mv /, { code: 1, stderr: 'mv: cannot move: Permission denied' });
+  await withInstalledNode(runner, async (serviceFile) => {
+    await assertRejects(
+      () => performConversion(NodeType.ARCHIVER, messages),
+      Error,
+      'Failed to update service configuration'
+    );
+
+    // Nothing after the failed move runs, and the old unit is untouched
+    assertEquals(runner.calls(/daemon-reload|systemctl start/).length, 0);
+    assertEquals(await Deno.readTextFile(serviceFile), FULL_NODE_SERVICE);
+  });
+});
+
+Deno.test('performConversion warns when systemctl prints no state after the restart', async () => {
+  await withInstalledNode(conversionRunner(''), async (_serviceFile, { logs }) => {
+    await performConversion(NodeType.ARCHIVER, messages);
+
+    assertStringIncludes(logs.join('\n'), 'Service may not be running properly');
+  });
+});
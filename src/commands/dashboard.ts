@@ -0,0 +1,197 @@
+/**
+ * Live health dashboard for the node running on this host.
+ *
+ * Everything shown comes from the local node's RPC, so the view keeps
+ * working while the public endpoints or the chain are the problem. Block
+ * production is measured between refreshes; a single snapshot has no rate.
+ */
+
+import { getLocalRpcUrl, nodeRpc } from '../utils/node-rpc.ts';
+import { CommandError } from '../utils/output.ts';
+import { EXIT_CODES } from '../config/constants.ts';
+
+export interface PeerInfo {
+  peerId: string;
+  roles: string;
+  bestNumber: number;
+}
+
+export interface NodeHealth {
+  rpcUrl: string;
+  timestamp: string;
+  peers: number;
+  /** Connected peers, null if the node refuses system_peers (an unsafe RPC method) */
+  peerList: PeerInfo[] | null;
+  isSyncing: boolean;
+  shouldHavePeers: boolean;
+  bestBlock: number;
+  finalizedBlock: number;
+  /** Blocks between best and finalized */
+  finalityLag: number;
+  /** Highest block known to the network: sync target or best peer */
+  highestBlock: number;
+  /** Best block as a percentage of highestBlock */
+  syncPercent: number;
+  /** Roles reported by system_nodeRoles, e.g. ["Authority"] */
+  roles: string[];
+  /** Running with --validator */
+  validator: boolean;
+}
+
+export interface DashboardOptions {
+  /** Seconds between refreshes */
+  interval?: number;
+}
+
+/**
+ * Default seconds between dashboard refreshes
+ */
+const DEFAULT_INTERVAL = 5;
+
+/**
+ * How far back blocks per minute is averaged
+ */
+const RATE_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Query the local node for a health snapshot
+ */
+export async function collectNodeHealth(url: string = getLocalRpcUrl()): Promise<NodeHealth> {
+  const [health, syncState, header, finalizedHash, roles] = await Promise.all([
+    nodeRpc<{ peers: number; isSyncing: boolean; shouldHavePeers: boolean }>('system_health', [], url),
+    nodeRpc<{ startingBlock: number; currentBlock: number; highestBlock?: number | null }>('system_syncState', [], url),
+    nodeRpc<{ number: string }>('chain_getHeader', [], url),
+    nodeRpc<string>('chain_getFinalizedHead', [], url),
+    nodeRpc<string[]>('system_nodeRoles', [], url),
+  ]);
+  const finalizedHeader = await nodeRpc<{ number: string }>('chain_getHeader', [finalizedHash], url);
+  const peerList = await nodeRpc<PeerInfo[]>('system_peers', [], url)
+    .then((peers) => peers.map(({ peerId, roles, bestNumber }) => ({ peerId, roles, bestNumber })))
+    .catch(() => null);
+
+  const bestBlock = parseInt(header.number, 16);
+  const finalizedBlock = parseInt(finalizedHeader.number, 16);
+  const highestBlock = Math.max(
+    bestBlock,
+    syncState.highestBlock ?? 0,
+    ...(peerList ?? []).map((peer) => peer.bestNumber)
+  );
+
+  return {
+    rpcUrl: url,
+    timestamp: new Date().toISOString(),
+    peers: health.peers,
+    peerList,
+    isSyncing: health.isSyncing,
+    shouldHavePeers: health.shouldHavePeers,
+    bestBlock,
+    finalizedBlock,
+    finalityLag: bestBlock - finalizedBlock,
+    highestBlock,
+    syncPercent: highestBlock === 0 ? 100 : Math.floor((bestBlock / highestBlock) * 10000) / 100,
+    roles,
+    validator: roles.includes('Authority'),
+  };
+}
+
+/**
+ * One-shot snapshot for the CLI, failing when the node does not answer
+ */
+export async function collectNodeHealthReport(): Promise<NodeHealth> {
+  try {
+    return await collectNodeHealth();
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NOT_RUNNING);
+  }
+}
+
+/**
+ * Redraw the dashboard every interval until Ctrl+C. RPC failures are shown
+ * and retried rather than ending the view, since they are what it is for.
+ */
+export async function runDashboard(options: DashboardOptions = {}): Promise<void> {
+  const intervalMs = (options.interval ?? DEFAULT_INTERVAL) * 1000;
+  const samples: { time: number; bestBlock: number }[] = [];
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopped = true;
+    wake?.();
+  };
+  Deno.addSignalListener('SIGINT', stop);
+
+  try {
+    while (!stopped) {
+      let health: NodeHealth | null = null;
+      let error: string | null = null;
+      try {
+        health = await collectNodeHealth();
+        samples.push({ time: Date.now(), bestBlock: health.bestBlock });
+        while (samples.length > 2 && samples[0].time < Date.now() - RATE_WINDOW_MS) {
+          samples.shift();
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      console.clear();
+      if (health) {
+        printNodeHealth(health, blocksPerMinute(samples));
+      } else {
+        console.log('\n📈 Node Dashboard');
+        console.log('─'.repeat(30));
+        console.log(`❌ ${error}`);
+      }
+      console.log(`\nRefreshing every ${intervalMs / 1000}s, Ctrl+C to stop`);
+
+      if (stopped) {
+        break;
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    Deno.removeSignalListener('SIGINT', stop);
+  }
+}
+
+/**
+ * Average block production over the sampled window, null until two samples exist
+ */
+function blocksPerMinute(samples: { time: number; bestBlock: number }[]): number | null {
+  if (samples.length < 2) {
+    return null;
+  }
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const minutes = (last.time - first.time) / 60000;
+  return minutes > 0 ? Math.round(((last.bestBlock - first.bestBlock) / minutes) * 10) / 10 : null;
+}
+
+export function printNodeHealth(health: NodeHealth, rate: number | null = null): void {
+  console.log('\n📈 Node Dashboard');
+  console.log('─'.repeat(30));
+  console.log(`Role:      ${health.validator ? '🛡️  Validator' : health.roles.join(', ') || 'unknown'}`);
+  console.log(`Sync:      ${health.isSyncing ? '🔄 Syncing' : '✅ Synced'} ${health.syncPercent.toFixed(2)}% (${health.bestBlock} of ${health.highestBlock})`);
+  console.log(`Best:      #${health.bestBlock}`);
+  console.log(`Finalized: #${health.finalizedBlock} (${health.finalityLag} behind)`);
+  console.log(`Blocks:    ${rate === null ? 'measuring...' : `${rate} per minute`}`);
+
+  const peerStatus = health.peers === 0 && health.shouldHavePeers ? '❌' : '✅';
+  console.log(`Peers:     ${peerStatus} ${health.peers}`);
+  if (health.peerList && health.peerList.length > 0) {
+    const sorted = [...health.peerList].sort((a, b) => b.bestNumber - a.bestNumber);
+    for (const peer of sorted.slice(0, 5)) {
+      console.log(`           #${peer.bestNumber}  ${peer.peerId}`);
+    }
+    if (sorted.length > 5) {
+      console.log(`           ... ${sorted.length - 5} more`);
+    }
+  }
+  console.log(`\n🔌 ${health.rpcUrl} at ${health.timestamp}`);
+}
@@ -0,0 +1,435 @@
+/**
+ * Session key checks and rotation for validators.
+ *
+ * A validator only authors blocks if the keys it registered on chain with
+ * session.setKeys are the ones in its keystore. Nothing fails loudly when
+ * they drift apart (a regenerated keystore, a restored backup, keys set
+ * from another machine), the node just stops producing blocks, so
+ * `keys verify` compares the two directly.
+ *
+ * `keys rotate` puts new keys in the keystore, registers them with
+ * session.setKeys, and removes the previous keys only once the new ones are
+ * in session.nextKeys. Until then the rotation stays pending in the key
+ * generation record and the next `keys rotate` resumes it.
+ */
+
+import { Confirm, Secret } from '@cliffy/prompt';
+import { Keyring } from '@polkadot/keyring';
+import { hexToU8a, u8aToHex } from '@polkadot/util';
+import { cryptoWaitReady, encodeAddress, mnemonicValidate } from '@polkadot/util-crypto';
+import {
+  discoverKeystore,
+  findControllerKeyFile,
+  findKeystorePath,
+  getDataDirectory,
+  inspectKeystore,
+  KeystoreEntry,
+} from '../utils/keystore.ts';
+import { KeyGeneration, KeyGenerationState, loadKeyGenerations, saveKeyGenerations } from '../utils/key-generations.ts';
+import { auditKeyOperation, insertKeySecurely } from '../utils/secure-keys.ts';
+import { getD9API } from '../utils/polkadot.ts';
+import { nodeRpc } from '../utils/node-rpc.ts';
+import { executeCommand } from '../utils/system.ts';
+import { CommandError } from '../utils/output.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+import { ALL_KEY_TYPES, DERIVATION_PATHS, EXIT_CODES, KEY_TYPES, PATHS, SERVICE, hostPath } from '../config/constants.ts';
+
+export interface KeysVerifyOptions {
+  /** Account whose registered keys to compare (default: the aura key's account) */
+  account?: string;
+  /** Only check the local keystore */
+  offline?: boolean;
+}
+
+/**
+ * Local and registered state of one key type
+ */
+export interface KeyTypeCheck {
+  type: string;
+  sessionKey: string;
+  files: KeystoreEntry[];
+  /** Key registered on chain for the next session, if the chain was checked */
+  registered?: string | null;
+  problems: string[];
+}
+
+export interface KeysVerifyReport {
+  keystorePath: string;
+  account: string | null;
+  keys: KeyTypeCheck[];
+  chain: {
+    checked: boolean;
+    /** Whether the account has session keys registered at all */
+    registered?: boolean;
+    error?: string;
+  };
+  valid: boolean;
+}
+
+/**
+ * Check the keystore's four session keys, and unless offline compare them
+ * with session.nextKeys of the validator account
+ */
+export async function verifyKeys(options: KeysVerifyOptions = {}): Promise<KeysVerifyReport> {
+  const discovery = await discoverKeystore();
+  if (!discovery.path) {
+    throw new CommandError('No keystore found, run setup first', EXIT_CODES.NOT_FOUND, discovery);
+  }
+
+  const entries = await inspectKeystore(discovery.path);
+  const keys: KeyTypeCheck[] = ALL_KEY_TYPES.map((keyType) => {
+    const files = entries.filter((entry) => entry.type === keyType.type);
+    const problems: string[] = [];
+    if (files.length === 0) {
+      problems.push(`No ${keyType.type} key file (expected a file starting with ${keyType.prefix})`);
+    }
+    for (const file of files) {
+      if (file.error) {
+        problems.push(`${file.file}: secret does not parse (${file.error})`);
+      } else if (file.derivedPublicKey !== file.publicKey) {
+        problems.push(`${file.file}: file name does not match its public key ${file.derivedPublicKey}`);
+      }
+    }
+    return { type: keyType.type, sessionKey: keyType.sessionKey, files, problems };
+  });
+
+  // The node account is the account of its controller aura key
+  const controllerFile = await findControllerKeyFile(discovery.path);
+  const auraKey = entries.find((entry) => entry.file === controllerFile && isUsable(entry));
+  const account = options.account ?? (auraKey ? `Dn${encodeAddress(hexToU8a(auraKey.publicKey), 9)}` : null);
+
+  const report: KeysVerifyReport = {
+    keystorePath: discovery.path,
+    account,
+    keys,
+    chain: { checked: false },
+    valid: false,
+  };
+
+  if (options.offline) {
+    report.valid = keys.every((key) => key.problems.length === 0);
+    return report;
+  }
+  if (!account) {
+    report.chain.error = 'No usable aura key to derive the validator account from, pass --account';
+    return report;
+  }
+
+  let registered: Record<string, string> | null;
+  try {
+    registered = await getD9API().getNextSessionKeys(account);
+  } catch (error) {
+    report.chain.error = error instanceof Error ? error.message : String(error);
+    return report;
+  }
+
+  report.chain = { checked: true, registered: registered !== null };
+  for (const key of keys) {
+    key.registered = registered?.[key.sessionKey] ?? null;
+    if (!key.registered) {
+      continue;
+    }
+    const local = key.files.find((file) => file.publicKey === key.registered);
+    if (!local) {
+      key.problems.push(`Registered ${key.type} key ${key.registered} is not in the keystore`);
+    } else if (!isUsable(local)) {
+      key.problems.push(`Registered ${key.type} key ${key.registered} is in the keystore but unusable`);
+    }
+  }
+
+  report.valid = report.chain.registered === true && keys.every((key) => key.problems.length === 0);
+  return report;
+}
+
+/**
+ * Exit code for a verification: the chain being unreachable is reported
+ * separately from keys that do not match
+ */
+export function keysVerifyExitCode(report: KeysVerifyReport): number {
+  if (report.valid) {
+    return EXIT_CODES.OK;
+  }
+  const localProblems = report.keys.some((key) => key.problems.length > 0);
+  return !localProblems && report.chain.error ? EXIT_CODES.NETWORK : EXIT_CODES.ERROR;
+}
+
+export function printKeysVerifyReport(report: KeysVerifyReport): void {
+  console.log('\n🔑 Session Keys');
+  console.log('─'.repeat(30));
+  console.log(`Keystore: ${report.keystorePath}`);
+  console.log(`Account:  ${report.account ?? 'unknown'}`);
+
+  for (const key of report.keys) {
+    const usable = key.files.filter(isUsable);
+    const shown = key.registered ?? usable[0]?.publicKey ?? 'missing';
+    const icon = key.problems.length === 0 ? '✅' : '❌';
+    const status = key.registered ? 'registered' : `${key.files.length} file(s)`;
+    console.log(`${icon} ${key.type}  ${shown} (${status})`);
+    key.problems.forEach((problem) => console.log(`     ${problem}`));
+  }
+
+  if (!report.chain.checked) {
+    console.log(`\n⚠️  On-chain keys not checked${report.chain.error ? `: ${report.chain.error}` : ''}`);
+  } else if (!report.chain.registered) {
+    console.log(`\n❌ ${report.account} has no session keys registered (session.nextKeys is empty)`);
+  }
+
+  if (report.valid) {
+    console.log('\n✅ Keystore matches the registered session keys');
+  } else if (report.chain.checked) {
+    console.log('\n💡 Regenerate the keystore or register its keys with session.setKeys');
+  }
+}
+
+export interface KeysRotateOptions {
+  /** Derive the new keys from the root mnemonic instead of asking the node */
+  derive?: boolean;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+export interface KeysRotateReport {
+  /** Account that signed session.setKeys */
+  controller: string;
+  generation: KeyGeneration;
+  /** Whether the new keys are in session.nextKeys */
+  confirmed: boolean;
+  removedFiles: string[];
+  /** Old key files that stay because they hold the controller key */
+  keptFiles: string[];
+  error?: string;
+}
+
+/**
+ * Rotate the session keys, or finish a pending rotation. Resolves to null
+ * if the user declines.
+ */
+export async function rotateKeys(options: KeysRotateOptions = {}): Promise<KeysRotateReport | null> {
+  const keystorePath = await findKeystorePath({ verbose: false });
+  if (!keystorePath) {
+    throw new CommandError('No keystore found, run setup first', EXIT_CODES.NOT_FOUND);
+  }
+
+  // Load the controller before new aura keys land in the keystore
+  const api = getD9API();
+  const loaded = await api.loadKeyPair();
+  const controllerFile = await findControllerKeyFile(keystorePath);
+  if (!loaded.success || !loaded.address || !controllerFile) {
+    throw new CommandError(`Cannot load the controller key: ${loaded.error ?? 'no aura key'}`, EXIT_CODES.NOT_FOUND);
+  }
+  const controller = loaded.address;
+
+  let registered: Record<string, string> | null;
+  try {
+    registered = await api.getNextSessionKeys(controller);
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+
+  const state: KeyGenerationState = await loadKeyGenerations() ??
+    { controller, controllerFile, active: null, pending: null, lastDerivationIndex: 0 };
+  state.controller = controller;
+  state.controllerFile = controllerFile;
+
+  let generation = state.pending;
+  if (generation) {
+    console.log(`\n⏳ Key generation ${generation.generation} is pending, finishing its rotation`);
+  } else {
+    const next = (state.active?.generation ?? 0) + 1;
+    console.log(`\n🔑 Rotating session keys of ${controller} (generation ${next})`);
+    if (!options.yes) {
+      const proceed = await Confirm.prompt('Generate new session keys and register them on chain?');
+      if (!proceed) {
+        console.log('❌ Key rotation cancelled');
+        return null;
+      }
+    }
+
+    // Pin the controller file before the keystore gains a second aura key
+    await saveKeyGenerations(state);
+    generation = options.derive
+      ? await deriveGeneration(state, next, registered)
+      : await rotateOnNode(next);
+    state.pending = generation;
+    await saveKeyGenerations(state);
+  }
+
+  const report: KeysRotateReport = { controller, generation, confirmed: false, removedFiles: [], keptFiles: [] };
+
+  if (!sameKeys(registered, generation.keys)) {
+    console.log('📝 Submitting session.setKeys...');
+    const result = await api.setSessionKeys(generation.keys);
+    if (!result.success) {
+      report.error = `session.setKeys failed: ${result.error}`;
+      return report;
+    }
+    generation.blockHash = result.hash;
+    await saveKeyGenerations(state);
+    registered = await api.getNextSessionKeys(controller);
+  }
+
+  if (!sameKeys(registered, generation.keys)) {
+    report.error = 'The new keys are not in session.nextKeys yet, run keys rotate again to check';
+    return report;
+  }
+  report.confirmed = true;
+
+  // The new keys are registered, the old ones can go
+  const stale: string[] = [];
+  for await (const dirEntry of Deno.readDir(keystorePath)) {
+    const isKeyFile = ALL_KEY_TYPES.some((keyType) => dirEntry.name.startsWith(keyType.prefix));
+    if (dirEntry.isFile && isKeyFile && !generation.files.includes(dirEntry.name)) {
+      (dirEntry.name === controllerFile ? report.keptFiles : stale).push(dirEntry.name);
+    }
+  }
+  if (stale.length > 0) {
+    const removal = await executeCommand('sudo', ['rm', '-f', ...stale.map((file) => `${keystorePath}/${file}`)]);
+    if (removal.success) {
+      report.removedFiles = stale;
+    } else {
+      report.error = `Keys are rotated, but removing the old key files failed: ${removal.error}`;
+    }
+  }
+
+  state.active = { ...generation, confirmedAt: new Date().toISOString() };
+  state.pending = null;
+  if (generation.derivationIndex !== undefined) {
+    state.lastDerivationIndex = generation.derivationIndex;
+  }
+  await saveKeyGenerations(state);
+  return report;
+}
+
+export function printKeysRotateReport(report: KeysRotateReport): void {
+  const { generation } = report;
+  console.log('\n🔑 Key Rotation');
+  console.log('─'.repeat(30));
+  console.log(`Controller: ${report.controller}`);
+  console.log(`Generation: ${generation.generation} (${generation.source === 'derived' ? `derived, index ${generation.derivationIndex}` : 'author_rotateKeys'})`);
+  for (const keyType of ALL_KEY_TYPES) {
+    console.log(`  ${keyType.type}  ${generation.keys[keyType.sessionKey]}`);
+  }
+  if (generation.blockHash) {
+    console.log(`setKeys in block ${generation.blockHash}`);
+  }
+
+  console.log(report.confirmed ? '✅ New keys are registered for the next session' : '⏳ New keys are not registered yet');
+  report.removedFiles.forEach((file) => console.log(`🗑️  Removed ${file}`));
+  report.keptFiles.forEach((file) => console.log(`✋ Kept ${file}: it holds the controller key`));
+  if (report.error) {
+    console.log(`❌ ${report.error}`);
+  }
+  if (report.confirmed) {
+    console.log('💡 The node signs with the new keys from the next session on');
+  }
+}
+
+/**
+ * Have the node generate keys into its keystore with author_rotateKeys
+ */
+async function rotateOnNode(generation: number): Promise<KeyGeneration> {
+  console.log('🔄 Generating keys on the node (author_rotateKeys)...');
+  let encoded: string;
+  try {
+    encoded = await nodeRpc<string>('author_rotateKeys');
+  } catch (error) {
+    throw new CommandError(
+      `Cannot rotate keys on the node: ${error instanceof Error ? error.message : String(error)}`,
+      EXIT_CODES.NOT_RUNNING
+    );
+  }
+
+  const keys = await getD9API().decodeSessionKeys(encoded);
+  return { generation, source: 'rotate-keys', keys, files: keyFiles(keys), createdAt: new Date().toISOString() };
+}
+
+/**
+ * Derive the next HD index from the root mnemonic, as setup's advanced mode
+ * does for index 0, and insert the keys into the keystore
+ */
+async function deriveGeneration(
+  state: KeyGenerationState,
+  generation: number,
+  registered: Record<string, string> | null
+): Promise<KeyGeneration> {
+  await cryptoWaitReady();
+  const mnemonic = (await Secret.prompt('Root mnemonic of the validator keys')).trim();
+  if (!mnemonicValidate(mnemonic)) {
+    throw new CommandError('Not a valid mnemonic', EXIT_CODES.USAGE);
+  }
+
+  // Refuse a mnemonic that did not produce the keys being replaced
+  const current = state.active?.source === 'rotate-keys' ? null : state.active?.keys[KEY_TYPES.AURA.sessionKey] ?? registered?.[KEY_TYPES.AURA.sessionKey];
+  const currentPath = derivationPath('AURA', state.lastDerivationIndex);
+  if (current && derivePublicKey(mnemonic, 'AURA', state.lastDerivationIndex) !== current) {
+    throw new CommandError(`The mnemonic does not derive the current aura key at ${currentPath}`, EXIT_CODES.ERROR);
+  }
+
+  const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE)).catch(() => null);
+  const serviceUser = serviceContent?.match(/User=([^\s]+)/)?.[1] ?? SERVICE.USER;
+  const basePath = serviceContent?.match(/--base-path\s+([^\s\\]+)/)?.[1] ?? await getDataDirectory();
+  if (!basePath) {
+    throw new CommandError('Cannot find the node data directory', EXIT_CODES.NOT_FOUND);
+  }
+
+  const index = state.lastDerivationIndex + 1;
+  const keys: Record<string, string> = {};
+  for (const name of Object.keys(KEY_TYPES) as (keyof typeof KEY_TYPES)[]) {
+    const keyType = KEY_TYPES[name];
+    const path = derivationPath(name, index);
+    console.log(`🔐 Deriving ${keyType.type} key at ${path}...`);
+
+    const success = await insertKeySecurely({
+      basePath,
+      chainSpec: getNetworkProfile().chainSpecPath,
+      keyType: keyType.type,
+      scheme: keyType.scheme,
+      suri: `${mnemonic}${path}`,
+      serviceUser: serviceUser === SERVICE.USER ? SERVICE.USER : undefined,
+    });
+    await auditKeyOperation('insert', keyType.type, success, { mode: 'rotate', derivationPath: path });
+    if (!success) {
+      throw new Error(`Failed to insert ${keyType.type} key`);
+    }
+    keys[keyType.sessionKey] = derivePublicKey(mnemonic, name, index);
+  }
+
+  return {
+    generation,
+    source: 'derived',
+    derivationIndex: index,
+    keys,
+    files: keyFiles(keys),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function derivationPath(name: keyof typeof KEY_TYPES, index: number): string {
+  return DERIVATION_PATHS.ADVANCED[name].replace(/\/\/0$/, `//${index}`);
+}
+
+function derivePublicKey(mnemonic: string, name: keyof typeof KEY_TYPES, index: number): string {
+  const keyring = new Keyring({ type: KEY_TYPES[name].scheme === 'Ed25519' ? 'ed25519' : 'sr25519' });
+  return u8aToHex(keyring.addFromUri(`${mnemonic}${derivationPath(name, index)}`).publicKey);
+}
+
+/**
+ * Keystore file names of a set of session keys
+ */
+function keyFiles(keys: Record<string, string>): string[] {
+  return ALL_KEY_TYPES.map((keyType) => {
+    const publicKey = keys[keyType.sessionKey];
+    if (!publicKey) {
+      throw new Error(`Session keys have no ${keyType.sessionKey} key`);
+    }
+    return `${keyType.prefix}${publicKey.slice(2)}`;
+  });
+}
+
+function sameKeys(registered: Record<string, string> | null, keys: Record<string, string>): boolean {
+  return registered !== null && ALL_KEY_TYPES.every((keyType) => registered[keyType.sessionKey] === keys[keyType.sessionKey]);
+}
+
+function isUsable(entry: KeystoreEntry): boolean {
+  return !entry.error && entry.derivedPublicKey === entry.publicKey;
+}
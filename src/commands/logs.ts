@@ -0,0 +1,202 @@
+/**
+ * Journal viewer for the node service.
+ *
+ * Reads d9-node.service from the journal in JSON form, parses each
+ * Substrate line into timestamp, level and target, filters by level and
+ * pattern, and points out well-known failures together with their fix.
+ */
+
+import { executeCommand } from '../utils/system.ts';
+import { getCommandRunner } from '../utils/command-runner.ts';
+import { CommandError } from '../utils/output.ts';
+import {
+  isAtLeast,
+  KNOWN_ISSUES,
+  levelFromPriority,
+  LogEntry,
+  LogLevel,
+  parseLogLine,
+} from '../utils/log-parser.ts';
+import { EXIT_CODES, SERVICE } from '../config/constants.ts';
+
+export interface LogsOptions {
+  /** Passed to journalctl --since, e.g. "1 hour ago" or "2025-01-31 12:00" */
+  since?: string;
+  /** Only show entries at least this severe */
+  level?: LogLevel;
+  /** Only show entries whose message matches this pattern (case-insensitive) */
+  grep?: string;
+  /** Entries to show (default: 100) */
+  lines?: number;
+}
+
+export interface LogIssueSummary {
+  id: string;
+  title: string;
+  fix: string;
+  count: number;
+  lastSeen: string;
+}
+
+export interface LogsReport {
+  entries: LogEntry[];
+  /** Known problems among the entries, most frequent first */
+  issues: LogIssueSummary[];
+}
+
+/**
+ * Entries shown when --lines is not given
+ */
+const DEFAULT_LINES = 100;
+
+/**
+ * Journal lines read when filtering, so filters still find enough matches
+ */
+const FILTER_SCAN_LINES = 5000;
+
+/**
+ * The last matching journal entries and the known problems among them
+ */
+export async function collectLogs(options: LogsOptions = {}): Promise<LogsReport> {
+  const lines = options.lines ?? DEFAULT_LINES;
+  const filter = buildFilter(options);
+  const filtering = options.level !== undefined || options.grep !== undefined;
+  const args = buildJournalArgs(options, filtering ? Math.max(lines, FILTER_SCAN_LINES) : lines);
+
+  const result = await executeCommand('sudo', args);
+  if (!result.success) {
+    throw new CommandError(`journalctl failed: ${result.error}`, EXIT_CODES.ERROR);
+  }
+
+  const entries = result.output.split('\n')
+    .map(parseJournalRecord)
+    .filter((entry): entry is LogEntry => entry !== null && filter(entry))
+    .slice(-lines);
+
+  return { entries, issues: summarizeIssues(entries) };
+}
+
+/**
+ * Print matching entries as they are logged until journalctl exits
+ * @returns journalctl's exit code
+ */
+export async function followLogs(options: LogsOptions = {}): Promise<number> {
+  const filter = buildFilter(options);
+  const reported = new Set<string>();
+
+  return await getCommandRunner().stream(
+    'sudo',
+    [...buildJournalArgs(options, options.lines ?? DEFAULT_LINES), '--follow'],
+    (line) => {
+      const entry = parseJournalRecord(line);
+      if (!entry || !filter(entry)) {
+        return;
+      }
+      printLogEntry(entry);
+      // Each known problem is explained once, where it first shows up
+      const issue = KNOWN_ISSUES.find((known) => known.id === entry.issue);
+      if (issue && !reported.has(issue.id)) {
+        reported.add(issue.id);
+        console.log(`   💡 ${issue.title}: ${issue.fix}`);
+      }
+    }
+  );
+}
+
+function buildJournalArgs(options: LogsOptions, count: number): string[] {
+  const args = ['journalctl', '-u', SERVICE.NAME, '--no-pager', '-o', 'json', '-n', String(count)];
+  if (options.since) {
+    args.push('--since', options.since);
+  }
+  return args;
+}
+
+function buildFilter(options: LogsOptions): (entry: LogEntry) => boolean {
+  let pattern: RegExp | null = null;
+  if (options.grep !== undefined) {
+    try {
+      pattern = new RegExp(options.grep, 'i');
+    } catch (error) {
+      throw new CommandError(
+        `Invalid --grep pattern: ${error instanceof Error ? error.message : String(error)}`,
+        EXIT_CODES.USAGE
+      );
+    }
+  }
+
+  return (entry) =>
+    (options.level === undefined || isAtLeast(entry.level, options.level)) &&
+    (pattern === null || pattern.test(entry.message) || (entry.target !== null && pattern.test(entry.target)));
+}
+
+/**
+ * Parse one line of `journalctl -o json`, or null if it is not a record
+ */
+function parseJournalRecord(line: string): LogEntry | null {
+  let record: { MESSAGE?: string | number[] | null; __REALTIME_TIMESTAMP?: string; PRIORITY?: string };
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (record.MESSAGE === undefined || record.MESSAGE === null) {
+    return null;
+  }
+
+  // The journal stores messages that are not valid UTF-8 (or contain colour codes) as byte arrays
+  const message = typeof record.MESSAGE === 'string'
+    ? record.MESSAGE
+    : new TextDecoder().decode(new Uint8Array(record.MESSAGE));
+  const microseconds = Number(record.__REALTIME_TIMESTAMP);
+  const timestamp = Number.isFinite(microseconds) ? formatLocalTime(new Date(microseconds / 1000)) : '';
+  const priority = Number(record.PRIORITY);
+
+  return parseLogLine(message, timestamp, Number.isFinite(priority) ? levelFromPriority(priority) : 'info');
+}
+
+/**
+ * "YYYY-MM-DD HH:MM:SS" in local time, the way Substrate prints timestamps
+ */
+function formatLocalTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function summarizeIssues(entries: LogEntry[]): LogIssueSummary[] {
+  const summaries = new Map<string, LogIssueSummary>();
+  for (const entry of entries) {
+    const issue = KNOWN_ISSUES.find((known) => known.id === entry.issue);
+    if (!issue) {
+      continue;
+    }
+    const summary = summaries.get(issue.id) ??
+      { id: issue.id, title: issue.title, fix: issue.fix, count: 0, lastSeen: entry.timestamp };
+    summary.count++;
+    summary.lastSeen = entry.timestamp;
+    summaries.set(issue.id, summary);
+  }
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+}
+
+export function printLogEntry(entry: LogEntry): void {
+  const marker = entry.level === 'error' ? '❌' : entry.level === 'warn' ? '⚠️ ' : '  ';
+  const target = entry.target ? `${entry.target}: ` : '';
+  console.log(`${marker} ${entry.timestamp} ${entry.level.toUpperCase().padEnd(5)} ${target}${entry.message}`);
+}
+
+export function printLogsReport(report: LogsReport): void {
+  if (report.entries.length === 0) {
+    console.log('No matching log entries');
+  }
+  report.entries.forEach(printLogEntry);
+
+  if (report.issues.length > 0) {
+    console.log('\n🩺 Known problems:');
+    console.log('─'.repeat(20));
+    for (const issue of report.issues) {
+      console.log(`${issue.title} (${issue.count}x, last ${issue.lastSeen})`);
+      console.log(`   💡 ${issue.fix}`);
+    }
+  }
+}
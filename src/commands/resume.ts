@@ -5,7 +5,8 @@
  * successful checkpoint.
  */
 
-import { InstallationStateManager } from '../core/state-manager.ts';
+import { InstallationState, InstallationStateManager } from '../core/state-manager.ts';
+import { resumeTransaction } from '../core/transaction-manager.ts';
 import { Confirm } from '@cliffy/prompt';
 import { Messages } from '../types.ts';
 
@@ -49,10 +50,39 @@ export async function promptResume(messages: Messages): Promise<boolean> {
   return shouldResume;
 }
 
+/**
+ * Continue an interrupted installation from its last checkpoint.
+ * Resolves to true when all remaining steps completed.
+ */
+export async function resumeInstallation(messages: Messages): Promise<boolean> {
+  const txManager = await resumeTransaction(messages);
+  if (!txManager) {
+    console.log('No installation state to resume');
+    return false;
+  }
+
+  const result = await txManager.resume();
+  if (!result.success) {
+    console.error(`\n❌ Resume failed: ${result.error}`);
+    if (result.canResume) {
+      console.log('💡 Fix the problem above and resume again');
+    }
+    return false;
+  }
+
+  await txManager.clear();
+  console.log('\n✅ Installation resumed and completed');
+  console.log('💡 Start the node with: sudo systemctl start d9-node.service');
+  return true;
+}
+
 /**
  * Clear abandoned installation state
  */
-export async function clearAbandonedInstallation(messages: Messages): Promise<void> {
+export async function clearAbandonedInstallation(
+  messages: Messages,
+  options: { yes?: boolean } = {}
+): Promise<void> {
   const stateManager = new InstallationStateManager(messages);
   const state = await stateManager.loadState();
 
@@ -64,7 +94,7 @@ export async function clearAbandonedInstallation(messages: Messages): Promise<vo
   console.log('\n🗑️  Clearing abandoned installation state...');
   stateManager.displayProgress();
 
-  const confirm = await Confirm.prompt({
+  const confirm = options.yes || await Confirm.prompt({
     message: 'Are you sure you want to discard this installation progress?',
     default: false
   });
@@ -99,3 +129,23 @@ export async function showInstallationState(messages: Messages): Promise<void> {
     console.log('💡 You can clear this state with the clear command');
   }
 }
+
+export interface InstallationStateReport {
+  state: InstallationState | null;
+  progress: number;
+  canResume: boolean;
+}
+
+/**
+ * Collect the saved installation state without printing it
+ */
+export async function collectInstallationState(messages: Messages): Promise<InstallationStateReport> {
+  const stateManager = new InstallationStateManager(messages);
+  const state = await stateManager.loadState();
+
+  return {
+    state,
+    progress: stateManager.getProgress(),
+    canResume: stateManager.canResume(),
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * Self-update for the compiled d9-manager binary.
+ *
+ * Releases come from the manager's GitHub releases or from a local mirror
+ * directory laid out like them (<mirror>/<tag>/d9-manager-linux-x64.gz plus
+ * checksums.txt). The download is checked against checksums.txt and smoke
+ * tested before it replaces the running executable with a rename; the
+ * previous executable is kept next to it as <name>.bak.
+ */
+
+import { Confirm } from '@cliffy/prompt';
+import { executeCommand } from '../utils/system.ts';
+import { CommandError } from '../utils/output.ts';
+import { compareSemVer, parseSemVer, SemVer } from '../utils/semver.ts';
+import { WgetBinaryDownloader } from '../infrastructure/binary-downloader-impl.ts';
+import { EXIT_CODES, URLS } from '../config/constants.ts';
+
+export interface SelfUpdateOptions {
+  /** Version of the running manager */
+  currentVersion: string;
+  /** Local directory to take releases from instead of GitHub */
+  mirror?: string;
+  /** Only report whether an update is available */
+  check?: boolean;
+  /** Update even when the running version is not semver (dev builds) */
+  force?: boolean;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+export interface SelfUpdateReport {
+  currentVersion: string;
+  latestVersion: string;
+  source: string;
+  updateAvailable: boolean;
+  updated: boolean;
+  executable?: string;
+  backup?: string;
+}
+
+/**
+ * A manager release and where to get its files
+ */
+interface ManagerRelease {
+  tag: string;
+  version: SemVer;
+  /** URL or local path of the compressed binary */
+  binary: string;
+  /** URL or local path of checksums.txt */
+  checksums: string;
+  local: boolean;
+}
+
+const CHECKSUMS_FILE = 'checksums.txt';
+
+/**
+ * Release asset for this platform, as published by the release workflow
+ */
+function getAssetName(): string {
+  return `d9-manager-linux-${Deno.build.arch === 'aarch64' ? 'arm64' : 'x64'}.gz`;
+}
+
+/**
+ * Check for a newer manager release and install it
+ */
+export async function selfUpdate(options: SelfUpdateOptions): Promise<SelfUpdateReport> {
+  const current = parseSemVer(options.currentVersion);
+  if (!current && !options.force && !options.check) {
+    throw new CommandError(
+      `Running version "${options.currentVersion}" is not a release build, use --force to replace it anyway`,
+      EXIT_CODES.USAGE
+    );
+  }
+
+  const source = options.mirror ?? URLS.GITHUB_MANAGER_REPO;
+  console.log(`🌐 Checking ${source} for manager releases...`);
+  const release = options.mirror ? await findMirrorRelease(options.mirror) : await fetchGitHubRelease();
+
+  const updateAvailable = !current || compareSemVer(release.version, current) > 0;
+  const report: SelfUpdateReport = {
+    currentVersion: options.currentVersion,
+    latestVersion: release.tag,
+    source,
+    updateAvailable,
+    updated: false,
+  };
+
+  if (!updateAvailable) {
+    console.log(`✅ d9-manager ${options.currentVersion} is up to date (latest: ${release.tag})`);
+    return report;
+  }
+
+  console.log(`📦 d9-manager ${release.tag} is available (running ${options.currentVersion})`);
+  if (options.check) {
+    return report;
+  }
+
+  const executable = Deno.execPath();
+  if (/\/deno$/.test(executable)) {
+    throw new CommandError('self-update only works for the compiled d9-manager binary', EXIT_CODES.USAGE);
+  }
+
+  if (!options.yes) {
+    const proceed = await Confirm.prompt(`Replace ${executable} with ${release.tag}?`);
+    if (!proceed) {
+      console.log('❌ Update cancelled');
+      return report;
+    }
+  }
+
+  const workDir = await Deno.makeTempDir({ prefix: 'd9-manager-update-' });
+  try {
+    const binary = await downloadVerified(release, workDir);
+    const backup = await replaceExecutable(executable, binary, release.tag);
+
+    console.log(`\n✅ Updated d9-manager to ${release.tag}`);
+    console.log(`💡 Previous version kept at ${backup}`);
+    return { ...report, updated: true, executable, backup };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+export function printSelfUpdateReport(report: SelfUpdateReport): void {
+  console.log('\n📋 Manager Version');
+  console.log('─'.repeat(30));
+  console.log(`Running: ${report.currentVersion}`);
+  console.log(`Latest:  ${report.latestVersion} (${report.source})`);
+  if (report.updated) {
+    console.log(`Status:  ✅ Updated ${report.executable}`);
+  } else {
+    console.log(`Status:  ${report.updateAvailable ? '📦 Update available' : '✅ Up to date'}`);
+  }
+}
+
+/**
+ * Latest release on GitHub
+ */
+async function fetchGitHubRelease(): Promise<ManagerRelease> {
+  const releaseResult = await executeCommand('curl', ['-s', URLS.MANAGER_LATEST_RELEASE_API]);
+  if (!releaseResult.success) {
+    throw new CommandError('Failed to fetch manager release information', EXIT_CODES.NETWORK);
+  }
+
+  const release = JSON.parse(releaseResult.output);
+  if (release.message && release.message.includes('rate limit')) {
+    throw new CommandError('GitHub API rate limit exceeded', EXIT_CODES.NETWORK);
+  }
+
+  const version = parseSemVer(release.tag_name ?? '');
+  if (!version) {
+    throw new Error(`Latest release tag "${release.tag_name}" is not a semantic version`);
+  }
+
+  const assets: { name: string; browser_download_url: string }[] = release.assets ?? [];
+  const binaryAsset = assets.find((asset) => asset.name === getAssetName());
+  const checksumsAsset = assets.find((asset) => asset.name === CHECKSUMS_FILE);
+  if (!binaryAsset || !checksumsAsset) {
+    throw new Error(`Release ${release.tag_name} has no ${getAssetName()} or ${CHECKSUMS_FILE}`);
+  }
+
+  return {
+    tag: release.tag_name,
+    version,
+    binary: binaryAsset.browser_download_url,
+    checksums: checksumsAsset.browser_download_url,
+    local: false,
+  };
+}
+
+/**
+ * Highest release directory in a mirror that has this platform's binary
+ */
+async function findMirrorRelease(mirror: string): Promise<ManagerRelease> {
+  let best: ManagerRelease | null = null;
+
+  try {
+    for await (const entry of Deno.readDir(mirror)) {
+      // Like GitHub's latest release, skip pre-releases
+      const version = entry.isDirectory ? parseSemVer(entry.name) : null;
+      if (!version || version.prerelease.length > 0 || (best && compareSemVer(version, best.version) <= 0)) {
+        continue;
+      }
+
+      const binary = `${mirror}/${entry.name}/${getAssetName()}`;
+      const checksums = `${mirror}/${entry.name}/${CHECKSUMS_FILE}`;
+      if (await isFile(binary) && await isFile(checksums)) {
+        best = { tag: entry.name, version, binary, checksums, local: true };
+      }
+    }
+  } catch (error) {
+    throw new CommandError(
+      `Cannot read mirror ${mirror}: ${error instanceof Error ? error.message : String(error)}`,
+      EXIT_CODES.NOT_FOUND
+    );
+  }
+
+  if (!best) {
+    throw new CommandError(`No release with ${getAssetName()} and ${CHECKSUMS_FILE} in ${mirror}`, EXIT_CODES.NOT_FOUND);
+  }
+  return best;
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch the release into workDir, verify it against checksums.txt and
+ * decompress it. Resolves to the path of the executable.
+ */
+async function downloadVerified(release: ManagerRelease, workDir: string): Promise<string> {
+  const downloader = new WgetBinaryDownloader();
+  const compressed = `${workDir}/${getAssetName()}`;
+  const checksums = `${workDir}/${CHECKSUMS_FILE}`;
+
+  if (release.local) {
+    await Deno.copyFile(release.binary, compressed);
+    await Deno.copyFile(release.checksums, checksums);
+  } else {
+    await downloader.download(release.binary, compressed);
+    await downloader.download(release.checksums, checksums);
+  }
+
+  const expectedHash = findChecksum(await Deno.readTextFile(checksums), getAssetName());
+  if (!expectedHash) {
+    throw new Error(`${CHECKSUMS_FILE} has no entry for ${getAssetName()}`);
+  }
+  if (!await downloader.verify(compressed, expectedHash)) {
+    throw new Error('File integrity verification failed');
+  }
+
+  const binary = `${workDir}/d9-manager`;
+  const input = await Deno.open(compressed, { read: true });
+  const output = await Deno.open(binary, { write: true, create: true, truncate: true, mode: 0o755 });
+  await input.readable.pipeThrough(new DecompressionStream('gzip')).pipeTo(output.writable);
+
+  // Make sure the new binary starts before it replaces the current one
+  const smokeTest = await executeCommand(binary, ['--version']);
+  if (!smokeTest.success) {
+    throw new Error(`Downloaded binary does not run: ${smokeTest.error}`);
+  }
+
+  return binary;
+}
+
+/**
+ * Hash for a file in sha256sum output ("<hash>  <name>" or "<hash> *<name>")
+ */
+function findChecksum(content: string, fileName: string): string | null {
+  for (const line of content.split('\n')) {
+    const [hash, name] = line.trim().split(/\s+\*?/);
+    if (name === fileName) {
+      return hash;
+    }
+  }
+  return null;
+}
+
+/**
+ * Back up the running executable and rename the new one over it. The new
+ * file is staged in the same directory so the final rename is atomic.
+ */
+async function replaceExecutable(executable: string, binary: string, tag: string): Promise<string> {
+  const staged = `${executable}.new`;
+  const backup = `${executable}.bak`;
+
+  const steps: [string, string[]][] = [
+    ['cp', [binary, staged]],
+    ['chmod', ['755', staged]],
+    ['cp', ['-p', executable, backup]],
+    ['mv', ['-f', staged, executable]],
+  ];
+
+  console.log(`\n🔧 Installing ${tag} to ${executable}...`);
+  for (const [command, args] of steps) {
+    const result = await executeCommand('sudo', [command, ...args]);
+    if (!result.success) {
+      await executeCommand('sudo', ['rm', '-f', staged]);
+      throw new Error(`Failed to replace executable (${command}): ${result.error}`);
+    }
+  }
+
+  return backup;
+}
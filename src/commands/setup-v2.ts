@@ -10,7 +10,9 @@
 
 import { Select, Confirm, Input } from '@cliffy/prompt';
 import { Messages } from '../types.ts';
-import { checkDiskSpace, executeCommand } from '../utils/system.ts';
+import { checkDiskSpace, executeCommand, formatCommand } from '../utils/system.ts';
+import { unifiedDiff } from '../utils/diff.ts';
+import { getCommandRunner } from '../utils/command-runner.ts';
 import {
   InstallationMode,
   InstallationModeFactory,
@@ -21,63 +23,143 @@ import {
   NodeConfigurationFactory,
 } from '../domain/node-configuration.ts';
 import { NodeSetupService } from '../services/node-setup-service.ts';
+import { PlanStep } from '../core/plan.ts';
 import { AptPackageManager } from '../infrastructure/package-manager-impl.ts';
 import { WgetBinaryDownloader } from '../infrastructure/binary-downloader-impl.ts';
 import { PolkadotKeyGenerator } from '../infrastructure/key-generator-impl.ts';
-import { PATHS } from '../config/constants.ts';
+import { getRootPrefix, hostPath, PATHS, SERVICE, URLS } from '../config/constants.ts';
+import { getModeSelection, loadNodeSpec, NodeSpec } from '../domain/node-spec.ts';
+import { getNetworkProfile, NetworkProfile } from '../config/networks.ts';
+import { BINARY_TARBALL, cleanupRelease, downloadRelease, fetchRelease } from '../utils/releases.ts';
+import { closeBundle, OpenedBundle, openBundle } from '../utils/bundle.ts';
 
-export async function setupNodeV2(messages: Messages): Promise<void> {
-  console.log('\n' + messages.setupNewNode);
+/**
+ * Answers for the setup prompts. Any value left undefined is asked for
+ * interactively, so the wizard and the `setup` subcommand share one flow.
+ */
+export interface SetupOptions {
+  nodeType?: 'full' | 'validator' | 'archiver';
+  mode?: 'easy' | 'hard' | 'legacy';
+  name?: string;
+  /** OS user for legacy installations (defaults to the detected user) */
+  osUser?: string;
+  port?: number;
+  chainSpec?: string;
+  /** Prometheus metrics port (default: the node's 9615) */
+  prometheusPort?: number;
+  /** Serve metrics on all interfaces */
+  prometheusExternal?: boolean;
+  generateKeys?: boolean;
+  followLogs?: boolean;
+  /** Offline bundle to install from instead of downloading */
+  bundle?: string;
+  /** Skip confirmation prompts */
+  yes?: boolean;
+}
 
-  // Step 1: Check system requirements
-  console.log('\n🔍 ' + messages.setup.checkingRequirements + '\n');
+type OsInfo = { type: 'ubuntu' | 'debian'; user: string };
 
-  const osInfo = await detectOperatingSystem(messages);
-  if (!osInfo) {
-    return;
-  }
+/** A command and its arguments, run through executeCommand */
+type CommandLine = [string, string[]];
 
-  await checkArchitecture(messages);
+const SYSTEM_PACKAGES = ['curl', 'jq', 'wget'];
 
-  // Step 2: Select node type
-  const nodeTypeSelection = await selectNodeType(messages);
-  if (!nodeTypeSelection) {
-    return;
-  }
+const SWAP_COMMANDS: CommandLine[] = [
+  ['sudo', ['fallocate', '-l', '1G', '/swapfile']],
+  ['sudo', ['chmod', '600', '/swapfile']],
+  ['sudo', ['mkswap', '/swapfile']],
+  ['sudo', ['swapon', '/swapfile']],
+];
 
-  // Step 3: Check disk space
-  const hasSpace = await checkDiskSpaceRequirements(nodeTypeSelection, messages);
-  if (!hasSpace) {
-    return;
+/**
+ * Commands that move a downloaded file into place, creating its directory
+ * first when installing under a root prefix
+ */
+function installFileCommands(source: string, destination: string, mode: string): CommandLine[] {
+  const target = hostPath(destination);
+  const commands: CommandLine[] = [];
+  if (getRootPrefix()) {
+    commands.push(['sudo', ['mkdir', '-p', target.slice(0, target.lastIndexOf('/'))]]);
   }
+  commands.push(
+    ['sudo', ['mv', source, target]],
+    ['sudo', ['chown', 'root:root', target]],
+    ['sudo', ['chmod', mode, target]]
+  );
+  return commands;
+}
 
-  // Step 4: Configure swap
-  console.log('\n🔧 ' + messages.setup.configuringSwap);
-  await configureSwap();
-  console.log('✅ ' + messages.setup.swapConfigured);
+/**
+ * Commands that extract the downloaded release and install its binary
+ */
+export function installBinaryCommands(): CommandLine[] {
+  return [
+    ['tar', ['-xzf', BINARY_TARBALL, '-C', '/tmp']],
+    ...installFileCommands('/tmp/d9-node', PATHS.BINARY, '755'),
+  ];
+}
 
-  // Step 5: Detect or select installation mode
-  const mode = await selectInstallationMode(osInfo, messages);
-  console.log('\n🔧 Installation mode: ' + mode.type);
+/**
+ * Download location of the active network's chain spec
+ */
+export function chainSpecDownloadPath(profile: NetworkProfile): string {
+  return `/tmp/${profile.chainSpecPath.split('/').pop()}`;
+}
 
-  // Step 6: Get node name
-  const nodeName = await Input.prompt({
-    message: 'Enter a name for your node:',
-    default: 'D9-Node',
-  });
+export function installChainSpecCommands(profile: NetworkProfile): CommandLine[] {
+  return installFileCommands(chainSpecDownloadPath(profile), profile.chainSpecPath, '644');
+}
 
-  // Step 7: Create node configuration
-  const config = NodeConfigurationFactory.create({
-    name: nodeName,
-    mode,
-    nodeType: nodeTypeSelection,
-  });
+/**
+ * Everything the wizard needs to know before it changes the host
+ */
+interface SetupAnswers {
+  osInfo: OsInfo;
+  config: NodeConfiguration;
+}
 
-  // Step 8: Install dependencies
-  await installSystemDependencies();
+/**
+ * Run the setup wizard. Resolves to true once the node service is installed.
+ */
+export async function setupNodeV2(messages: Messages, options: SetupOptions = {}): Promise<boolean> {
+  console.log('\n' + messages.setupNewNode);
+
+  // Verify the bundle before asking anything
+  const bundle = options.bundle ? await openBundle(options.bundle, getNetworkProfile()) : null;
+  try {
+    return await installNode(messages, options, bundle);
+  } finally {
+    if (bundle) {
+      await closeBundle(bundle);
+    }
+  }
+}
+
+async function installNode(messages: Messages, options: SetupOptions, bundle: OpenedBundle | null): Promise<boolean> {
+  const answers = await collectSetupAnswers(messages, options);
+  if (!answers) {
+    return false;
+  }
+  const { osInfo, config } = answers;
+
+  // Step 7: Configure swap (host-wide, so not done under a root prefix)
+  if (getRootPrefix()) {
+    console.log(`\n⏭️  Skipping swap configuration under root prefix ${getRootPrefix()}`);
+  } else {
+    console.log('\n🔧 ' + messages.setup.configuringSwap);
+    await configureSwap();
+    console.log('✅ ' + messages.setup.swapConfigured);
+  }
+
+  // Step 8: Install dependencies (only needed for downloads)
+  if (bundle) {
+    console.log('\n⏭️  Skipping package installation, installing from bundle');
+  } else {
+    await installSystemDependencies();
+  }
 
   // Step 9: Download and install binary
-  await downloadAndInstallBinary(osInfo);
+  await downloadAndInstallBinary(osInfo, bundle);
 
   // Step 10: Setup node using service layer
   const service = createNodeSetupService(messages);
@@ -89,11 +171,11 @@ export async function setupNodeV2(messages: Messages): Promise<void> {
   } catch (error) {
     console.error(`\n❌ Setup failed: ${error instanceof Error ? error.message : String(error)}`);
     console.log('💡 The system has been rolled back to its previous state');
-    return;
+    return false;
   }
 
   // Step 11: Generate keys
-  const generateKeys = await Confirm.prompt('Generate validator keys?');
+  const generateKeys = options.generateKeys ?? await Confirm.prompt('Generate validator keys?');
   if (generateKeys) {
     try {
       // Stop service to insert keys
@@ -108,22 +190,257 @@ export async function setupNodeV2(messages: Messages): Promise<void> {
       console.log('✅ Service started');
     } catch (error) {
       console.error(`\n❌ Key generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
     }
   }
 
   // Step 12: Show logs
+  if (options.followLogs === false) {
+    console.log('\n💡 View logs: d9-manager logs --follow');
+    return true;
+  }
+
   console.log('\n📋 Node is starting up. Here are the recent logs:');
   console.log('──────────────────────────────────────────────────');
   console.log('Press Ctrl+C to stop viewing logs\n');
 
-  const journalProcess = new Deno.Command('sudo', {
-    args: ['journalctl', '-u', 'd9-node', '-f', '-n', '100'],
-    stdin: 'inherit',
-    stdout: 'inherit',
-    stderr: 'inherit',
+  await getCommandRunner().runInteractive('sudo', ['journalctl', '-u', 'd9-node', '-f', '-n', '100']);
+  return true;
+}
+
+/**
+ * Work out what setupNodeV2 would do with the same answers, without changing
+ * the host. Resolves to null if the wizard would stop before installing.
+ */
+export async function planNodeSetup(messages: Messages, options: SetupOptions = {}): Promise<PlanStep[] | null> {
+  const answers = await collectSetupAnswers(messages, options);
+  if (!answers) {
+    return null;
+  }
+  const { osInfo, config } = answers;
+
+  const steps: PlanStep[] = [];
+
+  // Swap
+  if (!getRootPrefix()) {
+    const fstab = await Deno.readTextFile('/etc/fstab').catch(() => '');
+    const swapCommands = [formatCommand('sudo', ['swapoff', '-a'])];
+    if (await pathExists('/swapfile')) {
+      swapCommands.push(formatCommand('sudo', ['rm', '/swapfile']));
+    }
+    swapCommands.push(
+      ...SWAP_COMMANDS.map(([command, args]) => formatCommand(command, args)),
+      'write /tmp/fstab.tmp',
+      formatCommand('sudo', ['mv', '/tmp/fstab.tmp', '/etc/fstab'])
+    );
+    steps.push({
+      description: 'Configure 1G swap file',
+      commands: swapCommands,
+      diff: unifiedDiff(fstab, buildFstabContent(fstab), '/etc/fstab', '/etc/fstab') || undefined,
+    });
+  }
+
+  // Dependencies
+  steps.push({
+    description: `Install packages: ${SYSTEM_PACKAGES.join(', ')}`,
+    commands: [
+      formatCommand('sudo', ['apt', 'update', '-qq']),
+      formatCommand('sudo', ['apt', 'install', '-y', '-qq', ...SYSTEM_PACKAGES]),
+    ],
+  });
+
+  // GLIBC
+  const glibcVersion = await getGlibcVersion().catch(() => null);
+  if (!getRootPrefix() && (!glibcVersion || !isGlibcCompatible(glibcVersion))) {
+    steps.push({
+      description: glibcVersion ? `Upgrade GLIBC ${glibcVersion} to 2.38 or higher` : 'Upgrade GLIBC (version unknown)',
+      commands: describeGlibcUpgrade(osInfo),
+    });
+  }
+
+  // Binary
+  const release = await fetchRelease().then(
+    (assets) => ({ assets, error: undefined }),
+    (error) => ({ assets: null, error: error instanceof Error ? error.message : String(error) })
+  );
+  steps.push({
+    description: 'Download and install d9-node binary',
+    commands: [
+      formatCommand('curl', ['-s', URLS.LATEST_RELEASE_API]),
+      formatCommand('wget', ['-O', BINARY_TARBALL, release.assets?.tarballUrl ?? '<latest release tarball>']),
+      formatCommand('wget', ['-O', `${BINARY_TARBALL}.sha256`, release.assets?.hashUrl ?? '<latest release checksum>']),
+      formatCommand('sha256sum', [BINARY_TARBALL]),
+      ...installBinaryCommands().map(([command, args]) => formatCommand(command, args)),
+    ],
+    validation: { ok: !release.error, error: release.error },
+  });
+
+  // Chain spec
+  const profile = getNetworkProfile();
+  steps.push({
+    description: profile.chainSpecUrl
+      ? `Download chain specification (${profile.name})`
+      : `Use chain specification ${profile.chainSpecPath} (${profile.name})`,
+    commands: [
+      ...(profile.chainSpecUrl
+        ? [
+          formatCommand('wget', ['-O', chainSpecDownloadPath(profile), profile.chainSpecUrl]),
+          ...installChainSpecCommands(profile).map(([command, args]) => formatCommand(command, args)),
+        ]
+        : []),
+      formatCommand('rm', ['-f', BINARY_TARBALL, `${BINARY_TARBALL}.sha256`]),
+    ],
+  });
+
+  // Transactional setup
+  steps.push(...await createNodeSetupService(messages).planSetup(config));
+
+  // Keys
+  const generateKeys = options.generateKeys ?? await Confirm.prompt('Generate validator keys?');
+  if (generateKeys) {
+    const keyMode = config.mode.type === 'advanced' && config.mode.keystoreGeneration === 'hd-derived'
+      ? 'advanced'
+      : 'standard';
+    steps.push({
+      description: `Generate and insert session keys (${keyMode}, interactive)`,
+      commands: [
+        formatCommand('sudo', ['systemctl', 'stop', 'd9-node.service']),
+        `${hostPath(PATHS.BINARY)} key insert --base-path ${hostPath(config.dataDirectory)} --chain ${hostPath(profile.chainSpecPath)} ...`,
+        formatCommand('sudo', ['systemctl', 'start', 'd9-node.service']),
+      ],
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Ask for (or take from options) everything needed to configure the node.
+ * Only reads from the host; resolves to null if the user backs out.
+ */
+async function collectSetupAnswers(messages: Messages, options: SetupOptions): Promise<SetupAnswers | null> {
+  // Step 1: Check system requirements
+  console.log('\n🔍 ' + messages.setup.checkingRequirements + '\n');
+
+  const osInfo = await detectOperatingSystem(messages);
+  if (!osInfo) {
+    return null;
+  }
+
+  await checkArchitecture(messages);
+
+  // Step 2: Select node type
+  const nodeTypeSelection = await selectNodeType(messages, options);
+  if (!nodeTypeSelection) {
+    return null;
+  }
+
+  // Step 3: Check disk space
+  const hasSpace = await checkDiskSpaceRequirements(nodeTypeSelection, messages);
+  if (!hasSpace) {
+    return null;
+  }
+
+  // Step 4: Detect or select installation mode
+  const mode = await selectInstallationMode(
+    { ...osInfo, user: options.osUser ?? osInfo.user },
+    messages,
+    options.mode
+  );
+  console.log('\n🔧 Installation mode: ' + mode.type);
+
+  // Step 5: Get node name
+  const nodeName = options.name ?? await Input.prompt({
+    message: 'Enter a name for your node:',
+    default: 'D9-Node',
   });
 
-  await journalProcess.spawn().status;
+  // Step 6: Create node configuration
+  const profile = getNetworkProfile();
+  const config = NodeConfigurationFactory.create({
+    name: nodeName,
+    mode,
+    nodeType: nodeTypeSelection,
+    port: options.port ?? profile.p2pPort,
+    chainSpec: options.chainSpec ?? profile.chainSpecPath,
+    rpcPort: profile.rpcPort,
+    prometheusPort: options.prometheusPort,
+    prometheusExternal: options.prometheusExternal,
+  });
+
+  return { osInfo, config };
+}
+
+/**
+ * Unattended setup from a declarative spec file (YAML, TOML or JSON).
+ * The spec is fully validated before anything on the host changes.
+ */
+export async function setupNodeFromSpec(messages: Messages, specPath: string, bundle?: string): Promise<void> {
+  const { spec, options } = await loadSpecOptions(specPath);
+  const completed = await setupNodeV2(messages, { ...options, bundle });
+
+  if (!completed) {
+    throw new Error('Unattended setup did not complete');
+  }
+
+  // Key generation restarts the service itself; otherwise start it here
+  if (spec.keys === 'none') {
+    const startResult = await executeCommand('sudo', ['systemctl', 'start', SERVICE.NAME]);
+    if (!startResult.success) {
+      throw new Error(`Failed to start ${SERVICE.NAME}: ${startResult.error}`);
+    }
+    console.log('✅ Service started');
+  }
+}
+
+/**
+ * Plan an unattended setup from a spec file without changing the host
+ */
+export async function planNodeSetupFromSpec(messages: Messages, specPath: string): Promise<PlanStep[] | null> {
+  const { spec, options } = await loadSpecOptions(specPath);
+  const steps = await planNodeSetup(messages, options);
+
+  if (steps && spec.keys === 'none') {
+    steps.push({
+      description: `Start service ${SERVICE.NAME}`,
+      commands: [formatCommand('sudo', ['systemctl', 'start', SERVICE.NAME])],
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Load a spec file and turn it into wizard answers
+ */
+async function loadSpecOptions(specPath: string): Promise<{ spec: NodeSpec; options: SetupOptions }> {
+  const defaultOsUser = Deno.env.get('SUDO_USER') || Deno.env.get('USER') || 'ubuntu';
+  const { spec, config } = await loadNodeSpec(specPath, defaultOsUser);
+
+  console.log(`📄 Loaded node spec ${specPath}`);
+  console.log(`   Name: ${config.name}`);
+  console.log(`   Type: ${config.nodeType.type}`);
+  console.log(`   Mode: ${config.mode.type}`);
+  console.log(`   Port: ${config.port}`);
+  console.log(`   Chain spec: ${config.chainSpec}`);
+  console.log(`   Keys: ${spec.keys}`);
+
+  return {
+    spec,
+    options: {
+      nodeType: spec.nodeType,
+      mode: getModeSelection(spec),
+      name: spec.name,
+      osUser: spec.osUser,
+      port: spec.port,
+      chainSpec: spec.chainSpec,
+      prometheusPort: spec.prometheusPort,
+      prometheusExternal: spec.prometheusExternal,
+      generateKeys: spec.keys === 'generate',
+      followLogs: false,
+      yes: true,
+    },
+  };
 }
 
 /**
@@ -187,9 +504,10 @@ async function checkArchitecture(messages: Messages): Promise<void> {
  * Select node type
  */
 async function selectNodeType(
-  messages: Messages
+  messages: Messages,
+  options: SetupOptions
 ): Promise<'full' | 'validator' | 'archiver' | null> {
-  const nodeType = await Select.prompt<'full' | 'validator' | 'archiver'>({
+  const nodeType = options.nodeType ?? await Select.prompt<'full' | 'validator' | 'archiver'>({
     message: messages.setup.selectNodeType,
     options: [
       {
@@ -212,7 +530,7 @@ async function selectNodeType(
   console.log(`${selectedType.description}`);
   console.log(`${selectedType.requirements}\n`);
 
-  const proceed = await Confirm.prompt(messages.setup.continueWithNodeType);
+  const proceed = options.yes || await Confirm.prompt(messages.setup.continueWithNodeType);
   return proceed ? (nodeType as 'full' | 'validator' | 'archiver') : null;
 }
 
@@ -246,28 +564,37 @@ async function checkDiskSpaceRequirements(
 async function configureSwap(): Promise<void> {
   await executeCommand('sudo', ['swapoff', '-a']);
 
-  try {
-    await Deno.stat('/swapfile');
+  if (await pathExists('/swapfile')) {
     await executeCommand('sudo', ['rm', '/swapfile']);
-  } catch {
-    // Swapfile doesn't exist
   }
 
-  await executeCommand('sudo', ['fallocate', '-l', '1G', '/swapfile']);
-  await executeCommand('sudo', ['chmod', '600', '/swapfile']);
-  await executeCommand('sudo', ['mkswap', '/swapfile']);
-  await executeCommand('sudo', ['swapon', '/swapfile']);
+  for (const [command, args] of SWAP_COMMANDS) {
+    await executeCommand(command, args);
+  }
 
   const fstabContent = await Deno.readTextFile('/etc/fstab');
+  await Deno.writeTextFile('/tmp/fstab.tmp', buildFstabContent(fstabContent));
+  await executeCommand('sudo', ['mv', '/tmp/fstab.tmp', '/etc/fstab']);
+}
+
+/**
+ * fstab content with exactly one /swapfile entry
+ */
+function buildFstabContent(fstabContent: string): string {
   const fstabWithoutSwap = fstabContent
     .split('\n')
     .filter((line) => !line.includes('/swapfile'))
     .join('\n');
-  await Deno.writeTextFile(
-    '/tmp/fstab.tmp',
-    fstabWithoutSwap + '\n/swapfile none swap sw 0 0\n'
-  );
-  await executeCommand('sudo', ['mv', '/tmp/fstab.tmp', '/etc/fstab']);
+  return fstabWithoutSwap + '\n/swapfile none swap sw 0 0\n';
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -275,7 +602,8 @@ async function configureSwap(): Promise<void> {
  */
 async function selectInstallationMode(
   osInfo: { type: 'ubuntu' | 'debian'; user: string },
-  messages: Messages
+  messages: Messages,
+  selection?: 'easy' | 'hard' | 'legacy'
 ): Promise<InstallationMode> {
   const context: ModeDetectionContext = {
     osType: osInfo.type,
@@ -288,7 +616,7 @@ async function selectInstallationMode(
     return InstallationModeFactory.detect(context);
   }
 
-  const modeSelection = await Select.prompt<'easy' | 'hard' | 'legacy'>({
+  const modeSelection = selection ?? await Select.prompt<'easy' | 'hard' | 'legacy'>({
     message: messages.setup.selectSecurityMode,
     options: [
       { name: messages.setup.securityModes.easy, value: 'easy' as const },
@@ -304,7 +632,7 @@ async function selectInstallationMode(
  * Check for legacy installation
  */
 async function checkLegacyInstallation(): Promise<boolean> {
-  const legacyPaths = ['/home/ubuntu/node-data', '/home/debian/node-data'];
+  const legacyPaths = [PATHS.DATA_DIR_UBUNTU, PATHS.DATA_DIR_DEBIAN].map(hostPath);
 
   for (const path of legacyPaths) {
     try {
@@ -317,7 +645,7 @@ async function checkLegacyInstallation(): Promise<boolean> {
 
   const serviceResult = await executeCommand('systemctl', ['is-enabled', 'd9-node.service']);
   if (serviceResult.success) {
-    const serviceContent = await Deno.readTextFile('/etc/systemd/system/d9-node.service').catch(
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE)).catch(
       () => ''
     );
     if (serviceContent.includes('User=ubuntu') || serviceContent.includes('User=debian')) {
@@ -340,39 +668,30 @@ async function installSystemDependencies(): Promise<void> {
   await packageManager.update();
 
   console.log('Installing required packages...');
-  await packageManager.install(['curl', 'jq', 'wget']);
+  await packageManager.install(SYSTEM_PACKAGES);
 
   console.log('✅ Dependencies installed');
 }
 
 /**
- * Download and install D9 binary
+ * Download (or take from an offline bundle) and install the D9 binary and
+ * chain spec
  */
-async function downloadAndInstallBinary(osInfo: {
-  type: 'ubuntu' | 'debian';
-  user: string;
-}): Promise<void> {
-  console.log('\n🚀 Downloading D9 node binary...');
+async function downloadAndInstallBinary(osInfo: OsInfo, bundle: OpenedBundle | null): Promise<void> {
+  console.log(bundle ? '\n🚀 Installing D9 node binary from bundle...' : '\n🚀 Downloading D9 node binary...');
 
   // Check GLIBC version
   console.log('🔍 Checking GLIBC version...');
-  const glibcResult = await executeCommand('ldd', ['--version']);
-  if (!glibcResult.success) {
-    throw new Error('Failed to check GLIBC version');
-  }
-
-  const versionMatch = glibcResult.output.match(/([0-9]+\.[0-9]+)$/m);
-  if (!versionMatch) {
-    throw new Error('Could not parse GLIBC version');
-  }
-
-  const glibcVersion = versionMatch[1];
-  const [major, minor] = glibcVersion.split('.').map(Number);
+  const glibcVersion = await getGlibcVersion();
 
   console.log(`Current GLIBC version: ${glibcVersion}`);
   console.log('Required GLIBC version: 2.38 or higher');
 
-  if (major < 2 || (major === 2 && minor < 38)) {
+  if (!isGlibcCompatible(glibcVersion) && getRootPrefix()) {
+    console.log(`⏭️  Skipping GLIBC upgrade under root prefix ${getRootPrefix()}`);
+  } else if (!isGlibcCompatible(glibcVersion) && bundle) {
+    throw new Error(`GLIBC ${glibcVersion} cannot be upgraded offline, upgrade it to 2.38 or higher and run setup again`);
+  } else if (!isGlibcCompatible(glibcVersion)) {
     console.log('\n⚠️  GLIBC version is incompatible');
     console.log('🔧 Attempting to upgrade GLIBC...');
     await upgradeGlibc(osInfo);
@@ -381,80 +700,74 @@ async function downloadAndInstallBinary(osInfo: {
     console.log('✅ GLIBC is compatible');
   }
 
-  // Download binary
   const downloader = new WgetBinaryDownloader();
+  if (bundle) {
+    // Already verified when the bundle was opened
+    await Deno.copyFile(bundle.nodeTarball, BINARY_TARBALL);
+  } else {
+    // Fetch release info
+    console.log('\n🌐 Fetching latest release...');
+    const release = await fetchRelease();
 
-  // Fetch release info
-  console.log('\n🌐 Fetching latest release...');
-  const releaseResult = await executeCommand('curl', [
-    '-s',
-    'https://api.github.com/repos/D-Nine-Chain/d9-node/releases/latest',
-  ]);
-
-  if (!releaseResult.success) {
-    throw new Error('Failed to fetch release information');
+    // Download and verify
+    await downloadRelease(release, downloader);
   }
 
-  const release = JSON.parse(releaseResult.output);
-  if (release.message && release.message.includes('rate limit')) {
-    throw new Error('GitHub API rate limit exceeded');
+  // Extract and install
+  console.log('\n📦 Extracting and installing binary...');
+  for (const [command, args] of installBinaryCommands()) {
+    await executeCommand(command, args);
   }
-
-  const tarballAsset = release.assets?.find((asset: any) => asset.name.endsWith('.tar.gz'));
-  const hashAsset = release.assets?.find((asset: any) => asset.name.endsWith('.sha256'));
-
-  if (!tarballAsset || !hashAsset) {
-    throw new Error('Could not find download URLs');
+  console.log('✅ Binary installed');
+
+  // Download chain spec (profiles for built-in dev chains have none)
+  const profile = getNetworkProfile();
+  if (bundle?.chainSpec) {
+    console.log(`\n📄 Installing chain specification (${profile.name}) from bundle...`);
+    await Deno.copyFile(bundle.chainSpec, chainSpecDownloadPath(profile));
+    for (const [command, args] of installChainSpecCommands(profile)) {
+      await executeCommand(command, args);
+    }
+  } else if (profile.chainSpecUrl && !bundle) {
+    console.log(`\n📥 Downloading chain specification (${profile.name})...`);
+    await downloader.download(profile.chainSpecUrl, chainSpecDownloadPath(profile));
+    for (const [command, args] of installChainSpecCommands(profile)) {
+      await executeCommand(command, args);
+    }
   }
 
-  // Download files
-  await downloader.download(tarballAsset.browser_download_url, '/tmp/d9-node.tar.gz');
-  await downloader.download(hashAsset.browser_download_url, '/tmp/d9-node.tar.gz.sha256');
-
-  // Fix checksum format
-  const checksumContent = await Deno.readTextFile('/tmp/d9-node.tar.gz.sha256');
-  const checksumHash = checksumContent.trim().split(/\s+/)[0];
-  await Deno.writeTextFile('/tmp/d9-node.tar.gz.sha256', `${checksumHash}  d9-node.tar.gz\n`);
+  console.log('✅ D9 node binary installed successfully');
 
-  // Verify
-  const expectedHashResult = await executeCommand('cat', ['/tmp/d9-node.tar.gz.sha256']);
-  const expectedHash = expectedHashResult.output.trim().split(/\s+/)[0];
+  // Cleanup
+  await cleanupRelease();
+}
 
-  const verified = await downloader.verify('/tmp/d9-node.tar.gz', expectedHash);
-  if (!verified) {
-    throw new Error('File integrity verification failed');
+/**
+ * Installed GLIBC version, e.g. "2.35"
+ */
+async function getGlibcVersion(): Promise<string> {
+  const glibcResult = await executeCommand('ldd', ['--version']);
+  if (!glibcResult.success) {
+    throw new Error('Failed to check GLIBC version');
   }
 
-  // Extract and install
-  console.log('\n📦 Extracting binary...');
-  await executeCommand('tar', ['-xzf', '/tmp/d9-node.tar.gz', '-C', '/tmp']);
-  console.log('✅ Binary extracted');
-
-  console.log('🔧 Installing binary...');
-  await executeCommand('sudo', ['mv', '/tmp/d9-node', PATHS.BINARY]);
-  await executeCommand('sudo', ['chown', 'root:root', PATHS.BINARY]);
-  await executeCommand('sudo', ['chmod', '755', PATHS.BINARY]);
-
-  // Download chain spec
-  console.log('\n📥 Downloading chain specification...');
-  await downloader.download(
-    'https://raw.githubusercontent.com/D-Nine-Chain/d9-node/main/new-main-spec.json',
-    '/tmp/new-main-spec.json'
-  );
-  await executeCommand('sudo', ['mv', '/tmp/new-main-spec.json', PATHS.CHAIN_SPEC]);
-  await executeCommand('sudo', ['chown', 'root:root', PATHS.CHAIN_SPEC]);
-  await executeCommand('sudo', ['chmod', '644', PATHS.CHAIN_SPEC]);
+  const versionMatch = glibcResult.output.match(/([0-9]+\.[0-9]+)$/m);
+  if (!versionMatch) {
+    throw new Error('Could not parse GLIBC version');
+  }
 
-  console.log('✅ D9 node binary installed successfully');
+  return versionMatch[1];
+}
 
-  // Cleanup
-  await executeCommand('rm', ['-f', '/tmp/d9-node.tar.gz', '/tmp/d9-node.tar.gz.sha256']);
+function isGlibcCompatible(version: string): boolean {
+  const [major, minor] = version.split('.').map(Number);
+  return !(major < 2 || (major === 2 && minor < 38));
 }
 
 /**
  * Upgrade GLIBC
  */
-async function upgradeGlibc(osInfo: { type: 'ubuntu' | 'debian'; user: string }): Promise<void> {
+async function upgradeGlibc(osInfo: OsInfo): Promise<void> {
   await executeCommand('sudo', ['cp', '/etc/apt/sources.list', '/etc/apt/sources.list.d9backup']);
 
   const repoFile = osInfo.type === 'ubuntu' ? 'noble.list' : 'testing.list';
@@ -485,19 +798,7 @@ Pin-Priority: 900
 
     await executeCommand('sudo', ['apt', 'update', '-qq']);
 
-    const packages =
-      osInfo.type === 'ubuntu'
-        ? ['libc6', 'libc6-dev', 'libc-bin', 'libc-dev-bin']
-        : ['libc6', 'libc6-dev', 'libc6-i386', 'libc-bin', 'libc-dev-bin', 'libc-l10n', 'locales'];
-
-    await executeCommand('sudo', [
-      'apt',
-      'install',
-      '-y',
-      '-qq',
-      ...(osInfo.type === 'debian' ? ['-t', 'testing'] : []),
-      ...packages,
-    ]);
+    await executeCommand('sudo', glibcInstallArgs(osInfo));
 
     // Cleanup
     await executeCommand('sudo', ['rm', '-f', repoPath]);
@@ -515,6 +816,54 @@ Pin-Priority: 900
   }
 }
 
+/**
+ * apt arguments that install the newer GLIBC packages
+ */
+function glibcInstallArgs(osInfo: OsInfo): string[] {
+  const packages =
+    osInfo.type === 'ubuntu'
+      ? ['libc6', 'libc6-dev', 'libc-bin', 'libc-dev-bin']
+      : ['libc6', 'libc6-dev', 'libc6-i386', 'libc-bin', 'libc-dev-bin', 'libc-l10n', 'locales'];
+
+  return [
+    'apt',
+    'install',
+    '-y',
+    '-qq',
+    ...(osInfo.type === 'debian' ? ['-t', 'testing'] : []),
+    ...packages,
+  ];
+}
+
+/**
+ * Commands upgradeGlibc() runs, for plans
+ */
+function describeGlibcUpgrade(osInfo: OsInfo): string[] {
+  const repoFile = osInfo.type === 'ubuntu' ? 'noble.list' : 'testing.list';
+  const repoPath = `/etc/apt/sources.list.d/${repoFile}`;
+  const prefPath = '/etc/apt/preferences.d/libc6';
+
+  const commands = [
+    formatCommand('sudo', ['cp', '/etc/apt/sources.list', '/etc/apt/sources.list.d9backup']),
+    `write /tmp/${repoFile}`,
+    formatCommand('sudo', ['mv', `/tmp/${repoFile}`, repoPath]),
+  ];
+  if (osInfo.type === 'debian') {
+    commands.push('write /tmp/preferences', formatCommand('sudo', ['mv', '/tmp/preferences', prefPath]));
+  }
+  commands.push(
+    formatCommand('sudo', ['apt', 'update', '-qq']),
+    formatCommand('sudo', glibcInstallArgs(osInfo)),
+    formatCommand('sudo', ['rm', '-f', repoPath])
+  );
+  if (osInfo.type === 'debian') {
+    commands.push(formatCommand('sudo', ['rm', '-f', prefPath]));
+  }
+  commands.push(formatCommand('sudo', ['apt', 'update', '-qq']));
+
+  return commands;
+}
+
 /**
  * Create node setup service with injected dependencies
  */
@@ -1,6 +1,7 @@
 import { Select, Confirm, Input } from '@cliffy/prompt';
 import { NodeType, Messages } from '../types.ts';
 import { checkDiskSpace, executeCommand, createProgressBar, systemctl, showProgress } from '../utils/system.ts';
+import { getCommandRunner } from '../utils/command-runner.ts';
 import { encodeAddress } from '@polkadot/util-crypto';
 import { randomBytes, pbkdf2, createHash } from 'node:crypto';
 import { promisify } from 'node:util';
@@ -559,14 +560,7 @@ WantedBy=multi-user.target
   console.log('Press Ctrl+C to stop viewing logs\n');
   
   // Run journalctl to show logs (this will take over the terminal)
-  const journalProcess = new Deno.Command('sudo', {
-    args: ['journalctl', '-u', 'd9-node', '-f', '-n', '100'],
-    stdin: 'inherit',
-    stdout: 'inherit',
-    stderr: 'inherit'
-  });
-  
-  await journalProcess.spawn().status;
+  await getCommandRunner().runInteractive('sudo', ['journalctl', '-u', 'd9-node', '-f', '-n', '100']);
 }
 
 async function generateNodeKeys(osInfo: { type: 'ubuntu' | 'debian'; user: string }, mode: InstallMode): Promise<void> {
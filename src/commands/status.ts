@@ -0,0 +1,239 @@
+/**
+ * Read-only status reports: node service, account balance and keystore.
+ *
+ * Each report is collected as plain data first so it can be printed for
+ * humans or emitted as a JSON document by the CLI.
+ */
+
+import { executeCommand } from '../utils/system.ts';
+import { discoverKeystore, getDataDirectory, getNodeAddress, KeystoreDiscovery, readKeystoreInfo } from '../utils/keystore.ts';
+import { getD9API } from '../utils/polkadot.ts';
+import { formatBalance } from '../utils/balance.ts';
+import { collectNodeMetrics, NodeMetricsSummary } from '../utils/prometheus.ts';
+import { CommandError } from '../utils/output.ts';
+import { EXIT_CODES, SERVICE } from '../config/constants.ts';
+
+export interface DiskUsage {
+  filesystem: string;
+  size: string;
+  used: string;
+  available: string;
+  usePercent: string;
+  mountedOn: string;
+}
+
+export interface NodeStatus {
+  service: {
+    name: string;
+    active: boolean;
+    state: string;
+  };
+  recentLogs: string[];
+  /** Summary of the node's Prometheus metrics, null if not scraped */
+  metrics: NodeMetricsSummary | null;
+  /** Why the metrics could not be scraped */
+  metricsError: string | null;
+  dataDirectory: string | null;
+  disk: DiskUsage | null;
+}
+
+export interface BalanceReport {
+  address: string;
+  free: string;
+  reserved: string;
+  total: string;
+  formatted: {
+    free: string;
+    reserved: string;
+    total: string;
+  };
+}
+
+export interface KeystoreReport extends KeystoreDiscovery {
+  address: string | null;
+  publicKey: string | null;
+}
+
+/**
+ * Collect service state, recent logs, metrics and disk usage
+ */
+export async function collectNodeStatus(): Promise<NodeStatus> {
+  const stateResult = await executeCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]);
+  const state = stateResult.output.trim().split('\n')[0] || 'unknown';
+  const active = state === 'active';
+
+  let recentLogs: string[] = [];
+  let metrics: NodeMetricsSummary | null = null;
+  let metricsError: string | null = null;
+  if (active) {
+    const logsResult = await executeCommand('sudo', ['journalctl', '-u', SERVICE.NAME, '-n', '5', '--no-pager']);
+    if (logsResult.success) {
+      recentLogs = logsResult.output.split('\n').filter((line) => line.trim().length > 0);
+    }
+
+    try {
+      metrics = await collectNodeMetrics();
+    } catch (error) {
+      metricsError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const dataDirectory = await getDataDirectory();
+  let disk: DiskUsage | null = null;
+  if (dataDirectory) {
+    const dfResult = await executeCommand('df', ['-h', dataDirectory]);
+    if (dfResult.success) {
+      disk = parseDfOutput(dfResult.output);
+    }
+  }
+
+  return {
+    service: { name: SERVICE.NAME, active, state },
+    recentLogs,
+    metrics,
+    metricsError,
+    dataDirectory,
+    disk,
+  };
+}
+
+/**
+ * Parse the data row of `df -h <path>` output
+ */
+function parseDfOutput(output: string): DiskUsage | null {
+  const row = output.split('\n')[1];
+  if (!row) {
+    return null;
+  }
+
+  const [filesystem, size, used, available, usePercent, mountedOn] = row.trim().split(/\s+/);
+  if (!mountedOn) {
+    return null;
+  }
+
+  return { filesystem, size, used, available, usePercent, mountedOn };
+}
+
+export function printNodeStatus(status: NodeStatus): void {
+  console.log('\n📊 Node Status');
+  console.log('─'.repeat(30));
+  console.log(`Service Status: ${status.service.active ? '✅ Running' : '❌ Stopped'}`);
+
+  if (status.recentLogs.length > 0) {
+    console.log('\n📝 Recent Logs:');
+    console.log('─'.repeat(20));
+    console.log(status.recentLogs.join('\n'));
+  }
+
+  if (status.metrics) {
+    printMetricsSummary(status.metrics);
+  } else if (status.metricsError) {
+    console.log(`\n⚠️  Metrics unavailable: ${status.metricsError}`);
+  }
+
+  if (status.disk) {
+    console.log('\n💾 Disk Usage:');
+    console.log('─'.repeat(15));
+    console.log(`${status.disk.mountedOn}: ${status.disk.used} used of ${status.disk.size} (${status.disk.usePercent}), ${status.disk.available} free`);
+  }
+
+  console.log('\n💡 Useful commands:');
+  console.log('  View logs: d9-manager logs --follow');
+  console.log(`  Stop node: sudo systemctl stop ${SERVICE.NAME}`);
+  console.log(`  Start node: sudo systemctl start ${SERVICE.NAME}`);
+  console.log(`  Restart: sudo systemctl restart ${SERVICE.NAME}`);
+}
+
+function printMetricsSummary(metrics: NodeMetricsSummary): void {
+  const show = (value: number | null, format: (value: number) => string = String) =>
+    value === null ? 'n/a' : format(value);
+
+  console.log('\n📈 Metrics:');
+  console.log('─'.repeat(15));
+  console.log(`Best block: ${show(metrics.bestBlock, (value) => `#${value}`)}`);
+  console.log(`Finalized: ${show(metrics.finalizedBlock, (value) => `#${value}`)} (lag ${show(metrics.finalityLag)})`);
+  if (metrics.syncTarget !== null && metrics.bestBlock !== null && metrics.syncTarget > metrics.bestBlock) {
+    console.log(`Sync target: #${metrics.syncTarget}`);
+  }
+  console.log(`Peers: ${show(metrics.peers)}`);
+  console.log(`Transaction pool: ${show(metrics.txPoolReady)} ready`);
+  console.log(`Database cache: ${show(metrics.dbCacheBytes, (value) => `${(value / 1024 / 1024).toFixed(1)} MiB`)}`);
+}
+
+/**
+ * Show node status (interactive menu entry)
+ */
+export async function showNodeStatus(): Promise<void> {
+  try {
+    printNodeStatus(await collectNodeStatus());
+  } catch (error) {
+    console.log(`❌ Error checking status: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Collect the balance of an address, defaulting to the node account
+ */
+export async function collectBalance(address?: string): Promise<BalanceReport> {
+  const target = address ?? await getNodeAddress({ verbose: false });
+  if (!target) {
+    throw new CommandError('No address given and no node keystore found', EXIT_CODES.NOT_FOUND);
+  }
+
+  let balance: { free: string; reserved: string; total: string };
+  try {
+    balance = await getD9API().getBalance(target);
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+
+  return {
+    address: target,
+    ...balance,
+    formatted: {
+      free: formatBalance(balance.free),
+      reserved: formatBalance(balance.reserved),
+      total: formatBalance(balance.total),
+    },
+  };
+}
+
+export function printBalance(report: BalanceReport): void {
+  console.log(`🔗 Address: ${report.address}`);
+  console.log(`💰 Free: ${report.formatted.free} D9`);
+  console.log(`🔒 Reserved: ${report.formatted.reserved} D9`);
+  console.log(`📊 Total: ${report.formatted.total} D9`);
+}
+
+/**
+ * Collect keystore location and the node address derived from it
+ */
+export async function collectKeystoreReport(): Promise<KeystoreReport> {
+  const discovery = await discoverKeystore();
+  const info = discovery.path ? await readKeystoreInfo({ verbose: false }) : null;
+
+  return {
+    ...discovery,
+    address: info?.hasKeys ? info.address : null,
+    publicKey: info?.hasKeys ? info.publicKey : null,
+  };
+}
+
+export function printKeystoreReport(report: KeystoreReport): void {
+  console.log('🔍 Keystore locations:');
+  report.searched.forEach((entry, idx) => {
+    console.log(`   ${idx + 1}. ${entry.found ? '✅' : '❌'} ${entry.path}`);
+  });
+
+  if (!report.path) {
+    console.log('❌ No keystore directory found');
+    return;
+  }
+
+  console.log(`\n📁 Keystore: ${report.path}`);
+  if (report.address) {
+    console.log(`🔗 Node Address: ${report.address}`);
+  } else {
+    console.log('⚠️  No usable aura key found');
+  }
+}
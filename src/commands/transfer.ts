@@ -0,0 +1,186 @@
+/**
+ * Balance transfers from, or into, the node account.
+ *
+ * By default the node account sends, signed with its keystore key. With
+ * fromSuri the sender's secret URI is asked for instead, and the node
+ * account is the default recipient, so an operator can fund the node
+ * without another wallet. Transfers that the runtime would refuse because of
+ * the existential deposit are refused up front.
+ */
+
+import { Confirm, Secret } from '@cliffy/prompt';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { getD9API, Signer } from '../utils/polkadot.ts';
+import { getNodeAddress } from '../utils/keystore.ts';
+import { formatBalance, parseBalance } from '../utils/balance.ts';
+import { CommandError } from '../utils/output.ts';
+import { EXIT_CODES } from '../config/constants.ts';
+
+export interface TransferOptions {
+  /** Amount in D9, e.g. "1.5" */
+  amount: string;
+  /** Recipient (default with fromSuri: the node account) */
+  to?: string;
+  /** Ask for the sender's secret URI instead of sending from the node account */
+  fromSuri?: boolean;
+  /** Allow the sender's balance to drop below the existential deposit, which removes its account */
+  allowDeath?: boolean;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+export interface TransferReport {
+  from: string;
+  to: string;
+  /** Amounts in the smallest unit */
+  amount: string;
+  fee: string;
+  existentialDeposit: string;
+  /** balances call used */
+  call: string;
+  warnings: string[];
+  success: boolean;
+  hash?: string;
+  error?: string;
+}
+
+/**
+ * Send funds. Resolves to null if the user declines.
+ */
+export async function transfer(options: TransferOptions): Promise<TransferReport | null> {
+  const amount = parseBalance(options.amount);
+  if (amount === null || BigInt(amount) === 0n) {
+    throw new CommandError(`Invalid amount '${options.amount}', expected a positive D9 amount such as 1.5`, EXIT_CODES.USAGE);
+  }
+
+  const api = getD9API();
+  const nodeAddress = await getNodeAddress({ verbose: false });
+  let signer: Signer | undefined;
+  let from: string;
+  if (options.fromSuri) {
+    const suri = await Secret.prompt('Secret URI (mnemonic or hex seed) of the sending account');
+    try {
+      signer = await api.createSigner(suri.trim());
+    } catch (error) {
+      throw new CommandError(`Invalid secret URI: ${error instanceof Error ? error.message : String(error)}`, EXIT_CODES.USAGE);
+    }
+    from = `Dn${signer.address}`;
+  } else {
+    if (!nodeAddress) {
+      throw new CommandError('Keystore not found or invalid', EXIT_CODES.NOT_FOUND);
+    }
+    from = nodeAddress;
+  }
+
+  const to = options.to ?? (options.fromSuri ? nodeAddress : null);
+  if (!to) {
+    throw new CommandError('No recipient given', EXIT_CODES.USAGE);
+  }
+  const recipient = to.startsWith('Dn') ? to.slice(2) : to;
+  try {
+    decodeAddress(recipient);
+  } catch {
+    throw new CommandError(`Invalid address '${to}'`, EXIT_CODES.USAGE);
+  }
+  if (recipient === (from.startsWith('Dn') ? from.slice(2) : from)) {
+    throw new CommandError('Sender and recipient are the same account', EXIT_CODES.USAGE);
+  }
+
+  const args = [recipient, amount];
+  let call = 'transferKeepAlive';
+  let senderBalance: { free: string };
+  let recipientBalance: { total: string };
+  let existentialDeposit: string;
+  let fee: string;
+  try {
+    // transferKeepAlive refuses to reap the sender. Older runtimes call transferAllowDeath "transfer".
+    if (options.allowDeath) {
+      call = await api.hasCall('balances', 'transferAllowDeath') ? 'transferAllowDeath' : 'transfer';
+    }
+    [senderBalance, recipientBalance, existentialDeposit] = await Promise.all([
+      api.getBalance(from),
+      api.getBalance(recipient),
+      api.getExistentialDeposit(),
+    ]);
+    fee = await api.estimateFee('balances', call, args, signer);
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+
+  const report: TransferReport = {
+    from,
+    to,
+    amount,
+    fee,
+    existentialDeposit,
+    call: `balances.${call}`,
+    warnings: [],
+    success: false,
+  };
+
+  const remaining = BigInt(senderBalance.free) - BigInt(amount) - BigInt(fee);
+  const ed = BigInt(existentialDeposit);
+  if (remaining < 0n) {
+    throw new CommandError(
+      `Insufficient balance: ${formatBalance(senderBalance.free)} D9 free, ` +
+        `${formatBalance((BigInt(amount) + BigInt(fee)).toString())} D9 needed including the fee`,
+      EXIT_CODES.ERROR,
+      report
+    );
+  }
+  if (remaining < ed) {
+    if (!options.allowDeath) {
+      throw new CommandError(
+        `This would leave ${formatBalance(remaining.toString())} D9 in ${from}, below the existential deposit of ` +
+          `${formatBalance(existentialDeposit)} D9; send less, or pass --allow-death to empty the account`,
+        EXIT_CODES.ERROR,
+        report
+      );
+    }
+    report.warnings.push(
+      remaining > 0n
+        ? `${from} will be removed; the remaining ${formatBalance(remaining.toString())} D9 is lost`
+        : `${from} will be emptied and removed`
+    );
+  }
+  if (BigInt(recipientBalance.total) === 0n && BigInt(amount) < ed) {
+    throw new CommandError(
+      `${to} has no balance, so it needs at least the existential deposit of ${formatBalance(existentialDeposit)} D9`,
+      EXIT_CODES.ERROR,
+      report
+    );
+  }
+
+  printTransferSummary(report);
+  if (!options.yes) {
+    const proceed = await Confirm.prompt('Send this transfer?');
+    if (!proceed) {
+      console.log('❌ Transfer cancelled');
+      return null;
+    }
+  }
+
+  console.log('\n🚀 Submitting transfer...');
+  const result = await api.submitExtrinsic('balances', call, args, signer);
+  return { ...report, ...result };
+}
+
+export function printTransferReport(report: TransferReport): void {
+  if (report.success) {
+    console.log(`✅ Sent ${formatBalance(report.amount)} D9 to ${report.to}`);
+    console.log(`Included in block ${report.hash}`);
+  } else {
+    console.log(`❌ Transfer failed: ${report.error}`);
+  }
+}
+
+function printTransferSummary(report: TransferReport): void {
+  console.log('\n💸 Transfer');
+  console.log('─'.repeat(30));
+  console.log(`From:   ${report.from}`);
+  console.log(`To:     ${report.to}`);
+  console.log(`Amount: ${formatBalance(report.amount)} D9`);
+  console.log(`Fee:    ~${formatBalance(report.fee)} D9`);
+  console.log(`Call:   ${report.call}`);
+  report.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+}
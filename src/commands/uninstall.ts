@@ -0,0 +1,286 @@
+/**
+ * Uninstall: reverse everything setup did to the host.
+ *
+ * The service, service file, data directory and service user are removed by
+ * rolling back the operations that created them, so uninstall stays in step
+ * with how setup creates them. The binary, chain spec, swap file and GLIBC
+ * apt sources are removed directly. Upgraded GLIBC packages are left in
+ * place; downgrading libc is not safe.
+ */
+
+import { Confirm } from '@cliffy/prompt';
+import { Messages } from '../types.ts';
+import { executeCommand } from '../utils/system.ts';
+import { getDataDirectory } from '../utils/keystore.ts';
+import { OperationResult } from '../core/operations.ts';
+import {
+  CreateDirectoryOperation,
+  CreateServiceFileOperation,
+  CreateUserOperation,
+  EnableServiceOperation,
+  StartServiceOperation,
+} from '../core/system-operations.ts';
+import { InstallationStateManager } from '../core/state-manager.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+import { getRootPrefix, hostPath, PATHS, SERVICE } from '../config/constants.ts';
+
+export interface UninstallOptions {
+  /** Keep the chain databases inside the data directory */
+  keepDatabase?: boolean;
+  /** Keep the keystores inside the data directory */
+  keepKeystore?: boolean;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+export interface UninstallReport {
+  removed: string[];
+  kept: string[];
+  failed: { item: string; error: string }[];
+}
+
+/**
+ * One thing to remove. run() resolves to an error message, or null.
+ */
+interface UninstallStep {
+  description: string;
+  run: () => Promise<string | null>;
+}
+
+/**
+ * Files the GLIBC upgrade may leave in apt's configuration
+ */
+const GLIBC_APT_FILES = [
+  '/etc/apt/sources.list.d/noble.list',
+  '/etc/apt/sources.list.d/testing.list',
+  '/etc/apt/preferences.d/libc6',
+  '/etc/apt/sources.list.d9backup',
+];
+
+/**
+ * Remove the node installation. Resolves to null if the user declines.
+ */
+export async function uninstallNode(messages: Messages, options: UninstallOptions = {}): Promise<UninstallReport | null> {
+  const kept: string[] = [];
+  const steps = await collectSteps(messages, options, kept);
+
+  if (steps.length === 0) {
+    console.log('✅ Nothing to uninstall');
+    return { removed: [], kept, failed: [] };
+  }
+
+  console.log('\n🗑️  Uninstalling the D9 node:');
+  steps.forEach((step) => console.log(`  - ${step.description}`));
+  kept.forEach((path) => console.log(`  ✋ Keep ${path}`));
+
+  if (!options.yes) {
+    const proceed = await Confirm.prompt('Remove the node and its data from this host?');
+    if (!proceed) {
+      console.log('❌ Uninstall cancelled');
+      return null;
+    }
+  }
+
+  const report: UninstallReport = { removed: [], kept, failed: [] };
+  for (const step of steps) {
+    console.log(`🔧 ${step.description}...`);
+    const error = await step.run();
+    if (error) {
+      console.log(`⚠️  ${error}`);
+      report.failed.push({ item: step.description, error });
+    } else {
+      report.removed.push(step.description);
+    }
+  }
+
+  return report;
+}
+
+export function printUninstallReport(report: UninstallReport): void {
+  console.log('\n📋 Uninstall Summary');
+  console.log('─'.repeat(30));
+  report.removed.forEach((item) => console.log(`✅ ${item}`));
+  report.kept.forEach((path) => console.log(`✋ Kept ${path}`));
+  report.failed.forEach(({ item, error }) => console.log(`❌ ${item}: ${error}`));
+  if (report.removed.length > 0) {
+    console.log('\n💡 GLIBC packages upgraded by setup, if any, were left in place');
+  }
+}
+
+/**
+ * Work out what this host has from an installation, in removal order
+ */
+async function collectSteps(messages: Messages, options: UninstallOptions, kept: string[]): Promise<UninstallStep[]> {
+  const steps: UninstallStep[] = [];
+  const serviceFile = hostPath(PATHS.SERVICE_FILE);
+  const serviceContent = await Deno.readTextFile(serviceFile).catch(() => null);
+
+  // The service file knows where this installation put things
+  const serviceUser = serviceContent?.match(/User=([^\s]+)/)?.[1] ?? SERVICE.USER;
+  const dataDirectory = serviceContent?.match(/--base-path\s+([^\s\\]+)/)?.[1] ?? await getDataDirectory();
+  const chainSpec = serviceContent?.match(/--chain\s+(\/[^\s\\]+)/)?.[1] ?? getNetworkProfile().chainSpecPath;
+
+  if (serviceContent !== null) {
+    steps.push({
+      description: `Stop and disable ${SERVICE.NAME}`,
+      run: async () =>
+        failure(await new StartServiceOperation(SERVICE.NAME).markExecuted().rollback()) ??
+        failure(await new EnableServiceOperation(SERVICE.NAME).markExecuted().rollback()),
+    });
+    steps.push({
+      description: `Remove service file ${serviceFile}`,
+      run: async () =>
+        failure(await new CreateServiceFileOperation(SERVICE.NAME, '', PATHS.SERVICE_FILE).markExecuted().rollback()),
+    });
+  }
+
+  if (dataDirectory && await pathExists(hostPath(dataDirectory))) {
+    // Substrate keeps each chain's database and keystore in chains/<chain id>/
+    const keep: string[] = [];
+    const chainsDirectory = hostPath(`${dataDirectory}/chains`);
+    for (const chain of await listDirectory(chainsDirectory) ?? []) {
+      const entries = await listDirectory(`${chainsDirectory}/${chain}`) ?? [];
+      const names = [...(options.keepDatabase ? ['db', 'paritydb'] : []), ...(options.keepKeystore ? ['keystore'] : [])];
+      keep.push(...names.filter((name) => entries.includes(name)).map((name) => `${chainsDirectory}/${chain}/${name}`));
+    }
+    kept.push(...keep);
+
+    if (keep.length === 0) {
+      steps.push({
+        description: `Remove data directory ${hostPath(dataDirectory)}`,
+        run: async () => failure(await new CreateDirectoryOperation(dataDirectory).markExecuted().rollback()),
+      });
+    } else {
+      steps.push({
+        description: `Remove data directory ${hostPath(dataDirectory)} except kept data`,
+        run: () => removeExcept(hostPath(dataDirectory), keep),
+      });
+    }
+  }
+
+  // Legacy installations run as a login user, which is not ours to delete
+  if (serviceUser === SERVICE.USER && (await executeCommand('id', [SERVICE.USER])).success) {
+    steps.push({
+      description: `Remove system user ${SERVICE.USER}`,
+      run: async () => failure(await new CreateUserOperation(SERVICE.USER).markExecuted().rollback()),
+    });
+  }
+
+  for (const path of [PATHS.BINARY, PATHS.BINARY_PREVIOUS, chainSpec, `${chainSpec}.bak`]) {
+    if (await pathExists(hostPath(path))) {
+      steps.push({ description: `Remove ${hostPath(path)}`, run: () => removeFiles([hostPath(path)]) });
+    }
+  }
+
+  // Swap and apt sources are host-wide, setup does not touch them under a root prefix
+  if (!getRootPrefix()) {
+    if (await pathExists('/swapfile')) {
+      steps.push({ description: 'Remove /swapfile and its fstab entry', run: removeSwap });
+    }
+
+    const aptFiles: string[] = [];
+    for (const path of GLIBC_APT_FILES) {
+      if (await pathExists(path)) aptFiles.push(path);
+    }
+    if (aptFiles.length > 0) {
+      steps.push({
+        description: `Remove GLIBC apt sources (${aptFiles.join(', ')})`,
+        run: async () => {
+          const error = await removeFiles(aptFiles);
+          if (error) return error;
+          const update = await executeCommand('sudo', ['apt', 'update', '-qq']);
+          return update.success ? null : `apt update failed: ${update.error}`;
+        },
+      });
+    }
+  }
+
+  const stateManager = new InstallationStateManager(messages);
+  if (await stateManager.loadState()) {
+    steps.push({
+      description: 'Clear saved installation state',
+      run: async () => {
+        await stateManager.clearState();
+        return null;
+      },
+    });
+  }
+
+  return steps;
+}
+
+function failure(result: OperationResult<void>): string | null {
+  return result.success ? null : result.error ?? 'Unknown error';
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function removeFiles(paths: string[]): Promise<string | null> {
+  const result = await executeCommand('sudo', ['rm', '-f', ...paths]);
+  return result.success ? null : result.error ?? 'rm failed';
+}
+
+/**
+ * Entries of a directory, or null if it cannot be listed. The data
+ * directory belongs to the service user, so this lists with sudo.
+ */
+async function listDirectory(directory: string): Promise<string[] | null> {
+  const listing = await executeCommand('sudo', ['ls', '-A', directory]);
+  if (!listing.success) {
+    return null;
+  }
+  return listing.output.split('\n').filter((line) => line.length > 0);
+}
+
+/**
+ * Delete everything in a directory except the given paths and their parents
+ */
+async function removeExcept(directory: string, keep: string[]): Promise<string | null> {
+  const entries = await listDirectory(directory);
+  if (!entries) {
+    return `Cannot list ${directory}`;
+  }
+
+  for (const name of entries) {
+    const path = `${directory}/${name}`;
+    if (keep.includes(path)) {
+      continue;
+    }
+    if (keep.some((kept) => kept.startsWith(`${path}/`))) {
+      const error = await removeExcept(path, keep);
+      if (error) return error;
+      continue;
+    }
+
+    const result = await executeCommand('sudo', ['rm', '-rf', path]);
+    if (!result.success) {
+      return `Failed to remove ${path}: ${result.error}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn off and delete the swap file setup created, and drop it from fstab
+ */
+async function removeSwap(): Promise<string | null> {
+  await executeCommand('sudo', ['swapoff', '/swapfile']);
+  const error = await removeFiles(['/swapfile']);
+  if (error) return error;
+
+  const fstab = await Deno.readTextFile('/etc/fstab');
+  const withoutSwap = fstab
+    .split('\n')
+    .filter((line) => !line.includes('/swapfile'))
+    .join('\n');
+  await Deno.writeTextFile('/tmp/fstab.tmp', withoutSwap);
+  const result = await executeCommand('sudo', ['mv', '/tmp/fstab.tmp', '/etc/fstab']);
+  return result.success ? null : `Failed to update /etc/fstab: ${result.error}`;
+}
@@ -0,0 +1,247 @@
+/**
+ * Binary upgrade with automatic rollback.
+ *
+ * The new release is downloaded and verified before anything is touched.
+ * The running binary is kept as d9-node.prev, the service is restarted and
+ * watched for a grace period; if it stops or its best block does not
+ * advance, the previous binary is restored and the service restarted.
+ */
+
+import { Confirm } from '@cliffy/prompt';
+import { executeCommand } from '../utils/system.ts';
+import { getBestBlockNumber } from '../utils/node-rpc.ts';
+import { CommandError } from '../utils/output.ts';
+import { cleanupRelease, downloadRelease, fetchRelease } from '../utils/releases.ts';
+import { WgetBinaryDownloader } from '../infrastructure/binary-downloader-impl.ts';
+import { installBinaryCommands } from './setup-v2.ts';
+import { EXIT_CODES, PATHS, SERVICE, hostPath } from '../config/constants.ts';
+
+export interface UpgradeOptions {
+  /** Release tag to install, e.g. "v1.2.0" (default: latest) */
+  version?: string;
+  /** Seconds the new binary has to prove healthy */
+  gracePeriod?: number;
+  /** Skip the confirmation prompt */
+  yes?: boolean;
+}
+
+/**
+ * One health observation after the restart
+ */
+export interface HealthSample {
+  /** Seconds since the restart */
+  elapsed: number;
+  serviceState: string;
+  bestBlock: number | null;
+}
+
+export interface UpgradeReport {
+  release: string;
+  previousVersion: string | null;
+  installedVersion: string | null;
+  healthy: boolean;
+  rolledBack: boolean;
+  reason?: string;
+  /** Why restoring the previous binary or restarting it failed */
+  rollbackError?: string;
+  samples: HealthSample[];
+}
+
+const DEFAULT_GRACE_PERIOD_SECONDS = 180;
+const HEALTH_CHECK_INTERVAL_MS = 10000;
+
+/**
+ * Health is judged by the best block advancing between two samples, so the
+ * grace period has to fit at least two of them
+ */
+export const MIN_GRACE_PERIOD_SECONDS = (2 * HEALTH_CHECK_INTERVAL_MS) / 1000;
+
+/**
+ * Upgrade the node binary. Resolves to null if the user declines; rejects
+ * with a CommandError carrying the report if the upgrade was rolled back.
+ */
+export async function upgradeNode(options: UpgradeOptions = {}): Promise<UpgradeReport | null> {
+  const binary = hostPath(PATHS.BINARY);
+  const previousBinary = hostPath(PATHS.BINARY_PREVIOUS);
+  const gracePeriod = options.gracePeriod ?? DEFAULT_GRACE_PERIOD_SECONDS;
+  if (gracePeriod < MIN_GRACE_PERIOD_SECONDS) {
+    throw new CommandError(
+      `--grace-period must be at least ${MIN_GRACE_PERIOD_SECONDS} seconds`,
+      EXIT_CODES.USAGE
+    );
+  }
+
+  try {
+    await Deno.stat(binary);
+  } catch {
+    throw new CommandError(`No d9-node binary at ${binary}, run setup first`, EXIT_CODES.NOT_FOUND);
+  }
+
+  const previousVersion = await getBinaryVersion(binary);
+  console.log(`\n🔍 Installed: ${previousVersion ?? 'unknown version'}`);
+
+  console.log(`🌐 Fetching ${options.version ? `release ${options.version}` : 'latest release'}...`);
+  const release = await fetchRelease(options.version);
+  console.log(`📦 Target release: ${release.tag}`);
+
+  if (!options.yes) {
+    const proceed = await Confirm.prompt(`Upgrade d9-node to ${release.tag} and restart ${SERVICE.NAME}?`);
+    if (!proceed) {
+      console.log('❌ Upgrade cancelled');
+      return null;
+    }
+  }
+
+  await downloadRelease(release, new WgetBinaryDownloader());
+
+  // Keep the running binary for rollback
+  console.log(`\n💾 Keeping current binary as ${previousBinary}`);
+  const backupResult = await executeCommand('sudo', ['cp', '-p', binary, previousBinary]);
+  if (!backupResult.success) {
+    await cleanupRelease();
+    throw new Error(`Failed to back up current binary: ${backupResult.error}`);
+  }
+
+  console.log('📦 Installing new binary...');
+  for (const [command, args] of installBinaryCommands()) {
+    const result = await executeCommand(command, args);
+    if (!result.success) {
+      await cleanupRelease();
+      await restorePreviousBinary(binary, previousBinary);
+      throw new Error(`Failed to install binary (${command} ${args[0]}): ${result.error}`);
+    }
+  }
+  await cleanupRelease();
+
+  const installedVersion = await getBinaryVersion(binary);
+  console.log(`✅ Installed ${installedVersion ?? release.tag}`);
+
+  console.log(`\n🔄 Restarting ${SERVICE.NAME}...`);
+  await executeCommand('sudo', ['systemctl', 'restart', SERVICE.NAME]);
+
+  console.log(`🩺 Watching node health for up to ${gracePeriod}s...`);
+  const health = await watchHealth(gracePeriod * 1000);
+
+  const report: UpgradeReport = {
+    release: release.tag,
+    previousVersion,
+    installedVersion,
+    healthy: health.healthy,
+    rolledBack: false,
+    reason: health.reason,
+    samples: health.samples,
+  };
+
+  if (health.healthy) {
+    console.log(`\n✅ Upgrade to ${release.tag} complete, node is producing blocks`);
+    console.log(`💡 Previous binary kept at ${previousBinary}`);
+    return report;
+  }
+
+  console.log(`\n⚠️  New binary is unhealthy: ${health.reason}`);
+  console.log('⏪ Rolling back to the previous binary...');
+  try {
+    await restorePreviousBinary(binary, previousBinary);
+    const restartResult = await executeCommand('sudo', ['systemctl', 'restart', SERVICE.NAME]);
+    if (!restartResult.success) {
+      throw new Error(`Failed to restart ${SERVICE.NAME}: ${restartResult.error}`);
+    }
+    report.rolledBack = true;
+  } catch (error) {
+    report.rollbackError = error instanceof Error ? error.message : String(error);
+  }
+  report.installedVersion = await getBinaryVersion(binary);
+
+  if (report.rollbackError) {
+    throw new CommandError(
+      `Upgrade to ${release.tag} failed (${health.reason}) and rollback failed: ${report.rollbackError}. ` +
+        `Restore manually with: sudo mv ${previousBinary} ${binary} && sudo systemctl restart ${SERVICE.NAME}`,
+      EXIT_CODES.ERROR,
+      report
+    );
+  }
+  throw new CommandError(
+    `Upgrade to ${release.tag} rolled back: ${health.reason}`,
+    EXIT_CODES.ERROR,
+    report
+  );
+}
+
+export function printUpgradeReport(report: UpgradeReport): void {
+  console.log('\n📋 Upgrade Summary');
+  console.log('─'.repeat(30));
+  console.log(`Release:  ${report.release}`);
+  console.log(`Previous: ${report.previousVersion ?? 'unknown'}`);
+  console.log(`Current:  ${report.installedVersion ?? 'unknown'}`);
+  console.log(`Health:   ${report.healthy ? '✅ Healthy' : `❌ ${report.reason}`}`);
+}
+
+/**
+ * Version string reported by a d9-node binary
+ */
+async function getBinaryVersion(binary: string): Promise<string | null> {
+  const result = await executeCommand(binary, ['--version']);
+  return result.success ? result.output.trim().split('\n')[0] || null : null;
+}
+
+/**
+ * Put the previous binary back in place. The failing binary may still be
+ * running, and copying over a running executable fails with ETXTBSY, so the
+ * copy is staged next to it and renamed over it.
+ */
+async function restorePreviousBinary(binary: string, previousBinary: string): Promise<void> {
+  const staged = `${binary}.restore`;
+  const copyResult = await executeCommand('sudo', ['cp', '-p', previousBinary, staged]);
+  if (!copyResult.success) {
+    throw new Error(`Failed to restore ${previousBinary}: ${copyResult.error}`);
+  }
+  const moveResult = await executeCommand('sudo', ['mv', '-f', staged, binary]);
+  if (!moveResult.success) {
+    await executeCommand('sudo', ['rm', '-f', staged]);
+    throw new Error(`Failed to restore ${previousBinary}: ${moveResult.error}`);
+  }
+}
+
+/**
+ * Poll the service and the node's best block until the block advances past
+ * the first height seen after the restart, or the grace period runs out.
+ */
+async function watchHealth(
+  gracePeriodMs: number
+): Promise<{ healthy: boolean; reason?: string; samples: HealthSample[] }> {
+  const samples: HealthSample[] = [];
+  const started = Date.now();
+  let baseline: number | null = null;
+
+  while (Date.now() - started < gracePeriodMs) {
+    await new Promise((resolve) => setTimeout(resolve, HEALTH_CHECK_INTERVAL_MS));
+
+    const stateResult = await executeCommand('sudo', ['systemctl', 'is-active', SERVICE.NAME]);
+    const serviceState = stateResult.output.trim().split('\n')[0] || 'unknown';
+    const bestBlock = await getBestBlockNumber().catch(() => null);
+    const elapsed = Math.round((Date.now() - started) / 1000);
+    samples.push({ elapsed, serviceState, bestBlock });
+
+    console.log(`   ${elapsed}s: service ${serviceState}, best block ${bestBlock ?? 'unavailable'}`);
+
+    if (serviceState === 'failed' || serviceState === 'inactive') {
+      return { healthy: false, reason: `service is ${serviceState}`, samples };
+    }
+
+    if (bestBlock !== null) {
+      if (baseline === null) {
+        baseline = bestBlock;
+      } else if (bestBlock > baseline) {
+        return { healthy: true, samples };
+      }
+    }
+  }
+
+  return {
+    healthy: false,
+    reason: baseline === null
+      ? `RPC did not respond within ${gracePeriodMs / 1000}s`
+      : `best block stayed at ${baseline} for ${gracePeriodMs / 1000}s`,
+    samples,
+  };
+}
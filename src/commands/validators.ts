@@ -0,0 +1,140 @@
+/**
+ * Validator leaderboard: every candidate ranked by accumulated votes.
+ *
+ * The top CANDIDACY.ACTIVE_SET_SIZE candidates form the next validator set.
+ * The report marks that cut-off, which candidates are in the current
+ * session's set, and where this node stands relative to the cut-off.
+ */
+
+import { CandidateInfo } from '../types.ts';
+import { getD9API } from '../utils/polkadot.ts';
+import { getNodeAddress } from '../utils/keystore.ts';
+import { CommandError } from '../utils/output.ts';
+import { CANDIDACY, EXIT_CODES } from '../config/constants.ts';
+
+export interface ValidatorRanking {
+  rank: number;
+  address: string;
+  /** Public name, null if the candidate has no metadata */
+  name: string | null;
+  votes: string;
+  sharingPercent: number | null;
+  /** Within the top ACTIVE_SET_SIZE by votes */
+  aboveCutoff: boolean;
+  /** In the current session's validator set */
+  active: boolean;
+  /** This node's account */
+  own: boolean;
+}
+
+export interface ValidatorsReport {
+  activeSetSize: number;
+  candidates: ValidatorRanking[];
+  /** Votes of the candidate at the cut-off position, null if fewer candidates */
+  cutoffVotes: string | null;
+  /** This node's standing, null if it is not a candidate or has no keystore */
+  own: {
+    address: string;
+    rank: number;
+    votes: string;
+    /** Votes behind the cut-off position (0 when at or above it) */
+    gapToCutoff: string;
+    /** Votes ahead of the first candidate below the cut-off, when above it */
+    marginOverNext: string | null;
+  } | null;
+}
+
+/**
+ * Rank all candidates by accumulated votes
+ */
+export async function collectValidators(): Promise<ValidatorsReport> {
+  const api = getD9API();
+  let candidates: CandidateInfo[];
+  let activeValidators: string[];
+  try {
+    [candidates, activeValidators] = await Promise.all([api.getCandidates(), api.getActiveValidators()]);
+  } catch (error) {
+    throw new CommandError(error instanceof Error ? error.message : String(error), EXIT_CODES.NETWORK);
+  }
+
+  const ownAddress = await getNodeAddress({ verbose: false });
+  const activeSetSize = CANDIDACY.ACTIVE_SET_SIZE;
+
+  // Most votes first; ties keep a stable order by address
+  const sorted = [...candidates].sort((a, b) => {
+    const difference = BigInt(b.votes) - BigInt(a.votes);
+    return difference !== 0n ? (difference > 0n ? 1 : -1) : a.address.localeCompare(b.address);
+  });
+
+  const rankings: ValidatorRanking[] = sorted.map((candidate, index) => ({
+    rank: index + 1,
+    address: candidate.address,
+    name: candidate.metadata?.name ?? null,
+    votes: candidate.votes,
+    sharingPercent: candidate.metadata?.sharingPercent ?? null,
+    aboveCutoff: index < activeSetSize,
+    active: activeValidators.includes(candidate.address),
+    own: candidate.address === ownAddress,
+  }));
+
+  const cutoffVotes = rankings[activeSetSize - 1]?.votes ?? null;
+  const ownRanking = rankings.find((ranking) => ranking.own);
+  let own: ValidatorsReport['own'] = null;
+  if (ownRanking) {
+    const votes = BigInt(ownRanking.votes);
+    const next = rankings[activeSetSize];
+    own = {
+      address: ownRanking.address,
+      rank: ownRanking.rank,
+      votes: ownRanking.votes,
+      gapToCutoff: ownRanking.aboveCutoff || cutoffVotes === null ? '0' : (BigInt(cutoffVotes) - votes).toString(),
+      marginOverNext: ownRanking.aboveCutoff && next ? (votes - BigInt(next.votes)).toString() : null,
+    };
+  }
+
+  return { activeSetSize, candidates: rankings, cutoffVotes, own };
+}
+
+/**
+ * Print the leaderboard, optionally only the first `limit` places (this
+ * node's row is always shown)
+ */
+export function printValidatorsReport(report: ValidatorsReport, limit?: number): void {
+  console.log('\n🏆 Validator Candidates');
+  console.log('─'.repeat(30));
+  if (report.candidates.length === 0) {
+    console.log('No candidates');
+    return;
+  }
+
+  console.log(`${'Rank'.padStart(4)}  ${'Votes'.padStart(16)}  ${'Share'.padStart(5)}  Name`);
+  for (const candidate of report.candidates) {
+    if (limit !== undefined && candidate.rank > limit && !candidate.own) {
+      continue;
+    }
+    const marker = candidate.own ? '👉' : candidate.active ? '🟢' : '  ';
+    const share = candidate.sharingPercent === null ? '-' : `${candidate.sharingPercent}%`;
+    console.log(
+      `${String(candidate.rank).padStart(4)}  ${candidate.votes.padStart(16)}  ${share.padStart(5)}  ` +
+        `${marker} ${candidate.name ?? candidate.address}`
+    );
+    if (candidate.rank === report.activeSetSize && report.candidates.length > report.activeSetSize) {
+      console.log(`${'─'.repeat(12)} cut-off: top ${report.activeSetSize} ${'─'.repeat(12)}`);
+    }
+  }
+
+  console.log(`\n🟢 in the current validator set   👉 this node`);
+  console.log(`${report.candidates.length} candidates, ${report.candidates.filter((candidate) => candidate.active).length} active`);
+
+  if (!report.own) {
+    console.log('This node is not a candidate');
+  } else if (report.own.rank <= report.activeSetSize) {
+    const margin = report.own.marginOverNext === null ? '' : `, ${report.own.marginOverNext} votes ahead of #${report.activeSetSize + 1}`;
+    console.log(`✅ This node is #${report.own.rank}, within the top ${report.activeSetSize}${margin}`);
+  } else {
+    console.log(
+      `⚠️  This node is #${report.own.rank}, ${report.own.gapToCutoff} votes behind #${report.activeSetSize} ` +
+        `(${report.cutoffVotes} votes)`
+    );
+  }
+}
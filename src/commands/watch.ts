@@ -0,0 +1,387 @@
+/**
+ * Watch daemon: polls the node's health and alerts through the configured
+ * notifiers.
+ *
+ * Alerts are de-duplicated per condition: a condition is sent when it
+ * starts or changes severity, again every repeatMinutes while it lasts, and
+ * once more when it clears. A validator that misses its im_online heartbeat
+ * for a whole session is reported after the session ends, since the chain
+ * only keeps heartbeats of the current session.
+ */
+
+import { Confirm } from '@cliffy/prompt';
+import { runHealthCheck } from './check.ts';
+import { collectNodeHealth } from './dashboard.ts';
+import { discoverKeystore, getNodeAddress, inspectKeystore } from '../utils/keystore.ts';
+import { getD9API } from '../utils/polkadot.ts';
+import { executeCommand } from '../utils/system.ts';
+import { CommandError } from '../utils/output.ts';
+import { createNotifiers, formatAlertSubject, Notifier, WatchAlert } from '../utils/notifiers.ts';
+import { loadWatchConfig, WatchConfig, WatchConfigError } from '../config/watch-config.ts';
+import { getConfigDir } from '../core/state-manager.ts';
+import { EXIT_CODES, KEY_TYPES, PATHS, WATCH, hostPath } from '../config/constants.ts';
+
+/**
+ * An unhealthy condition found by one poll
+ */
+export interface WatchCondition {
+  key: string;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+/**
+ * Result of one poll
+ */
+export interface WatchPoll {
+  conditions: WatchCondition[];
+  /** Conditions that could not be checked this time, e.g. peers while RPC is down */
+  unchecked: string[];
+}
+
+export interface NotifierTestResult {
+  notifier: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface WatchInstallOptions {
+  config: string;
+  /** --network and --network-file to pass on to the daemon */
+  network?: string;
+  networkFile?: string;
+  yes?: boolean;
+}
+
+export interface WatchInstallReport {
+  serviceFile: string;
+  execStart: string;
+  warnings: string[];
+}
+
+/**
+ * Watch config used when --config is not given
+ */
+export function getDefaultWatchConfigPath(): string {
+  return `${getConfigDir()}/watch.yaml`;
+}
+
+/**
+ * Load and validate a watch config, mapping problems to a usage error
+ */
+export async function readWatchConfig(path: string): Promise<WatchConfig> {
+  try {
+    return await loadWatchConfig(path);
+  } catch (error) {
+    if (error instanceof WatchConfigError) {
+      throw new CommandError(error.message, EXIT_CODES.USAGE, { issues: error.issues });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Poll and alert until SIGINT or SIGTERM
+ */
+export async function runWatch(config: WatchConfig): Promise<void> {
+  const dispatcher = new AlertDispatcher(createNotifiers(config.notifiers), config.repeatMinutes * 60 * 1000);
+  const heartbeats = new HeartbeatTracker();
+
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopped = true;
+    wake?.();
+  };
+  const signals: Deno.Signal[] = ['SIGINT', 'SIGTERM'];
+  signals.forEach((signal) => Deno.addSignalListener(signal, stop));
+
+  console.log(
+    `👀 Watching ${Deno.hostname()} every ${config.interval}s, ` +
+      `alerting via ${config.notifiers.map((notifier) => notifier.type).join(', ')}`
+  );
+  try {
+    while (!stopped) {
+      await dispatcher.update(await pollConditions(config, heartbeats));
+
+      if (stopped) {
+        break;
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, config.interval * 1000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    signals.forEach((signal) => Deno.removeSignalListener(signal, stop));
+  }
+  console.log('👋 Watch stopped');
+}
+
+/**
+ * Check every health condition once
+ */
+export async function pollConditions(config: WatchConfig, heartbeats: HeartbeatTracker): Promise<WatchPoll> {
+  const conditions: WatchCondition[] = [];
+
+  const check = await runHealthCheck({ probes: ['service', 'rpc', 'peers', 'disk'], minPeers: config.minPeers });
+  const rpcDown = check.probes.some((probe) => probe.probe === 'rpc' && probe.status !== 'OK');
+  // Without RPC the peer count and sync state are unknown, which the rpc alert already says
+  const unchecked: string[] = rpcDown ? ['peers', 'sync'] : [];
+  for (const probe of check.probes) {
+    if (probe.status === 'OK' || unchecked.includes(probe.probe)) {
+      continue;
+    }
+    conditions.push({
+      key: probe.probe,
+      severity: probe.status === 'CRITICAL' ? 'critical' : 'warning',
+      message: `${probe.probe}: ${probe.message}`,
+    });
+  }
+
+  if (!rpcDown) {
+    try {
+      const health = await collectNodeHealth();
+      const behind = health.highestBlock - health.bestBlock;
+      if (behind > config.maxSyncLag) {
+        conditions.push({
+          key: 'sync',
+          severity: 'warning',
+          message: `sync: ${behind} blocks behind the network (${health.syncPercent}%)`,
+        });
+      }
+    } catch {
+      // The rpc probe reports an unreachable node on the next poll
+      unchecked.push('sync');
+    }
+  }
+
+  try {
+    const heartbeat = await heartbeats.poll();
+    if (heartbeat) {
+      conditions.push(heartbeat);
+    }
+  } catch {
+    // A failed query says nothing about the heartbeat, so an open alert stays as it is
+    unchecked.push('heartbeat');
+  }
+  return { conditions, unchecked };
+}
+
+/**
+ * Follows this validator's im_online status across sessions
+ */
+export class HeartbeatTracker {
+  private session: number | null = null;
+  private online = false;
+  private missedSession: number | null = null;
+
+  /**
+   * A condition while the last finished session had no heartbeat, null
+   * otherwise or when the node is not in the validator set. Throws when
+   * im_online cannot be queried.
+   */
+  async poll(): Promise<WatchCondition | null> {
+    const address = await getNodeAddress({ verbose: false });
+    const discovery = await discoverKeystore();
+    if (!address || !discovery.path) {
+      return null;
+    }
+    const imOnlineKeys = (await inspectKeystore(discovery.path))
+      .filter((entry) => entry.type === KEY_TYPES.IM_ONLINE.type)
+      .map((entry) => entry.publicKey);
+    if (imOnlineKeys.length === 0) {
+      return null;
+    }
+
+    const status = await getD9API().getHeartbeatStatus(address, imOnlineKeys);
+    if (!status) {
+      this.session = null;
+      this.missedSession = null;
+      return null;
+    }
+
+    if (this.session !== null && status.session !== this.session && !this.online) {
+      this.missedSession = this.session;
+    }
+    this.session = status.session;
+    this.online = status.heartbeatReceived || status.authoredBlocks > 0;
+    if (this.online) {
+      this.missedSession = null;
+    }
+
+    return this.missedSession === null ? null : {
+      key: 'heartbeat',
+      severity: 'critical',
+      message: `heartbeat: no im_online heartbeat or authored block in session ${this.missedSession}`,
+    };
+  }
+}
+
+/**
+ * Active alert state, keyed by condition
+ */
+interface ActiveAlert {
+  severity: WatchCondition['severity'];
+  message: string;
+  lastSent: number;
+}
+
+/**
+ * Sends new, escalated, repeated and resolved alerts
+ */
+export class AlertDispatcher {
+  private readonly active = new Map<string, ActiveAlert>();
+
+  constructor(private readonly notifiers: Notifier[], private readonly repeatMs: number) {}
+
+  async update({ conditions, unchecked }: WatchPoll): Promise<void> {
+    const now = Date.now();
+    for (const condition of conditions) {
+      const previous = this.active.get(condition.key);
+      const due = !previous || previous.severity !== condition.severity ||
+        (this.repeatMs > 0 && now - previous.lastSent >= this.repeatMs);
+      if (!due) {
+        continue;
+      }
+      // Until one notifier accepts it, the alert is retried on the next poll
+      const delivered = await this.notify(condition.key, condition.severity, condition.message);
+      if (delivered) {
+        this.active.set(condition.key, { severity: condition.severity, message: condition.message, lastSent: now });
+      }
+    }
+
+    for (const [key, alert] of this.active) {
+      // An alert that could not be checked is kept as it is, not resolved
+      if (!conditions.some((condition) => condition.key === key) && !unchecked.includes(key)) {
+        if (await this.notify(key, 'resolved', `resolved: ${alert.message}`)) {
+          this.active.delete(key);
+        }
+      }
+    }
+  }
+
+  private async notify(key: string, severity: WatchAlert['severity'], message: string): Promise<boolean> {
+    const alert: WatchAlert = { key, severity, message, host: Deno.hostname(), timestamp: new Date().toISOString() };
+    console.log(`🔔 ${formatAlertSubject(alert)}`);
+
+    const results = await sendToAll(this.notifiers, alert);
+    results.filter((result) => !result.ok).forEach((result) => {
+      console.log(`⚠️  ${result.notifier} failed: ${result.error}`);
+    });
+    return results.some((result) => result.ok);
+  }
+}
+
+async function sendToAll(notifiers: Notifier[], alert: WatchAlert): Promise<NotifierTestResult[]> {
+  return await Promise.all(notifiers.map(async (notifier) => {
+    try {
+      await notifier.send(alert);
+      return { notifier: notifier.name, ok: true };
+    } catch (error) {
+      return { notifier: notifier.name, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+/**
+ * Send a test alert through every notifier
+ */
+export async function testNotifiers(config: WatchConfig): Promise<NotifierTestResult[]> {
+  return await sendToAll(createNotifiers(config.notifiers), {
+    key: 'test',
+    severity: 'warning',
+    message: 'test alert from d9-manager watch',
+    host: Deno.hostname(),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export function printNotifierTestResults(results: NotifierTestResult[]): void {
+  for (const result of results) {
+    console.log(result.ok ? `✅ ${result.notifier}: sent` : `❌ ${result.notifier}: ${result.error}`);
+  }
+}
+
+/**
+ * Install and start the watch daemon as its own systemd service. Resolves
+ * to null if the user declines.
+ */
+export async function installWatchService(options: WatchInstallOptions): Promise<WatchInstallReport | null> {
+  const executable = Deno.execPath();
+  if (/\/deno$/.test(executable)) {
+    throw new CommandError('watch install only works for the compiled d9-manager binary', EXIT_CODES.USAGE);
+  }
+
+  const configPath = await Deno.realPath(options.config).catch(() => {
+    throw new CommandError(`Watch config ${options.config} not found`, EXIT_CODES.NOT_FOUND);
+  });
+  const config = await readWatchConfig(configPath);
+
+  const warnings: string[] = [];
+  const { mode } = await Deno.stat(configPath);
+  if (mode !== null && (mode & 0o004) !== 0) {
+    warnings.push(`${configPath} is world-readable and may hold notifier secrets; consider chmod 600`);
+  }
+
+  const args = [
+    ...(options.network ? ['--network', options.network] : []),
+    ...(options.networkFile ? ['--network-file', await Deno.realPath(options.networkFile)] : []),
+    'watch', 'run', '--config', configPath,
+  ];
+  const execStart = `${executable} ${args.join(' ')}`;
+  const report: WatchInstallReport = { serviceFile: hostPath(PATHS.WATCH_SERVICE_FILE), execStart, warnings };
+
+  console.log(`\n👀 ${WATCH.SERVICE_NAME}`);
+  console.log(`ExecStart: ${execStart}`);
+  console.log(`Polls every ${config.interval}s, alerts via ${config.notifiers.map((notifier) => notifier.type).join(', ')}`);
+  warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+
+  if (!options.yes) {
+    const proceed = await Confirm.prompt(`Install and start ${WATCH.SERVICE_NAME}?`);
+    if (!proceed) {
+      console.log('❌ Installation cancelled');
+      return null;
+    }
+  }
+
+  const tempServiceFile = '/tmp/d9-watch.service';
+  await Deno.writeTextFile(tempServiceFile, buildWatchServiceContent(execStart));
+  const steps: [string, string[]][] = [
+    ['sudo', ['mv', tempServiceFile, report.serviceFile]],
+    ['sudo', ['systemctl', 'daemon-reload']],
+    ['sudo', ['systemctl', 'enable', '--now', WATCH.SERVICE_NAME]],
+  ];
+  for (const [command, commandArgs] of steps) {
+    const result = await executeCommand(command, commandArgs);
+    if (!result.success) {
+      throw new CommandError(`${command} ${commandArgs.join(' ')} failed: ${result.error}`, EXIT_CODES.ERROR, report);
+    }
+  }
+  return report;
+}
+
+function buildWatchServiceContent(execStart: string): string {
+  return `[Unit]
+Description=D9 Node Watch
+After=network-online.target
+Wants=network-online.target
+
+[Service]
+Type=simple
+ExecStart=${execStart}
+Restart=always
+RestartSec=10
+
+[Install]
+WantedBy=multi-user.target
+`;
+}
+
+export function printWatchInstallReport(report: WatchInstallReport): void {
+  console.log(`✅ ${WATCH.SERVICE_NAME} installed and started (${report.serviceFile})`);
+  console.log(`   Logs: journalctl -u ${WATCH.SERVICE_NAME} -f`);
+}
@@ -0,0 +1,151 @@
+import { assertEquals } from '@std/assert';
+import { AlertDispatcher, WatchCondition, WatchPoll } from './watch.ts';
+import { TelegramNotifier, WebhookNotifier } from '../utils/notifiers.ts';
+import { withHttpServer, withTestEnvironment } from '../utils/testing.ts';
+
+const PEERS_LOW: WatchCondition = { key: 'peers', severity: 'warning', message: 'peers: 2 peers (minimum 3)' };
+const PEERS_NONE: WatchCondition = { key: 'peers', severity: 'critical', message: 'peers: 0 peers (minimum 3)' };
+const DISK_LOW: WatchCondition = { key: 'disk', severity: 'warning', message: 'disk: 8% free' };
+
+/**
+ * Alerts a stand-in webhook and Telegram API received, as "severity message"
+ */
+interface Delivered {
+  webhook: string[];
+  telegram: string[];
+  /** Make both channels refuse every alert */
+  failing: boolean;
+}
+
+/**
+ * Run fn with an AlertDispatcher whose webhook and Telegram notifiers talk to
+ * a local server, with the dispatcher's log output captured
+ */
+async function withDispatcher(
+  repeatMs: number,
+  fn: (dispatcher: AlertDispatcher, delivered: Delivered) => Promise<void>
+): Promise<void> {
+  const delivered: Delivered = { webhook: [], telegram: [], failing: false };
+  const standIn = async (request: Request) => {
+    const body = await request.json();
+    if (delivered.failing) {
+      return Response.json({ ok: false, description: 'unavailable' }, { status: 503 });
+    }
+    if (new URL(request.url).pathname === '/hook') {
+      delivered.webhook.push(`${body.severity} ${body.message}`);
+      return new Response(null, { status: 204 });
+    }
+    delivered.telegram.push(body.text.split('\n')[0]);
+    return Response.json({ ok: true });
+  };
+
+  await withHttpServer(standIn, (url) => {
+    const dispatcher = new AlertDispatcher([
+      new WebhookNotifier({ type: 'webhook', url: `${url}/hook` }),
+      new TelegramNotifier({ type: 'telegram', botToken: '123:abc', chatId: '42', apiUrl: url }),
+    ], repeatMs);
+    return withTestEnvironment({ captureConsole: true }, () => fn(dispatcher, delivered));
+  });
+}
+
+function poll(...conditions: WatchCondition[]): WatchPoll {
+  return { conditions, unchecked: [] };
+}
+
+Deno.test('AlertDispatcher sends a new alert once while it lasts', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    await dispatcher.update(poll(PEERS_LOW));
+    await dispatcher.update(poll(PEERS_LOW));
+    await dispatcher.update(poll(PEERS_LOW));
+
+    assertEquals(delivered.webhook, ['warning peers: 2 peers (minimum 3)']);
+    assertEquals(delivered.telegram, [`[D9 WARNING] ${Deno.hostname()}: peers: 2 peers (minimum 3)`]);
+  });
+});
+
+Deno.test('AlertDispatcher repeats an alert after repeatMs', async () => {
+  await withDispatcher(50, async (dispatcher, delivered) => {
+    await dispatcher.update(poll(DISK_LOW));
+    await dispatcher.update(poll(DISK_LOW));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await dispatcher.update(poll(DISK_LOW));
+
+    assertEquals(delivered.webhook, ['warning disk: 8% free', 'warning disk: 8% free']);
+  });
+});
+
+Deno.test('AlertDispatcher sends an alert again when its severity changes', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    await dispatcher.update(poll(PEERS_LOW));
+    await dispatcher.update(poll(PEERS_NONE));
+    await dispatcher.update(poll(PEERS_NONE));
+
+    assertEquals(delivered.webhook, [
+      'warning peers: 2 peers (minimum 3)',
+      'critical peers: 0 peers (minimum 3)',
+    ]);
+  });
+});
+
+Deno.test('AlertDispatcher resolves a cleared alert once', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    await dispatcher.update(poll(PEERS_NONE, DISK_LOW));
+    await dispatcher.update(poll(DISK_LOW));
+    await dispatcher.update(poll(DISK_LOW));
+
+    assertEquals(delivered.webhook, [
+      'critical peers: 0 peers (minimum 3)',
+      'warning disk: 8% free',
+      'resolved resolved: peers: 0 peers (minimum 3)',
+    ]);
+    assertEquals(delivered.telegram.length, 3);
+  });
+});
+
+Deno.test('AlertDispatcher keeps an alert open while its condition cannot be checked', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    const rpcDown: WatchCondition = { key: 'rpc', severity: 'critical', message: 'rpc: no response' };
+
+    await dispatcher.update(poll(PEERS_NONE));
+    await dispatcher.update({ conditions: [rpcDown], unchecked: ['peers', 'sync'] });
+    await dispatcher.update(poll());
+
+    assertEquals(delivered.webhook, [
+      'critical peers: 0 peers (minimum 3)',
+      'critical rpc: no response',
+      'resolved resolved: peers: 0 peers (minimum 3)',
+      'resolved resolved: rpc: no response',
+    ]);
+  });
+});
+
+Deno.test('AlertDispatcher does not re-send a heartbeat alert while im_online cannot be queried', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    const missed: WatchCondition = {
+      key: 'heartbeat',
+      severity: 'critical',
+      message: 'heartbeat: no im_online heartbeat or authored block in session 7',
+    };
+
+    await dispatcher.update(poll(missed));
+    await dispatcher.update({ conditions: [], unchecked: ['heartbeat'] });
+    await dispatcher.update(poll(missed));
+
+    assertEquals(delivered.webhook, [`critical ${missed.message}`]);
+  });
+});
+
+Deno.test('AlertDispatcher retries an alert until a notifier accepts it', async () => {
+  await withDispatcher(0, async (dispatcher, delivered) => {
+    delivered.failing = true;
+    await dispatcher.update(poll(DISK_LOW));
+    await dispatcher.update(poll(DISK_LOW));
+
+    delivered.failing = false;
+    await dispatcher.update(poll(DISK_LOW));
+    await dispatcher.update(poll(DISK_LOW));
+
+    assertEquals(delivered.webhook, ['warning disk: 8% free']);
+    assertEquals(delivered.telegram.length, 1);
+  });
+});
@@ -9,10 +9,14 @@
 export const PATHS = {
 	/** D9 node binary location */
 	BINARY: '/usr/local/bin/d9-node',
-	/** Chain specification file location */
+	/** Previous D9 node binary, kept by upgrade for rollback */
+	BINARY_PREVIOUS: '/usr/local/bin/d9-node.prev',
+	/** Mainnet chain specification file location (see networks.ts for other networks) */
 	CHAIN_SPEC: '/usr/local/bin/new-main-spec.json',
 	/** Systemd service file location */
 	SERVICE_FILE: '/etc/systemd/system/d9-node.service',
+	/** Systemd service file of the watch daemon */
+	WATCH_SERVICE_FILE: '/etc/systemd/system/d9-watch.service',
 	/** Data directory for new installations (dedicated user mode) */
 	DATA_DIR_NEW: '/var/lib/d9-node',
 	/** Legacy data directory for Ubuntu installations */
@@ -24,7 +28,42 @@ export const PATHS = {
 } as const;
 
 /**
- * Chain configuration
+ * Environment variable holding the filesystem root prefix ("chroot mode")
+ */
+export const ROOT_PREFIX_ENV = 'D9_MANAGER_ROOT';
+
+/**
+ * Filesystem root prefix, or '' when D9_MANAGER_ROOT is unset.
+ *
+ * PATHS are the paths the node sees at runtime and are written verbatim
+ * into service files. Everything the manager reads or writes on the host
+ * goes through hostPath(), so with D9_MANAGER_ROOT=/tmp/sandbox a full
+ * install lands under /tmp/sandbox instead of /.
+ */
+export function getRootPrefix(): string {
+	let root: string | undefined;
+	try {
+		root = Deno.env.get(ROOT_PREFIX_ENV);
+	} catch {
+		// No env permission, behave as unset
+	}
+	return root ? root.replace(/\/+$/, '') : '';
+}
+
+/**
+ * Map an absolute path to its location on the host under the root prefix
+ */
+export function hostPath(path: string): string {
+	const root = getRootPrefix();
+	if (!root || !path.startsWith('/') || path === root || path.startsWith(`${root}/`)) {
+		return path;
+	}
+	return `${root}${path}`;
+}
+
+/**
+ * Mainnet chain configuration. Code that depends on the selected network
+ * reads the active profile from networks.ts instead.
  */
 export const CHAIN = {
 	/** Chain identifier */
@@ -43,8 +82,10 @@ export const SERVICE = {
 	USER: 'd9-node',
 	/** System group for service */
 	GROUP: 'd9-node',
-	/** P2P network port */
+	/** Default P2P network port */
 	PORT: 40100,
+	/** Node's default Prometheus metrics port */
+	PROMETHEUS_PORT: 9615,
 } as const;
 
 /**
@@ -59,6 +100,8 @@ export const KEY_TYPES = {
 		type: 'aura',
 		/** Cryptographic scheme */
 		scheme: 'Sr25519',
+		/** Field of the runtime's SessionKeys */
+		sessionKey: 'aura',
 	},
 	/** Grandpa finality key (Ed25519) */
 	GRANDPA: {
@@ -68,6 +111,8 @@ export const KEY_TYPES = {
 		type: 'gran',
 		/** Cryptographic scheme */
 		scheme: 'Ed25519',
+		/** Field of the runtime's SessionKeys */
+		sessionKey: 'grandpa',
 	},
 	/** I'm Online key (Sr25519) */
 	IM_ONLINE: {
@@ -77,6 +122,8 @@ export const KEY_TYPES = {
 		type: 'imon',
 		/** Cryptographic scheme */
 		scheme: 'Sr25519',
+		/** Field of the runtime's SessionKeys */
+		sessionKey: 'imOnline',
 	},
 	/** Authority Discovery key (Sr25519) */
 	AUTHORITY_DISCOVERY: {
@@ -86,6 +133,8 @@ export const KEY_TYPES = {
 		type: 'audi',
 		/** Cryptographic scheme */
 		scheme: 'Sr25519',
+		/** Field of the runtime's SessionKeys */
+		sessionKey: 'authorityDiscovery',
 	},
 } as const;
 
@@ -109,12 +158,30 @@ export const DERIVATION_PATHS = {
 	},
 } as const;
 
+/**
+ * Validator candidacy rules and the d9NodeVoting calls that edit a candidacy
+ */
+export const CANDIDACY = {
+	/** Number of top-voted candidates that make up the validator set */
+	ACTIVE_SET_SIZE: 27,
+	/** Call changing the public node name */
+	CHANGE_NAME_CALL: 'changeCandidateName',
+	/** Call changing the sharing percentage */
+	CHANGE_SHARING_CALL: 'changeCandidateSupporterShare',
+} as const;
+
 /**
  * Network configuration
  */
 export const NETWORK = {
 	/** WebSocket endpoint for D9 mainnet */
 	ENDPOINT: 'wss://mainnet.d9network.com:40300',
+	/** Mainnet endpoints tried in order; the one with the highest finalized block wins */
+	ENDPOINTS: ['ws://127.0.0.1:9944', 'wss://mainnet.d9network.com:40300'],
+	/** Environment variable overriding ENDPOINTS (comma-separated) */
+	ENDPOINTS_ENV: 'D9_RPC_ENDPOINTS',
+	/** Time allowed to connect to and query one endpoint */
+	CONNECT_TIMEOUT_MS: 10000,
 } as const;
 
 /**
@@ -125,14 +192,69 @@ export const URLS = {
 	GITHUB_REPO: 'https://github.com/D-Nine-Chain/d9-node',
 	/** GitHub repository for D9 manager */
 	GITHUB_MANAGER_REPO: 'https://github.com/D-Nine-Chain/d9-manager',
+	/** GitHub API URL for the latest D9 manager release */
+	MANAGER_LATEST_RELEASE_API: 'https://api.github.com/repos/D-Nine-Chain/d9-manager/releases/latest',
 	/** Raw GitHub URL for build script */
 	BUILD_SCRIPT: 'https://raw.githubusercontent.com/D-Nine-Chain/d9-node/main/scripts/build-node.sh',
-	/** Raw GitHub URL for chain spec */
+	/** Raw GitHub URL for the mainnet chain spec */
 	CHAIN_SPEC: 'https://raw.githubusercontent.com/D-Nine-Chain/d9-node/main/new-main-spec.json',
+	/** GitHub API URL for releases (append /tags/<tag> for one release) */
+	RELEASES_API: 'https://api.github.com/repos/D-Nine-Chain/d9-node/releases',
 	/** GitHub API URL for latest release */
 	LATEST_RELEASE_API: 'https://api.github.com/repos/D-Nine-Chain/d9-node/releases/latest',
 } as const;
 
+/**
+ * Process exit codes for subcommands. These are part of the CLI contract
+ * for scripts and monitoring, so existing values must never change.
+ */
+export const EXIT_CODES = {
+	/** Command completed */
+	OK: 0,
+	/** Command failed for an unclassified reason */
+	ERROR: 1,
+	/** Invalid arguments or an option combination that needs a prompt */
+	USAGE: 2,
+	/** Required local resource (keystore, state, service file) is missing */
+	NOT_FOUND: 3,
+	/** Chain RPC endpoint could not be reached */
+	NETWORK: 4,
+	/** Node service is not running */
+	NOT_RUNNING: 5,
+} as const;
+
+/**
+ * Health check (`check`) thresholds and Nagios plugin exit codes
+ */
+export const HEALTH_CHECK = {
+	/** Fewer connected peers is a warning, none is critical */
+	MIN_PEERS: 3,
+	/** Finality lag (blocks) above this is a warning, above twice this critical */
+	MAX_FINALITY_LAG: 20,
+	/** Free disk space (GB) below this is critical; below the node type's minimum a warning */
+	CRITICAL_DISK_GB: 5,
+	/** Nagios plugin exit codes */
+	STATUS: {
+		OK: 0,
+		WARNING: 1,
+		CRITICAL: 2,
+	},
+} as const;
+
+/**
+ * Watch daemon (`watch`) defaults
+ */
+export const WATCH = {
+	/** Systemd service name */
+	SERVICE_NAME: 'd9-watch.service',
+	/** Seconds between polls */
+	INTERVAL: 60,
+	/** Blocks behind the network's highest block before sync raises an alert */
+	MAX_SYNC_LAG: 50,
+	/** Minutes before an unchanged alert is sent again */
+	REPEAT_MINUTES: 360,
+} as const;
+
 /**
  * Helper to get all key types as an array
  */
@@ -0,0 +1,218 @@
+/**
+ * Network profiles.
+ *
+ * A profile bundles everything that differs between D9 networks: the chain
+ * id (which also names the keystore directory), where the chain spec comes
+ * from and where it is installed, the RPC endpoints and the default ports.
+ * One profile is active per process, selected with --network.
+ */
+
+import { CHAIN, NETWORK, PATHS, SERVICE, URLS } from './constants.ts';
+import { parseConfigContent } from '../utils/config-file.ts';
+
+/**
+ * Settings for one D9 network
+ */
+export interface NetworkProfile {
+	/** Profile name shown to the user */
+	name: string;
+	/** Chain id from the chain spec; the node keeps keys under chains/<id>/keystore */
+	chainId: string;
+	/** Where to download the chain spec, or undefined if it is already on the host */
+	chainSpecUrl?: string;
+	/** Value passed to --chain: an installed spec file or a built-in chain name */
+	chainSpecPath: string;
+	/** RPC endpoints in priority order */
+	rpcEndpoints: string[];
+	/** Relative path from a node's base directory to its keystore */
+	keystoreSuffix: string;
+	/** Default P2P port */
+	p2pPort: number;
+	/** RPC port passed to the node, or undefined for the node's default */
+	rpcPort?: number;
+}
+
+/**
+ * Names accepted by --network
+ */
+export const NETWORK_NAMES = ['mainnet', 'custom'] as const;
+
+export type NetworkName = typeof NETWORK_NAMES[number];
+
+/**
+ * RPC port the node listens on when --rpc-port is not given
+ */
+const DEFAULT_RPC_PORT = 9944;
+
+/**
+ * Built-in profiles. Other networks (e.g. a testnet) use --network custom
+ * with a network file, until their chain spec and endpoints are published.
+ */
+export const NETWORK_PROFILES: Record<Exclude<NetworkName, 'custom'>, NetworkProfile> = {
+	mainnet: {
+		name: 'mainnet',
+		chainId: CHAIN.NAME,
+		chainSpecUrl: URLS.CHAIN_SPEC,
+		chainSpecPath: PATHS.CHAIN_SPEC,
+		rpcEndpoints: [...NETWORK.ENDPOINTS],
+		keystoreSuffix: CHAIN.KEYSTORE_SUFFIX,
+		p2pPort: SERVICE.PORT,
+	},
+};
+
+/**
+ * Raised when a custom profile cannot be loaded or is invalid
+ */
+export class NetworkProfileError extends Error {
+	constructor(message: string, public readonly issues: string[] = []) {
+		super(issues.length > 0 ? `${message}:\n  - ${issues.join('\n  - ')}` : message);
+		this.name = 'NetworkProfileError';
+	}
+}
+
+let selectedNetwork: NetworkName = 'mainnet';
+let customProfile: NetworkProfile | null = null;
+
+/**
+ * Select the active network for this process (e.g. from --network)
+ */
+export function selectNetwork(name: NetworkName): void {
+	selectedNetwork = name;
+}
+
+/**
+ * Set the profile used by --network custom
+ */
+export function setCustomNetworkProfile(profile: NetworkProfile): void {
+	customProfile = profile;
+}
+
+/**
+ * The active network profile
+ */
+export function getNetworkProfile(): NetworkProfile {
+	if (selectedNetwork !== 'custom') {
+		return NETWORK_PROFILES[selectedNetwork];
+	}
+	if (!customProfile) {
+		throw new NetworkProfileError('--network custom requires --network-file <file>');
+	}
+	return customProfile;
+}
+
+/**
+ * RPC endpoint of the node managed on this host
+ */
+export function getLocalRpcEndpoint(profile: NetworkProfile = getNetworkProfile()): string {
+	return `ws://127.0.0.1:${profile.rpcPort ?? DEFAULT_RPC_PORT}`;
+}
+
+/**
+ * Validate raw profile data from a network file.
+ *
+ * Only chainId is required. Without chainSpecUrl nothing is downloaded and
+ * chainSpecPath (default: the chain id, for built-in dev chains) is passed
+ * to --chain as is.
+ */
+export function validateNetworkProfile(raw: unknown): NetworkProfile {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new NetworkProfileError('Network file must be a mapping of settings');
+	}
+
+	const data = raw as Record<string, unknown>;
+	const issues: string[] = [];
+
+	const chainId = data.chainId;
+	if (typeof chainId !== 'string' || !/^[A-Za-z0-9_-]+$/.test(chainId)) {
+		issues.push('chainId: required, letters, digits, "_" and "-" only');
+	}
+
+	const name = data.name ?? 'custom';
+	if (typeof name !== 'string' || name.length === 0) {
+		issues.push('name: must be a non-empty string');
+	}
+
+	const chainSpecUrl = data.chainSpecUrl;
+	if (chainSpecUrl !== undefined && (typeof chainSpecUrl !== 'string' || !/^https?:\/\//.test(chainSpecUrl))) {
+		issues.push('chainSpecUrl: must be an http(s) URL');
+	}
+
+	const chainSpecPath = data.chainSpecPath;
+	if (chainSpecPath !== undefined && (typeof chainSpecPath !== 'string' || chainSpecPath.length === 0)) {
+		issues.push('chainSpecPath: must be a path or chain name');
+	} else if (chainSpecUrl !== undefined && typeof chainSpecPath === 'string' && !chainSpecPath.startsWith('/')) {
+		issues.push('chainSpecPath: must be an absolute path when chainSpecUrl is set');
+	}
+
+	const rpcEndpoints = data.rpcEndpoints;
+	if (
+		rpcEndpoints !== undefined &&
+		(!Array.isArray(rpcEndpoints) || rpcEndpoints.length === 0 ||
+			!rpcEndpoints.every((endpoint) => typeof endpoint === 'string' && /^wss?:\/\//.test(endpoint)))
+	) {
+		issues.push('rpcEndpoints: must be a non-empty list of ws:// or wss:// URLs');
+	}
+
+	const keystoreSuffix = data.keystoreSuffix;
+	if (keystoreSuffix !== undefined && (typeof keystoreSuffix !== 'string' || keystoreSuffix.startsWith('/'))) {
+		issues.push('keystoreSuffix: must be a path relative to the base directory');
+	}
+
+	for (const key of ['p2pPort', 'rpcPort']) {
+		const port = data[key];
+		if (port !== undefined && (!Number.isInteger(port) || (port as number) < 1024 || (port as number) > 65535)) {
+			issues.push(`${key}: must be an integer between 1024 and 65535`);
+		}
+	}
+
+	const known = ['name', 'chainId', 'chainSpecUrl', 'chainSpecPath', 'rpcEndpoints', 'keystoreSuffix', 'p2pPort', 'rpcPort'];
+	for (const key of Object.keys(data)) {
+		if (!known.includes(key)) {
+			issues.push(`${key}: unknown setting`);
+		}
+	}
+
+	if (issues.length > 0) {
+		throw new NetworkProfileError('Invalid network file', issues);
+	}
+
+	const id = chainId as string;
+	const rpcPort = data.rpcPort as number | undefined;
+	const profile: NetworkProfile = {
+		name: name as string,
+		chainId: id,
+		chainSpecUrl: chainSpecUrl as string | undefined,
+		chainSpecPath: (chainSpecPath as string | undefined) ??
+			(chainSpecUrl ? `/usr/local/bin/${id}-spec.json` : id),
+		rpcEndpoints: [],
+		keystoreSuffix: (keystoreSuffix as string | undefined) ?? `chains/${id}/keystore`,
+		p2pPort: (data.p2pPort as number | undefined) ?? SERVICE.PORT,
+		rpcPort,
+	};
+	profile.rpcEndpoints = (rpcEndpoints as string[] | undefined) ?? [getLocalRpcEndpoint(profile)];
+
+	return profile;
+}
+
+/**
+ * Read, parse and validate a network file (YAML, TOML or JSON)
+ */
+export function loadNetworkProfile(path: string): NetworkProfile {
+	let content: string;
+	try {
+		content = Deno.readTextFileSync(path);
+	} catch (error) {
+		throw new NetworkProfileError(
+			`Cannot read network file ${path}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+
+	try {
+		return validateNetworkProfile(parseConfigContent(content, path));
+	} catch (error) {
+		if (error instanceof NetworkProfileError) {
+			throw error;
+		}
+		throw new NetworkProfileError(error instanceof Error ? error.message : String(error));
+	}
+}
@@ -0,0 +1,192 @@
+/**
+ * Configuration of the watch daemon.
+ *
+ * A YAML, TOML or JSON file holding the poll settings and the notifiers.
+ * It lives in a file rather than in flags because notifier settings include
+ * secrets (bot tokens, SMTP passwords) that must not show up in the process
+ * list or the systemd unit.
+ */
+
+import { HEALTH_CHECK, WATCH } from './constants.ts';
+import { parseConfigContent } from '../utils/config-file.ts';
+import { NotifierSettings } from '../utils/notifiers.ts';
+
+export interface WatchConfig {
+	/** Seconds between polls */
+	interval: number;
+	/** Fewer connected peers raises an alert */
+	minPeers: number;
+	/** Blocks behind the network's highest block before sync raises an alert */
+	maxSyncLag: number;
+	/** Minutes before an unchanged alert is sent again, 0 for never */
+	repeatMinutes: number;
+	notifiers: NotifierSettings[];
+}
+
+/**
+ * Raised when a watch config cannot be loaded or is invalid
+ */
+export class WatchConfigError extends Error {
+	constructor(message: string, public readonly issues: string[] = []) {
+		super(issues.length > 0 ? `${message}:\n  - ${issues.join('\n  - ')}` : message);
+		this.name = 'WatchConfigError';
+	}
+}
+
+const SMTP_SECURITY = ['tls', 'starttls', 'none'] as const;
+
+/**
+ * Validate raw watch config data
+ */
+export function validateWatchConfig(raw: unknown): WatchConfig {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new WatchConfigError('Watch config must be a mapping of settings');
+	}
+
+	const data = raw as Record<string, unknown>;
+	const issues: string[] = [];
+
+	const interval = data.interval ?? WATCH.INTERVAL;
+	if (!Number.isInteger(interval) || (interval as number) < 10) {
+		issues.push('interval: must be an integer of at least 10 seconds');
+	}
+
+	for (const key of ['minPeers', 'maxSyncLag', 'repeatMinutes']) {
+		const value = data[key];
+		if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+			issues.push(`${key}: must be a non-negative integer`);
+		}
+	}
+
+	const notifiers = data.notifiers;
+	if (!Array.isArray(notifiers) || notifiers.length === 0) {
+		issues.push('notifiers: must be a non-empty list');
+	} else {
+		notifiers.forEach((entry, index) => issues.push(...validateNotifier(entry, `notifiers[${index}]`)));
+	}
+
+	const known = ['interval', 'minPeers', 'maxSyncLag', 'repeatMinutes', 'notifiers'];
+	for (const key of Object.keys(data)) {
+		if (!known.includes(key)) {
+			issues.push(`${key}: unknown setting`);
+		}
+	}
+
+	if (issues.length > 0) {
+		throw new WatchConfigError('Invalid watch config', issues);
+	}
+
+	return {
+		interval: interval as number,
+		minPeers: (data.minPeers as number | undefined) ?? HEALTH_CHECK.MIN_PEERS,
+		maxSyncLag: (data.maxSyncLag as number | undefined) ?? WATCH.MAX_SYNC_LAG,
+		repeatMinutes: (data.repeatMinutes as number | undefined) ?? WATCH.REPEAT_MINUTES,
+		notifiers: notifiers as NotifierSettings[],
+	};
+}
+
+/**
+ * Issues with one notifier entry
+ */
+function validateNotifier(raw: unknown, path: string): string[] {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		return [`${path}: must be a mapping`];
+	}
+
+	const entry = raw as Record<string, unknown>;
+	const issues: string[] = [];
+	const requireString = (key: string) => {
+		if (typeof entry[key] !== 'string' || (entry[key] as string).length === 0) {
+			issues.push(`${path}.${key}: required non-empty string`);
+		}
+	};
+	const requireUrl = (key: string) => {
+		if (typeof entry[key] !== 'string' || !/^https?:\/\//.test(entry[key] as string)) {
+			issues.push(`${path}.${key}: must be an http:// or https:// URL`);
+		}
+	};
+
+	let known: string[];
+	switch (entry.type) {
+		case 'webhook':
+			requireUrl('url');
+			if (
+				entry.headers !== undefined &&
+				(typeof entry.headers !== 'object' || entry.headers === null ||
+					!Object.values(entry.headers).every((value) => typeof value === 'string'))
+			) {
+				issues.push(`${path}.headers: must be a mapping of header names to strings`);
+			}
+			known = ['type', 'url', 'headers'];
+			break;
+		case 'telegram':
+			requireString('botToken');
+			// Numeric chat ids are common in YAML; the Bot API takes either form
+			if (typeof entry.chatId === 'number') {
+				entry.chatId = String(entry.chatId);
+			}
+			requireString('chatId');
+			if (entry.apiUrl !== undefined) {
+				requireUrl('apiUrl');
+			}
+			known = ['type', 'botToken', 'chatId', 'apiUrl'];
+			break;
+		case 'smtp':
+			requireString('host');
+			requireString('from');
+			if (!Number.isInteger(entry.port) || (entry.port as number) < 1 || (entry.port as number) > 65535) {
+				issues.push(`${path}.port: must be an integer between 1 and 65535`);
+			}
+			if (!SMTP_SECURITY.includes(entry.security as typeof SMTP_SECURITY[number])) {
+				issues.push(`${path}.security: must be one of ${SMTP_SECURITY.join(', ')}`);
+			}
+			if (typeof entry.to === 'string') {
+				entry.to = [entry.to];
+			}
+			if (!Array.isArray(entry.to) || entry.to.length === 0 || !entry.to.every((address) => typeof address === 'string')) {
+				issues.push(`${path}.to: must be an address or a list of addresses`);
+			}
+			if (entry.username !== undefined) {
+				requireString('username');
+				requireString('password');
+				// AUTH PLAIN sends the password as base64, readable by anyone on the path
+				if (entry.security === 'none') {
+					issues.push(`${path}.username: credentials are only sent over tls or starttls, not security none`);
+				}
+			}
+			known = ['type', 'host', 'port', 'security', 'username', 'password', 'from', 'to'];
+			break;
+		default:
+			return [`${path}.type: must be one of webhook, telegram, smtp`];
+	}
+
+	for (const key of Object.keys(entry)) {
+		if (!known.includes(key)) {
+			issues.push(`${path}.${key}: unknown setting`);
+		}
+	}
+	return issues;
+}
+
+/**
+ * Read, parse and validate a watch config file (YAML, TOML or JSON)
+ */
+export async function loadWatchConfig(path: string): Promise<WatchConfig> {
+	let content: string;
+	try {
+		content = await Deno.readTextFile(path);
+	} catch (error) {
+		throw new WatchConfigError(
+			`Cannot read watch config ${path}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+
+	try {
+		return validateWatchConfig(parseConfigContent(content, path));
+	} catch (error) {
+		if (error instanceof WatchConfigError) {
+			throw error;
+		}
+		throw new WatchConfigError(error instanceof Error ? error.message : String(error));
+	}
+}
@@ -0,0 +1,109 @@
+/**
+ * Operation registry for rebuilding operations from persisted state.
+ *
+ * TransactionManager stores each step's operation as { type, params }.
+ * After a crash or reboot a fresh process uses this registry to turn those
+ * records back into executable Operation objects and continue the transaction.
+ */
+
+import { CompositeOperation, NoOpOperation, Operation, SerializedOperation } from './operations.ts';
+import {
+  CreateDirectoryOperation,
+  CreateServiceFileOperation,
+  CreateUserOperation,
+  DownloadFileOperation,
+  EnableServiceOperation,
+  InstallPackagesOperation,
+  StartServiceOperation,
+} from './system-operations.ts';
+
+/**
+ * Builds an operation from its persisted parameters
+ */
+export type OperationFactory = (params: Record<string, unknown>, registry: OperationRegistry) => Operation;
+
+/**
+ * Maps operation types to factories
+ */
+export class OperationRegistry {
+  private factories: Map<string, OperationFactory> = new Map();
+
+  /**
+   * Register a factory for an operation type
+   */
+  register(type: string, factory: OperationFactory): this {
+    this.factories.set(type, factory);
+    return this;
+  }
+
+  /**
+   * Check whether an operation type can be rebuilt
+   */
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  /**
+   * Convert an operation to its persistable form
+   */
+  serialize(operation: Operation): SerializedOperation {
+    if (!this.has(operation.type)) {
+      throw new Error(`Operation type not registered: ${operation.type}`);
+    }
+
+    return { type: operation.type, params: operation.getParams() };
+  }
+
+  /**
+   * Rebuild an operation from its persisted form
+   */
+  deserialize(serialized: SerializedOperation): Operation {
+    const factory = this.factories.get(serialized.type);
+    if (!factory) {
+      throw new Error(`Operation type not registered: ${serialized.type}`);
+    }
+
+    return factory(serialized.params, this);
+  }
+}
+
+/**
+ * Create a registry that knows all built-in operations
+ */
+export function createDefaultOperationRegistry(): OperationRegistry {
+  return new OperationRegistry()
+    .register('create_directory', (p) =>
+      new CreateDirectoryOperation(p.path as string, p.owner as string | undefined, p.permissions as string | undefined)
+    )
+    .register('create_user', (p) =>
+      new CreateUserOperation(
+        p.username as string,
+        (p.options ?? {}) as ConstructorParameters<typeof CreateUserOperation>[1]
+      )
+    )
+    .register('download_file', (p) =>
+      new DownloadFileOperation(p.url as string, p.destination as string, p.expectedHash as string | undefined)
+    )
+    .register('install_packages', (p) => new InstallPackagesOperation(p.packages as string[]))
+    .register('create_service', (p) =>
+      new CreateServiceFileOperation(
+        p.serviceName as string,
+        p.serviceContent as string,
+        p.serviceFilePath as string
+      )
+    )
+    .register('enable_service', (p) => new EnableServiceOperation(p.serviceName as string))
+    .register('start_service', (p) => new StartServiceOperation(p.serviceName as string))
+    .register('noop', (p) => new NoOpOperation(p.description as string | undefined))
+    .register('composite', (p, registry) =>
+      new CompositeOperation(
+        p.description as string,
+        (p.operations as SerializedOperation[]).map((op) => registry.deserialize(op))
+      )
+    );
+}
+
+/**
+ * Shared registry used by TransactionManager unless another is injected
+ */
+export const defaultOperationRegistry = createDefaultOperationRegistry();
@@ -15,6 +15,25 @@ export interface OperationResult<T = void> {
 	context?: Record<string, unknown>;
 }
 
+/**
+ * What an operation would do, for dry runs
+ */
+export interface OperationPreview {
+	/** Shell commands execute() would run, in order */
+	commands: string[];
+	/** Unified diff of any file the operation would write */
+	diff?: string;
+}
+
+/**
+ * Persistable form of an operation: its type plus constructor parameters.
+ * Stored with the installation state so a new process can rebuild it.
+ */
+export interface SerializedOperation {
+	type: string;
+	params: Record<string, unknown>;
+}
+
 /**
  * Base interface for reversible operations
  */
@@ -48,6 +67,18 @@ export interface Operation<T = void> {
 	 * @returns true if the operation would have no effect (already done)
 	 */
 	isAlreadyDone(): Promise<boolean>;
+
+	/**
+	 * Constructor parameters needed to rebuild this operation in a new process
+	 * @returns JSON-serializable parameters understood by the operation registry
+	 */
+	getParams(): Record<string, unknown>;
+
+	/**
+	 * Describe the changes execute() would make without making them
+	 * @returns Commands that would run and any file diff
+	 */
+	preview(): Promise<OperationPreview>;
 }
 
 /**
@@ -64,6 +95,7 @@ export abstract class BaseOperation<T = void> implements Operation<T> {
 
 	abstract execute(): Promise<OperationResult<T>>;
 	abstract rollback(): Promise<OperationResult<void>>;
+	abstract getParams(): Record<string, unknown>;
 
 	async validate(): Promise<OperationResult<boolean>> {
 		return { success: true, value: true };
@@ -73,6 +105,19 @@ export abstract class BaseOperation<T = void> implements Operation<T> {
 		return false;
 	}
 
+	preview(): Promise<OperationPreview> {
+		return Promise.resolve({ commands: [] });
+	}
+
+	/**
+	 * Treat the operation as executed by an earlier run, so rollback() undoes
+	 * its effect on the host (uninstall reverses a finished installation this way)
+	 */
+	markExecuted(): this {
+		this.executionState.executed = true;
+		return this;
+	}
+
 	/**
 	 * Helper to create success result
 	 */
@@ -158,6 +203,21 @@ export class CompositeOperation extends BaseOperation<void> {
 		}
 		return this.successResult();
 	}
+
+	override async preview(): Promise<OperationPreview> {
+		const previews = await Promise.all(this.operations.map((op) => op.preview()));
+		return {
+			commands: previews.flatMap((preview) => preview.commands),
+			diff: previews.map((preview) => preview.diff).filter(Boolean).join('\n') || undefined,
+		};
+	}
+
+	getParams(): Record<string, unknown> {
+		return {
+			description: this.description,
+			operations: this.operations.map((op): SerializedOperation => ({ type: op.type, params: op.getParams() })),
+		};
+	}
 }
 
 /**
@@ -183,4 +243,8 @@ export class NoOpOperation extends BaseOperation<void> {
 	override async isAlreadyDone(): Promise<boolean> {
 		return true;
 	}
+
+	getParams(): Record<string, unknown> {
+		return { description: this.description };
+	}
 }
@@ -0,0 +1,74 @@
+/**
+ * Dry-run planning for setup and conversion.
+ *
+ * A plan lists every step a flow would take, with the commands it would run,
+ * the diff of any file it would write and, for transactional operations,
+ * the result of validate() and isAlreadyDone(). Nothing is executed.
+ */
+
+import { Operation } from './operations.ts';
+
+/**
+ * One step of a plan
+ */
+export interface PlanStep {
+  description: string;
+  commands: string[];
+  diff?: string;
+  /** validate() result, for transactional operations */
+  validation?: { ok: boolean; error?: string };
+  /** isAlreadyDone() result, for transactional operations */
+  alreadyDone?: boolean;
+}
+
+/**
+ * Evaluate operations without executing them
+ */
+export async function planOperations(operations: Operation[]): Promise<PlanStep[]> {
+  const steps: PlanStep[] = [];
+
+  for (const operation of operations) {
+    const validation = await operation.validate();
+    const alreadyDone = await operation.isAlreadyDone();
+    const preview = await operation.preview();
+
+    steps.push({
+      description: operation.description,
+      commands: preview.commands,
+      diff: preview.diff,
+      validation: { ok: validation.success && validation.value !== false, error: validation.error },
+      alreadyDone,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Print a plan for humans
+ */
+export function printPlan(steps: PlanStep[]): void {
+  console.log('\n📝 Plan (nothing will be executed)');
+  console.log('─'.repeat(40));
+
+  steps.forEach((step, idx) => {
+    console.log(`\n${idx + 1}. ${step.description}`);
+
+    if (step.validation) {
+      console.log(
+        `   validate: ${step.validation.ok ? '✅ ok' : `❌ ${step.validation.error ?? 'failed'}`}`
+      );
+    }
+    if (step.alreadyDone !== undefined) {
+      console.log(`   already done: ${step.alreadyDone ? 'yes (would be skipped)' : 'no'}`);
+    }
+
+    for (const command of step.commands) {
+      console.log(`   $ ${command}`);
+    }
+
+    if (step.diff) {
+      console.log(step.diff.split('\n').map((line) => `   ${line}`).join('\n'));
+    }
+  });
+}
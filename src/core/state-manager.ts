@@ -6,6 +6,8 @@
  */
 
 import { Messages } from '../types.ts';
+import { SerializedOperation } from './operations.ts';
+import { hostPath } from '../config/constants.ts';
 
 export interface InstallationStep {
 	id: string;
@@ -14,6 +16,8 @@ export interface InstallationStep {
 	timestamp?: string;
 	error?: string;
 	metadata?: Record<string, unknown>;
+	/** Operation to run for this step, persisted so it can be rebuilt on resume */
+	operation?: SerializedOperation;
 }
 
 export interface InstallationState {
@@ -37,12 +41,12 @@ export interface InstallationState {
 /**
  * Get XDG-compliant config directory for state files
  */
-function getConfigDir(): string {
+export function getConfigDir(): string {
 	const home = Deno.env.get('HOME');
 	if (!home) {
 		throw new Error('HOME environment variable not set');
 	}
-	return `${home}/.config/d9-manager`;
+	return hostPath(`${home}/.config/d9-manager`);
 }
 
 const STATE_FILE_PATH = `${getConfigDir()}/state.json`;
@@ -216,6 +220,27 @@ export class InstallationStateManager {
 		await this.saveState();
 	}
 
+	/**
+	 * Return a step to pending after its operation was rolled back, so the
+	 * next run executes it again
+	 */
+	async resetStep(stepId: string): Promise<void> {
+		if (!this.state) {
+			throw new Error('State not initialized');
+		}
+
+		const step = this.state.steps.find((s) => s.id === stepId);
+		if (!step) {
+			throw new Error(`Step not found: ${stepId}`);
+		}
+
+		step.status = 'pending';
+		step.timestamp = new Date().toISOString();
+		step.metadata = { ...step.metadata, rolledBackAt: step.timestamp };
+
+		await this.saveState();
+	}
+
 	/**
 	 * Update configuration values
 	 */
@@ -248,14 +273,16 @@ export class InstallationStateManager {
 	}
 
 	/**
-	 * Get steps that need to be executed (pending or failed)
+	 * Get steps that need to be executed (pending, failed, or interrupted while in progress)
 	 */
 	getPendingSteps(): InstallationStep[] {
 		if (!this.state) {
 			return [];
 		}
 
-		return this.state.steps.filter((step) => step.status === 'pending' || step.status === 'failed');
+		return this.state.steps.filter(
+			(step) => step.status === 'pending' || step.status === 'failed' || step.status === 'in_progress'
+		);
 	}
 
 	/**
@@ -289,10 +316,11 @@ export class InstallationStateManager {
 			return false;
 		}
 
-		const hasCompletedSteps = this.getCompletedSteps().length > 0;
+		// A failed step counts as progress: after a rollback nothing is completed any more
+		const hasStarted = this.state.steps.some((step) => step.status !== 'pending');
 		const hasPendingSteps = this.getPendingSteps().length > 0;
 
-		return hasCompletedSteps && hasPendingSteps;
+		return hasStarted && hasPendingSteps;
 	}
 
 	/**
@@ -9,8 +9,10 @@
  * - Service management
  */
 
-import { BaseOperation, OperationResult } from './operations.ts';
-import { executeCommand } from '../utils/system.ts';
+import { BaseOperation, OperationPreview, OperationResult } from './operations.ts';
+import { executeCommand, formatCommand } from '../utils/system.ts';
+import { unifiedDiff } from '../utils/diff.ts';
+import { getRootPrefix, hostPath } from '../config/constants.ts';
 
 /**
  * Creates a directory with specified permissions
@@ -31,13 +33,13 @@ export class CreateDirectoryOperation extends BaseOperation<void> {
   async execute(): Promise<OperationResult<void>> {
     try {
       // Create directory
-      await Deno.mkdir(this.path, { recursive: true });
+      await Deno.mkdir(hostPath(this.path), { recursive: true });
       this.executionState.executed = true;
       this.executionState.previousState = { existed: false };
 
       // Set ownership if specified
       if (this.owner) {
-        const result = await executeCommand('sudo', ['chown', '-R', this.owner, this.path]);
+        const result = await executeCommand('sudo', ['chown', '-R', this.owner, hostPath(this.path)]);
         if (!result.success) {
           throw new Error(`Failed to set ownership: ${result.error}`);
         }
@@ -45,7 +47,7 @@ export class CreateDirectoryOperation extends BaseOperation<void> {
 
       // Set permissions if specified
       if (this.permissions) {
-        const result = await executeCommand('sudo', ['chmod', this.permissions, this.path]);
+        const result = await executeCommand('sudo', ['chmod', this.permissions, hostPath(this.path)]);
         if (!result.success) {
           throw new Error(`Failed to set permissions: ${result.error}`);
         }
@@ -66,7 +68,7 @@ export class CreateDirectoryOperation extends BaseOperation<void> {
       // Only remove if we created it
       const previousState = this.executionState.previousState as { existed: boolean } | undefined;
       if (previousState?.existed === false) {
-        await executeCommand('sudo', ['rm', '-rf', this.path]);
+        await executeCommand('sudo', ['rm', '-rf', hostPath(this.path)]);
       }
       return this.successResult();
     } catch (error) {
@@ -74,15 +76,32 @@ export class CreateDirectoryOperation extends BaseOperation<void> {
     }
   }
 
+  override markExecuted(): this {
+    // An installation that created the directory owns it
+    this.executionState.previousState = { existed: false };
+    return super.markExecuted();
+  }
+
   override async isAlreadyDone(): Promise<boolean> {
     try {
-      const stat = await Deno.stat(this.path);
+      const stat = await Deno.stat(hostPath(this.path));
       this.executionState.previousState = { existed: true };
       return stat.isDirectory;
     } catch {
       return false;
     }
   }
+
+  override preview(): Promise<OperationPreview> {
+    const commands = [formatCommand('mkdir', ['-p', hostPath(this.path)])];
+    if (this.owner) commands.push(formatCommand('sudo', ['chown', '-R', this.owner, hostPath(this.path)]));
+    if (this.permissions) commands.push(formatCommand('sudo', ['chmod', this.permissions, hostPath(this.path)]));
+    return Promise.resolve({ commands });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { path: this.path, owner: this.owner, permissions: this.permissions };
+  }
 }
 
 /**
@@ -143,6 +162,19 @@ export class CreateUserOperation extends BaseOperation<void> {
     const result = await executeCommand('id', [this.username]);
     return result.success;
   }
+
+  override preview(): Promise<OperationPreview> {
+    const args = ['useradd'];
+    if (this.options.system) args.push('--system');
+    if (this.options.noCreateHome) args.push('--no-create-home');
+    if (this.options.shell) args.push('--shell', this.options.shell);
+    args.push(this.username);
+    return Promise.resolve({ commands: [formatCommand('sudo', args)] });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { username: this.username, options: this.options };
+  }
 }
 
 /**
@@ -164,14 +196,14 @@ export class DownloadFileOperation extends BaseOperation<void> {
   async execute(): Promise<OperationResult<void>> {
     try {
       // Download file
-      const downloadResult = await executeCommand('wget', ['-O', this.destination, this.url]);
+      const downloadResult = await executeCommand('wget', ['-O', hostPath(this.destination), this.url]);
       if (!downloadResult.success) {
         throw new Error(`Download failed: ${downloadResult.error}`);
       }
 
       // Verify hash if provided
       if (this.expectedHash) {
-        const hashResult = await executeCommand('sha256sum', [this.destination]);
+        const hashResult = await executeCommand('sha256sum', [hostPath(this.destination)]);
         if (!hashResult.success) {
           throw new Error('Failed to verify file integrity');
         }
@@ -195,7 +227,7 @@ export class DownloadFileOperation extends BaseOperation<void> {
     }
 
     try {
-      await Deno.remove(this.destination);
+      await Deno.remove(hostPath(this.destination));
       return this.successResult();
     } catch (error) {
       return this.errorResult(`Rollback failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -204,12 +236,22 @@ export class DownloadFileOperation extends BaseOperation<void> {
 
   override async isAlreadyDone(): Promise<boolean> {
     try {
-      const stat = await Deno.stat(this.destination);
+      const stat = await Deno.stat(hostPath(this.destination));
       return stat.isFile;
     } catch {
       return false;
     }
   }
+
+  override preview(): Promise<OperationPreview> {
+    const commands = [formatCommand('wget', ['-O', hostPath(this.destination), this.url])];
+    if (this.expectedHash) commands.push(formatCommand('sha256sum', [hostPath(this.destination)]));
+    return Promise.resolve({ commands });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { url: this.url, destination: this.destination, expectedHash: this.expectedHash };
+  }
 }
 
 /**
@@ -262,6 +304,14 @@ export class InstallPackagesOperation extends BaseOperation<void> {
     }
     return true;
   }
+
+  override preview(): Promise<OperationPreview> {
+    return Promise.resolve({ commands: [formatCommand('sudo', ['apt', 'install', '-y', '-qq', ...this.packages])] });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { packages: this.packages };
+  }
 }
 
 /**
@@ -286,8 +336,12 @@ export class CreateServiceFileOperation extends BaseOperation<void> {
       const tempFile = `/tmp/${this.serviceName}.service`;
       await Deno.writeTextFile(tempFile, this.serviceContent);
 
-      // Move to systemd directory
-      const moveResult = await executeCommand('sudo', ['mv', tempFile, this.serviceFilePath]);
+      // Move to systemd directory, which may not exist yet under a root prefix
+      const target = hostPath(this.serviceFilePath);
+      if (getRootPrefix()) {
+        await Deno.mkdir(target.slice(0, target.lastIndexOf('/')), { recursive: true });
+      }
+      const moveResult = await executeCommand('sudo', ['mv', tempFile, target]);
       if (!moveResult.success) {
         throw new Error(`Failed to install service file: ${moveResult.error}`);
       }
@@ -312,7 +366,7 @@ export class CreateServiceFileOperation extends BaseOperation<void> {
 
     try {
       // Remove service file
-      await executeCommand('sudo', ['rm', this.serviceFilePath]);
+      await executeCommand('sudo', ['rm', hostPath(this.serviceFilePath)]);
 
       // Reload systemd
       await executeCommand('sudo', ['systemctl', 'daemon-reload']);
@@ -325,12 +379,38 @@ export class CreateServiceFileOperation extends BaseOperation<void> {
 
   override async isAlreadyDone(): Promise<boolean> {
     try {
-      await Deno.stat(this.serviceFilePath);
+      await Deno.stat(hostPath(this.serviceFilePath));
       return true;
     } catch {
       return false;
     }
   }
+
+  override async preview(): Promise<OperationPreview> {
+    let current = '';
+    try {
+      current = await Deno.readTextFile(hostPath(this.serviceFilePath));
+    } catch {
+      // Service file does not exist yet, diff against empty content
+    }
+
+    return {
+      commands: [
+        `write /tmp/${this.serviceName}.service`,
+        formatCommand('sudo', ['mv', `/tmp/${this.serviceName}.service`, hostPath(this.serviceFilePath)]),
+        formatCommand('sudo', ['systemctl', 'daemon-reload']),
+      ],
+      diff: unifiedDiff(current, this.serviceContent, hostPath(this.serviceFilePath), hostPath(this.serviceFilePath)) || undefined,
+    };
+  }
+
+  getParams(): Record<string, unknown> {
+    return {
+      serviceName: this.serviceName,
+      serviceContent: this.serviceContent,
+      serviceFilePath: this.serviceFilePath,
+    };
+  }
 }
 
 /**
@@ -377,6 +457,14 @@ export class EnableServiceOperation extends BaseOperation<void> {
     const result = await executeCommand('systemctl', ['is-enabled', this.serviceName]);
     return result.success && result.output.trim() === 'enabled';
   }
+
+  override preview(): Promise<OperationPreview> {
+    return Promise.resolve({ commands: [formatCommand('sudo', ['systemctl', 'enable', this.serviceName])] });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { serviceName: this.serviceName };
+  }
 }
 
 /**
@@ -422,4 +510,12 @@ export class StartServiceOperation extends BaseOperation<void> {
     const result = await executeCommand('systemctl', ['is-active', this.serviceName]);
     return result.success && result.output.trim() === 'active';
   }
+
+  override preview(): Promise<OperationPreview> {
+    return Promise.resolve({ commands: [formatCommand('sudo', ['systemctl', 'start', this.serviceName])] });
+  }
+
+  getParams(): Record<string, unknown> {
+    return { serviceName: this.serviceName };
+  }
 }
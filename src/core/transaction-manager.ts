@@ -9,7 +9,8 @@
  */
 
 import { Operation, OperationResult } from './operations.ts';
-import { InstallationStateManager, InstallationStep } from './state-manager.ts';
+import { InstallationState, InstallationStateManager, InstallationStep } from './state-manager.ts';
+import { defaultOperationRegistry, OperationRegistry } from './operation-registry.ts';
 import { Messages } from '../types.ts';
 
 export interface TransactionOptions {
@@ -40,7 +41,8 @@ export class TransactionManager {
 
   constructor(
     private readonly messages: Messages,
-    stateFilePath?: string
+    stateFilePath?: string,
+    private readonly registry: OperationRegistry = defaultOperationRegistry
   ) {
     this.stateManager = new InstallationStateManager(messages, stateFilePath);
   }
@@ -56,6 +58,7 @@ export class TransactionManager {
     const steps = operations.map((op) => ({
       id: `${op.type}-${Date.now()}-${Math.random().toString(36).substring(7)}`,
       description: op.description,
+      operation: this.registry.serialize(op),
     }));
 
     // Store operation references
@@ -77,11 +80,30 @@ export class TransactionManager {
   }
 
   /**
-   * Load existing transaction state for resume
+   * Load existing transaction state for resume, rebuilding its operations
    */
   async loadExisting(): Promise<boolean> {
     const state = await this.stateManager.loadState();
-    return state !== null;
+    if (!state) {
+      return false;
+    }
+
+    this.rehydrateOperations(state);
+    return true;
+  }
+
+  /**
+   * Rebuild operations for steps that still need to run from their persisted form
+   */
+  private rehydrateOperations(state: InstallationState): void {
+    this.operations.clear();
+
+    for (const step of state.steps) {
+      if (!step.operation) {
+        continue;
+      }
+      this.operations.set(step.id, this.registry.deserialize(step.operation));
+    }
   }
 
   /**
@@ -170,6 +192,9 @@ export class TransactionManager {
               .replace('%s', rollbackError instanceof Error ? rollbackError.message : String(rollbackError))
           );
         }
+        // Undone (or possibly half-undone) steps must run again on resume;
+        // isAlreadyDone() then skips whatever the rollback left in place
+        await this.stateManager.resetStep(step.id);
       }
 
       console.log(this.messages.transaction.stateSaved);
@@ -198,6 +223,8 @@ export class TransactionManager {
       throw new Error(this.messages.transaction.cannotResume);
     }
 
+    this.rehydrateOperations(state);
+
     console.log(this.messages.transaction.resuming);
     this.stateManager.displayProgress();
 
@@ -5,6 +5,8 @@
  * unrepresentable through discriminated unions.
  */
 
+import { getNetworkProfile } from '../config/networks.ts';
+
 /**
  * Installation mode discriminated union
  */
@@ -184,7 +186,7 @@ export function getModeCapabilities(mode: InstallationMode): ModeCapabilities {
  * Get keystore path for a mode
  */
 export function getKeystorePath(mode: InstallationMode): string {
-  return `${mode.dataDirectory}/chains/d9_main/keystore`;
+  return `${mode.dataDirectory}/${getNetworkProfile().keystoreSuffix}`;
 }
 
 /**
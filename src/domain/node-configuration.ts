@@ -58,6 +58,12 @@ export interface NodeConfiguration {
   // Network
   port: number;
   chainSpec: string;
+  /** RPC port, or undefined for the node's default */
+  rpcPort?: number;
+  /** Prometheus metrics port, or undefined for the node's default */
+  prometheusPort?: number;
+  /** Serve metrics on all interfaces instead of localhost only */
+  prometheusExternal?: boolean;
 
   // Paths
   binaryPath: string;
@@ -89,6 +95,9 @@ export class NodeConfigurationFactory {
     port?: number;
     chainSpec?: string;
     binaryPath?: string;
+    rpcPort?: number;
+    prometheusPort?: number;
+    prometheusExternal?: boolean;
   }): NodeConfiguration {
     return new NodeConfigurationImpl(
       params.name,
@@ -96,7 +105,10 @@ export class NodeConfigurationFactory {
       this.createNodeType(params.nodeType),
       params.port || 40100,
       params.chainSpec || '/usr/local/bin/new-main-spec.json',
-      params.binaryPath || '/usr/local/bin/d9-node'
+      params.binaryPath || '/usr/local/bin/d9-node',
+      params.rpcPort,
+      params.prometheusPort,
+      params.prometheusExternal ?? false
     );
   }
 
@@ -137,7 +149,10 @@ class NodeConfigurationImpl implements NodeConfiguration {
     public readonly nodeType: NodeType,
     public readonly port: number,
     public readonly chainSpec: string,
-    public readonly binaryPath: string
+    public readonly binaryPath: string,
+    public readonly rpcPort?: number,
+    public readonly prometheusPort?: number,
+    public readonly prometheusExternal: boolean = false
   ) {}
 
   get dataDirectory(): string {
@@ -165,6 +180,9 @@ class NodeConfigurationImpl implements NodeConfiguration {
     if (this.port < 1024 || this.port > 65535) {
       return false;
     }
+    if (this.prometheusPort !== undefined && (this.prometheusPort < 1024 || this.prometheusPort > 65535)) {
+      return false;
+    }
 
     // Path validation
     if (!this.binaryPath || !this.chainSpec) {
@@ -185,6 +203,17 @@ class NodeConfigurationImpl implements NodeConfiguration {
       '--port', this.port.toString(),
     ];
 
+    if (this.rpcPort !== undefined) {
+      args.push('--rpc-port', this.rpcPort.toString());
+    }
+
+    if (this.prometheusPort !== undefined) {
+      args.push('--prometheus-port', this.prometheusPort.toString());
+    }
+    if (this.prometheusExternal) {
+      args.push('--prometheus-external');
+    }
+
     // Add node type specific flags
     switch (this.nodeType.type) {
       case 'validator':
@@ -260,7 +289,7 @@ export interface NodeTypeRequirements {
 /**
  * Get requirements for a node type
  */
-export function getNodeTypeRequirements(nodeType: NodeType): NodeTypeRequirements {
+export function getNodeTypeRequirements(nodeType: Pick<NodeType, 'type'>): NodeTypeRequirements {
   switch (nodeType.type) {
     case 'full':
       return {
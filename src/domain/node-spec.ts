@@ -0,0 +1,202 @@
+/**
+ * Declarative node specification for unattended installs.
+ *
+ * A spec file (YAML, TOML or JSON) describes everything the setup wizard
+ * would otherwise ask for. It is validated against the same factories the
+ * wizard uses, so an invalid spec fails before the host is touched.
+ */
+
+import { parseConfigContent } from '../utils/config-file.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+import { InstallationModeFactory } from './installation-mode.ts';
+import { NodeConfiguration, NodeConfigurationFactory } from './node-configuration.ts';
+
+/**
+ * Key strategy for a spec-driven install
+ * - none: install without session keys (insert them later)
+ * - generate: generate keys the way the installation mode does
+ */
+export type KeyStrategy = 'none' | 'generate';
+
+/**
+ * Validated node specification
+ */
+export interface NodeSpec {
+  name: string;
+  nodeType: 'full' | 'validator' | 'archiver';
+  mode: 'legacy' | 'standard' | 'advanced';
+  /** Existing OS user for legacy installations */
+  osUser?: string;
+  port?: number;
+  chainSpec?: string;
+  /** Prometheus metrics port */
+  prometheusPort?: number;
+  /** Serve metrics on all interfaces */
+  prometheusExternal?: boolean;
+  keys: KeyStrategy;
+}
+
+/**
+ * Raised when a spec file cannot be parsed or fails validation
+ */
+export class NodeSpecError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n  - ${issues.join('\n  - ')}` : message);
+    this.name = 'NodeSpecError';
+  }
+}
+
+const NODE_TYPES = ['full', 'validator', 'archiver'] as const;
+const MODES = ['legacy', 'standard', 'advanced'] as const;
+const KEY_STRATEGIES = ['none', 'generate'] as const;
+
+/**
+ * Map spec mode names to the wizard's selection names
+ */
+const MODE_SELECTIONS: Record<NodeSpec['mode'], 'legacy' | 'easy' | 'hard'> = {
+  legacy: 'legacy',
+  standard: 'easy',
+  advanced: 'hard',
+};
+
+/**
+ * Parse spec file content according to its extension
+ */
+export function parseNodeSpecContent(content: string, fileName: string): unknown {
+  try {
+    return parseConfigContent(content, fileName);
+  } catch (error) {
+    throw new NodeSpecError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Validate raw spec data and build the node configuration it describes
+ */
+export function validateNodeSpec(
+  raw: unknown,
+  defaultOsUser: string
+): { spec: NodeSpec; config: NodeConfiguration } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new NodeSpecError('Node spec must be a mapping of settings');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const name = data.name;
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    issues.push('name: required non-empty string');
+  }
+
+  const nodeType = data.nodeType;
+  if (!NODE_TYPES.includes(nodeType as NodeSpec['nodeType'])) {
+    issues.push(`nodeType: must be one of ${NODE_TYPES.join(', ')}`);
+  }
+
+  const mode = data.mode;
+  if (!MODES.includes(mode as NodeSpec['mode'])) {
+    issues.push(`mode: must be one of ${MODES.join(', ')}`);
+  }
+
+  const osUser = data.osUser;
+  if (osUser !== undefined && (typeof osUser !== 'string' || osUser.length === 0)) {
+    issues.push('osUser: must be a non-empty string');
+  }
+
+  const port = data.port;
+  if (port !== undefined && !Number.isInteger(port)) {
+    issues.push('port: must be an integer');
+  }
+
+  const chainSpec = data.chainSpec;
+  if (chainSpec !== undefined && typeof chainSpec !== 'string') {
+    issues.push('chainSpec: must be a path');
+  }
+
+  const prometheusPort = data.prometheusPort;
+  if (prometheusPort !== undefined && !Number.isInteger(prometheusPort)) {
+    issues.push('prometheusPort: must be an integer');
+  }
+
+  const prometheusExternal = data.prometheusExternal;
+  if (prometheusExternal !== undefined && typeof prometheusExternal !== 'boolean') {
+    issues.push('prometheusExternal: must be true or false');
+  }
+
+  const keys = data.keys ?? 'none';
+  if (!KEY_STRATEGIES.includes(keys as KeyStrategy)) {
+    issues.push(`keys: must be one of ${KEY_STRATEGIES.join(', ')}`);
+  } else if (keys === 'generate' && mode === 'advanced') {
+    issues.push('keys: advanced mode requires an interactive mnemonic backup, use "none" and generate keys later');
+  }
+
+  const known = ['name', 'nodeType', 'mode', 'osUser', 'port', 'chainSpec', 'prometheusPort', 'prometheusExternal', 'keys'];
+  for (const key of Object.keys(data)) {
+    if (!known.includes(key)) {
+      issues.push(`${key}: unknown setting`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new NodeSpecError('Invalid node spec', issues);
+  }
+
+  const spec: NodeSpec = {
+    name: (name as string).trim(),
+    nodeType: nodeType as NodeSpec['nodeType'],
+    mode: mode as NodeSpec['mode'],
+    osUser: osUser as string | undefined,
+    port: port as number | undefined,
+    chainSpec: chainSpec as string | undefined,
+    prometheusPort: prometheusPort as number | undefined,
+    prometheusExternal: prometheusExternal as boolean | undefined,
+    keys: keys as KeyStrategy,
+  };
+
+  const profile = getNetworkProfile();
+  const config = NodeConfigurationFactory.create({
+    name: spec.name,
+    mode: InstallationModeFactory.fromSelection(MODE_SELECTIONS[spec.mode], spec.osUser ?? defaultOsUser),
+    nodeType: spec.nodeType,
+    port: spec.port ?? profile.p2pPort,
+    chainSpec: spec.chainSpec ?? profile.chainSpecPath,
+    rpcPort: profile.rpcPort,
+    prometheusPort: spec.prometheusPort,
+    prometheusExternal: spec.prometheusExternal,
+  });
+
+  if (!config.isValid()) {
+    throw new NodeSpecError('Invalid node spec', [
+      'resulting configuration is invalid (ports must be 1024-65535, name and chain spec are required)',
+    ]);
+  }
+
+  return { spec, config };
+}
+
+/**
+ * Get the wizard mode selection for a spec
+ */
+export function getModeSelection(spec: NodeSpec): 'legacy' | 'easy' | 'hard' {
+  return MODE_SELECTIONS[spec.mode];
+}
+
+/**
+ * Read, parse and validate a spec file
+ */
+export async function loadNodeSpec(
+  path: string,
+  defaultOsUser: string
+): Promise<{ spec: NodeSpec; config: NodeConfiguration }> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new NodeSpecError(
+      `Cannot read spec file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return validateNodeSpec(parseNodeSpecContent(content, path), defaultOsUser);
+}
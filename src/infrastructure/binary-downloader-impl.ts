@@ -6,15 +6,18 @@
 
 import { BinaryDownloader } from '../services/node-setup-service.ts';
 import { executeCommand } from '../utils/system.ts';
+import { CommandRunner, getCommandRunner } from '../utils/command-runner.ts';
 
 /**
  * Wget-based binary downloader implementation
  */
 export class WgetBinaryDownloader implements BinaryDownloader {
+  constructor(private readonly runner: CommandRunner = getCommandRunner()) {}
+
   async download(url: string, destination: string): Promise<void> {
     console.log(`📥 Downloading ${url.split('/').pop()}`);
 
-    const result = await executeCommand('wget', ['-O', destination, url]);
+    const result = await executeCommand('wget', ['-O', destination, url], this.runner);
 
     if (!result.success) {
       throw new Error(`Download failed: ${result.error}`);
@@ -25,13 +28,13 @@ export class WgetBinaryDownloader implements BinaryDownloader {
 
   async verify(path: string, expectedHash?: string): Promise<boolean> {
     if (!expectedHash) {
-      console.log('⚠️  No hash provided, skipping verification');
-      return true;
+      console.error('❌ No hash provided, refusing to trust the download');
+      return false;
     }
 
     console.log('🔐 Verifying file integrity...');
 
-    const result = await executeCommand('sha256sum', [path]);
+    const result = await executeCommand('sha256sum', [path], this.runner);
 
     if (!result.success) {
       throw new Error('Failed to calculate file hash');
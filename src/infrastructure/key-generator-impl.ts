@@ -7,7 +7,8 @@
 import { KeyGenerator } from '../services/node-setup-service.ts';
 import { insertKeySecurely, auditKeyOperation } from '../utils/secure-keys.ts';
 import { executeCommand } from '../utils/system.ts';
-import { PATHS } from '../config/constants.ts';
+import { PATHS, hostPath } from '../config/constants.ts';
+import { getNetworkProfile } from '../config/networks.ts';
 import { Confirm, Input, Select } from '@cliffy/prompt';
 import { Messages } from '../types.ts';
 
@@ -20,7 +21,7 @@ export class PolkadotKeyGenerator implements KeyGenerator {
     // Generate seed phrase using d9-node
     console.log(this.messages.keyGeneration.generatingSeedPhrase);
 
-    let seedResult = await executeCommand(PATHS.BINARY, [
+    let seedResult = await executeCommand(hostPath(PATHS.BINARY), [
       'key',
       'generate',
       '--scheme',
@@ -28,7 +29,7 @@ export class PolkadotKeyGenerator implements KeyGenerator {
     ]);
 
     if (!seedResult.success) {
-      seedResult = await executeCommand(PATHS.BINARY, ['key', 'generate']);
+      seedResult = await executeCommand(hostPath(PATHS.BINARY), ['key', 'generate']);
       if (!seedResult.success) {
         throw new Error('Failed to generate seed phrase');
       }
@@ -105,7 +106,7 @@ export class PolkadotKeyGenerator implements KeyGenerator {
 
       const success = await insertKeySecurely({
         basePath,
-        chainSpec: PATHS.CHAIN_SPEC,
+        chainSpec: getNetworkProfile().chainSpecPath,
         keyType: config.keyType,
         scheme: config.scheme,
         suri: config.suri,
@@ -158,7 +159,7 @@ export class PolkadotKeyGenerator implements KeyGenerator {
 
       const success = await insertKeySecurely({
         basePath,
-        chainSpec: PATHS.CHAIN_SPEC,
+        chainSpec: getNetworkProfile().chainSpecPath,
         keyType: config.type,
         scheme: config.scheme,
         suri: derivedSuri,
@@ -210,7 +211,7 @@ export class PolkadotKeyGenerator implements KeyGenerator {
   private async generateRootMnemonic(_password: string): Promise<string> {
     console.log(this.messages.keyGeneration.generatingRootMnemonic);
 
-    const seedResult = await executeCommand(PATHS.BINARY, ['key', 'generate']);
+    const seedResult = await executeCommand(hostPath(PATHS.BINARY), ['key', 'generate']);
     if (!seedResult.success) {
       throw new Error('Failed to generate root mnemonic');
     }
@@ -6,13 +6,16 @@
 
 import { PackageManager } from '../services/node-setup-service.ts';
 import { executeCommand } from '../utils/system.ts';
+import { CommandRunner, getCommandRunner } from '../utils/command-runner.ts';
 
 /**
  * APT-based package manager implementation
  */
 export class AptPackageManager implements PackageManager {
+  constructor(private readonly runner: CommandRunner = getCommandRunner()) {}
+
   async update(): Promise<void> {
-    const result = await executeCommand('sudo', ['apt', 'update', '-qq']);
+    const result = await executeCommand('sudo', ['apt', 'update', '-qq'], this.runner);
 
     if (!result.success) {
       throw new Error(`Failed to update package lists: ${result.error}`);
@@ -42,7 +45,7 @@ export class AptPackageManager implements PackageManager {
       '-y',
       '-qq',
       ...toInstall,
-    ]);
+    ], this.runner);
 
     if (!result.success) {
       throw new Error(`Failed to install packages: ${result.error}`);
@@ -50,7 +53,7 @@ export class AptPackageManager implements PackageManager {
   }
 
   async isInstalled(packageName: string): Promise<boolean> {
-    const result = await executeCommand('dpkg', ['-l', packageName]);
+    const result = await executeCommand('dpkg', ['-l', packageName], this.runner);
 
     if (!result.success) {
       return false;
@@ -0,0 +1,76 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { AptPackageManager } from './package-manager-impl.ts';
+import { FakeCommandRunner } from '../utils/command-runner.ts';
+
+Deno.test('AptPackageManager.update runs apt update', async () => {
+  const runner = new FakeCommandRunner({ strict: true }).on('sudo apt update -qq', {});
+
+  await new AptPackageManager(runner).update();
+
+  assertEquals(runner.commandLines, ['sudo apt update -qq']);
+});
+
+Deno.test('AptPackageManager.update reports a non-zero exit with its stderr', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on('sudo apt update -qq', { code: 100, stderr: 'E: Could not get lock /var/lib/apt/lists/lock' });
+
+  await assertRejects(
+    () => new AptPackageManager(runner).update(),
+    Error,
+    'Failed to update package lists: E: Could not get lock'
+  );
+});
+
+Deno.test('AptPackageManager.install only installs missing packages', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on('dpkg -l curl', { stdout: 'ii  curl  7.81.0-1ubuntu1.15  amd64  command line tool for transferring data' })
+    .on('dpkg -l jq', { code: 1, stderr: 'dpkg-query: no packages found matching jq' })
+    .on('dpkg -l wget', { stdout: 'un  wget  <none>  <none>  (no description available)' })
+    .on('sudo apt install -y -qq jq wget', {});
+
+  await new AptPackageManager(runner).install(['curl', 'jq', 'wget']);
+
+  assertEquals(runner.commandLines, [
+    'dpkg -l curl',
+    'dpkg -l jq',
+    'dpkg -l wget',
+    'sudo apt install -y -qq jq wget',
+  ]);
+});
+
+Deno.test('AptPackageManager.install does nothing when everything is installed', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on(/^dpkg -l /, ({ args }) => ({ stdout: `ii  ${args[1]}  1.0  amd64  package` }));
+
+  await new AptPackageManager(runner).install(['curl', 'jq']);
+
+  assertEquals(runner.calls(/apt install/).length, 0);
+});
+
+Deno.test('AptPackageManager.install reports a failed apt install', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on('dpkg -l jq', { code: 1 })
+    .on('sudo apt install -y -qq jq', { code: 100, stderr: 'E: Unable to locate package jq' });
+
+  await assertRejects(
+    () => new AptPackageManager(runner).install(['jq']),
+    Error,
+    'Failed to install packages: E: Unable to locate package jq'
+  );
+});
+
+Deno.test('AptPackageManager.isInstalled treats missing dpkg output as not installed', async () => {
+  const runner = new FakeCommandRunner({ strict: true }).on('dpkg -l curl', { stdout: '' });
+
+  assertEquals(await new AptPackageManager(runner).isInstalled('curl'), false);
+});
+
+Deno.test('AptPackageManager surfaces commands the strict fake does not expect', async () => {
+  const runner = new FakeCommandRunner({ strict: true });
+
+  await assertRejects(
+    () => new AptPackageManager(runner).update(),
+    Error,
+    'Unexpected command: sudo apt update -qq'
+  );
+});
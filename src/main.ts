@@ -1,20 +1,67 @@
 #!/usr/bin/env -S deno run --allow-all
 
-import { Command } from "@cliffy/command";
+import { Command, EnumType, ValidationError } from "@cliffy/command";
 import { Select, Confirm } from "@cliffy/prompt";
 import { colors } from "@cliffy/ansi";
 import { getMessage } from "./i18n.ts";
-import { Messages } from "./types.ts";
+import { NodeType } from "./types.ts";
 import { checkSystemRequirements, createProgressBar } from "./utils/system.ts";
-import { hasValidKeystore, getNodeAddress, getDataDirectory } from "./utils/keystore.ts";
-import { getD9API, disconnectD9API } from "./utils/polkadot.ts";
-import { checkBalanceWithPrompt, formatBalance } from "./utils/balance.ts";
+import { hasValidKeystore, getNodeAddress } from "./utils/keystore.ts";
+import { disconnectD9API, setRpcEndpoints } from "./utils/polkadot.ts";
+import { checkBalanceWithPrompt } from "./utils/balance.ts";
+import { CommandError, CommandResult, emitDocument, isJsonOutput, OutputFormat, setOutputFormat } from "./utils/output.ts";
 import { setupNode } from "./commands/setup.ts";
-import { setupNodeV2 } from "./commands/setup-v2.ts";
-import { submitCandidacy } from "./commands/candidacy.ts";
-import { convertNode } from "./commands/convert.ts";
-import { hasResumableInstallation, promptResume, clearAbandonedInstallation, showInstallationState } from "./commands/resume.ts";
-import { SERVICE } from "./config/constants.ts";
+import { planNodeSetup, planNodeSetupFromSpec, setupNodeFromSpec, setupNodeV2 } from "./commands/setup-v2.ts";
+import {
+	collectCandidacyStatus,
+	editCandidacy,
+	printCandidacyEditReport,
+	printCandidacyStatus,
+	submitCandidacy,
+} from "./commands/candidacy.ts";
+import { convertNode, planConversion } from "./commands/convert.ts";
+import { collectValidators, printValidatorsReport } from "./commands/validators.ts";
+import { collectNodeHealthReport, printNodeHealth, runDashboard } from "./commands/dashboard.ts";
+import { printCheckReport, PROBES, runHealthCheck } from "./commands/check.ts";
+import {
+	getDefaultWatchConfigPath,
+	installWatchService,
+	printNotifierTestResults,
+	printWatchInstallReport,
+	readWatchConfig,
+	runWatch,
+	testNotifiers,
+} from "./commands/watch.ts";
+import { collectLogs, followLogs, printLogsReport } from "./commands/logs.ts";
+import { LOG_LEVELS } from "./utils/log-parser.ts";
+import { printTransferReport, transfer } from "./commands/transfer.ts";
+import { MIN_GRACE_PERIOD_SECONDS, printUpgradeReport, upgradeNode } from "./commands/upgrade.ts";
+import { printSelfUpdateReport, selfUpdate } from "./commands/self-update.ts";
+import { createBundle, printBundleReport } from "./commands/bundle.ts";
+import { printUninstallReport, uninstallNode } from "./commands/uninstall.ts";
+import { keysVerifyExitCode, printKeysRotateReport, printKeysVerifyReport, rotateKeys, verifyKeys } from "./commands/keys.ts";
+import { diffChainSpec, printChainSpecDiff, printChainSpecReport, showChainSpec, updateChainSpec } from "./commands/chainspec.ts";
+import { PlanStep, printPlan } from "./core/plan.ts";
+import {
+	hasResumableInstallation,
+	promptResume,
+	resumeInstallation,
+	clearAbandonedInstallation,
+	showInstallationState,
+	collectInstallationState,
+} from "./commands/resume.ts";
+import {
+	collectBalance,
+	collectKeystoreReport,
+	collectNodeStatus,
+	printBalance,
+	printKeystoreReport,
+	printNodeStatus,
+	showNodeStatus,
+} from "./commands/status.ts";
+import { EXIT_CODES, getRootPrefix, HEALTH_CHECK } from "./config/constants.ts";
+import { RootPrefixCommandRunner, setCommandRunner } from "./utils/command-runner.ts";
+import { loadNetworkProfile, NETWORK_NAMES, NetworkName, NetworkProfileError, selectNetwork, setCustomNetworkProfile } from "./config/networks.ts";
 
 // Import version info - this file is generated by Makefile
 let VERSION = "dev";
@@ -30,11 +77,13 @@ try {
   // Use defaults if version.ts doesn't exist
 }
 
-async function main() {
+type Language = "en" | "zh";
+
+async function main(options: { lang?: Language } = {}) {
 	console.clear();
 
 	// Language selection
-	const language = await Select.prompt({
+	const language = options.lang ?? await Select.prompt({
 		message: "Choose your language / 选择您的语言:",
 		options: [
 			{ name: "English", value: "en" },
@@ -42,7 +91,7 @@ async function main() {
 		],
 	});
 
-	const messages = getMessage(language as "en" | "zh");
+	const messages = getMessage(language as Language);
 
 	console.clear();
 	console.log(colors.blue.bold(messages.welcome));
@@ -56,10 +105,11 @@ async function main() {
 	if (canResume) {
 		const shouldResume = await promptResume(messages);
 		if (shouldResume) {
-			// Note: Resume functionality would go here
-			// For now, we just show the state and continue
-			console.log('\n⚠️  Resume functionality requires integration with transactional setup');
-			console.log('💡 Clear the state to start fresh, or continue to main menu');
+			try {
+				await resumeInstallation(messages);
+			} catch (error) {
+				console.error(`\n❌ Resume failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
 			await Confirm.prompt('Continue to main menu?');
 		}
 	}
@@ -153,6 +203,7 @@ async function main() {
 				{ name: "🗳️  " + messages.submitCandidacy, value: "candidacy" },
 				{ name: "🔄 " + messages.convertNode, value: "convert" },
 				{ name: "📊 Check node status", value: "status" },
+				{ name: "📈 Live node dashboard", value: "dashboard" },
 				{ name: "💾 Show installation state", value: "show-state" },
 				{ name: "🗑️  Clear installation state", value: "clear-state" },
 				{ name: "🚪 Exit", value: "exit" },
@@ -173,6 +224,9 @@ async function main() {
 				case "status":
 					await showNodeStatus();
 					break;
+				case "dashboard":
+					await runDashboard();
+					break;
 				case "show-state":
 					await showInstallationState(messages);
 					break;
@@ -208,65 +262,533 @@ async function main() {
 	console.log("\n👋 Goodbye!");
 }
 
-async function showNodeStatus(): Promise<void> {
-	console.log("\n📊 Node Status");
-	console.log("─".repeat(30));
+/**
+ * Run a subcommand action. In JSON mode the action's data is emitted as the
+ * command's single document; in both modes failures map to stable exit codes.
+ */
+async function runCommand(
+	command: string,
+	action: () => Promise<CommandResult | void>,
+): Promise<void> {
+	let exitCode: number = EXIT_CODES.OK;
 
 	try {
-		// Check if service is running
-		const statusProcess = new Deno.Command("sudo", {
-			args: ["systemctl", "is-active", SERVICE.NAME],
-		});
-		const statusResult = await statusProcess.output();
-		const isActive = new TextDecoder().decode(statusResult.stdout).trim() === "active";
-
-		console.log(`Service Status: ${isActive ? "✅ Running" : "❌ Stopped"}`);
-
-		if (isActive) {
-			// Get recent logs
-			const logsProcess = new Deno.Command("sudo", {
-				args: ["journalctl", "-u", SERVICE.NAME, "-n", "5", "--no-pager"],
+		const result = await action();
+		exitCode = result?.exitCode ?? EXIT_CODES.OK;
+		if (isJsonOutput()) {
+			emitDocument({ command, ok: exitCode === EXIT_CODES.OK, exitCode, data: result?.data });
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		exitCode = error instanceof CommandError ? error.exitCode : EXIT_CODES.ERROR;
+		if (isJsonOutput()) {
+			emitDocument({
+				command,
+				ok: false,
+				exitCode,
+				error: message,
+				data: error instanceof CommandError ? error.data : undefined,
 			});
-			const logsResult = await logsProcess.output();
-			const logs = new TextDecoder().decode(logsResult.stdout);
-
-			console.log("\n📝 Recent Logs:");
-			console.log("─".repeat(20));
-			console.log(logs);
+		} else {
+			console.error(`❌ ${message}`);
 		}
+	}
 
-		// Show disk usage - use actual data directory
-		const dataDir = await getDataDirectory();
-		if (dataDir) {
-			const dfProcess = new Deno.Command("df", { args: ["-h", dataDir] });
-			const dfResult = await dfProcess.output();
-			if (dfResult.code === 0) {
-				const diskInfo = new TextDecoder().decode(dfResult.stdout);
-				console.log("\n💾 Disk Usage:");
-				console.log("─".repeat(15));
-				console.log(diskInfo);
-			}
-		}
-	} catch (error) {
-		console.log(
-			`❌ Error checking status: ${error instanceof Error ? error.message : String(error)}`,
-		);
+	await disconnectD9API();
+	if (exitCode !== EXIT_CODES.OK) {
+		Deno.exit(exitCode);
+	}
+}
+
+/**
+ * Commands that change the host cannot prompt while stdout carries JSON
+ */
+function requireUnattended(yes: boolean | undefined): void {
+	if (isJsonOutput() && !yes) {
+		throw new CommandError("--yes is required with --output json", EXIT_CODES.USAGE);
+	}
+}
+
+/**
+ * Map a flow's completion flag to a command result
+ */
+function completion(completed: boolean, failure: string): CommandResult {
+	if (!completed) {
+		throw new CommandError(failure);
 	}
+	return { data: { completed } };
+}
 
-	console.log("\n💡 Useful commands:");
-	console.log(`  View logs: journalctl -u ${SERVICE.NAME} -f`);
-	console.log(`  Stop node: sudo systemctl stop ${SERVICE.NAME}`);
-	console.log(`  Start node: sudo systemctl start ${SERVICE.NAME}`);
-	console.log(`  Restart: sudo systemctl restart ${SERVICE.NAME}`);
+/**
+ * Print a plan in text mode and return it as the command's data
+ */
+function planResult(steps: PlanStep[] | null, failure: string): CommandResult {
+	if (!steps) {
+		throw new CommandError(failure);
+	}
+	if (!isJsonOutput()) {
+		printPlan(steps);
+	}
+	return { data: { plan: steps } };
 }
 
-// CLI definition for potential future use
+const nodeType = new EnumType(["full", "validator", "archiver"]);
+
 const cli = new Command()
 	.name("d9-manager")
 	.version(VERSION)
 	.description("D9 Node Management Tool")
-	.action(main);
+	.globalType("lang", new EnumType(["en", "zh"]))
+	.globalOption("-l, --lang <lang:lang>", "Language for messages")
+	.globalType("output-format", new EnumType(["text", "json"]))
+	.globalOption("-o, --output <format:output-format>", "Output format for subcommands", {
+		value: (format: OutputFormat) => {
+			setOutputFormat(format);
+			return format;
+		},
+	})
+	.globalOption("--rpc <endpoints:string>", "Comma-separated RPC endpoints; the one with the highest finalized block is used", {
+		value: (endpoints: string) => {
+			setRpcEndpoints(endpoints.split(","));
+			return endpoints;
+		},
+	})
+	.globalType("network", new EnumType(NETWORK_NAMES))
+	.globalOption("--network <network:network>", "Network profile: chain, chain spec, RPC endpoints and ports", {
+		value: (network: NetworkName) => {
+			selectNetwork(network);
+			return network;
+		},
+	})
+	.globalOption("--network-file <file:string>", "YAML, TOML or JSON profile for --network custom", {
+		depends: ["network"],
+		value: (file: string) => {
+			try {
+				setCustomNetworkProfile(loadNetworkProfile(file));
+			} catch (error) {
+				if (error instanceof NetworkProfileError) {
+					throw new ValidationError(error.message);
+				}
+				throw error;
+			}
+			return file;
+		},
+	})
+	.action((options) => {
+		if (isJsonOutput()) {
+			console.error("❌ --output json requires a subcommand");
+			Deno.exit(EXIT_CODES.USAGE);
+		}
+		return main(options);
+	})
+	.command("setup", "Install and configure a new node")
+	.type("node-type", nodeType)
+	.type("mode", new EnumType(["easy", "hard", "legacy"]))
+	.option("-s, --spec <file:string>", "Unattended install from a YAML, TOML or JSON node spec", {
+		conflicts: ["node-type", "mode", "name", "generate-keys", "skip-keys", "prometheus-port", "prometheus-external"],
+	})
+	.option("-t, --node-type <type:node-type>", "Node type to install")
+	.option("-m, --mode <mode:mode>", "Installation mode (ignored when a legacy installation is detected)")
+	.option("-n, --name <name:string>", "Public node name")
+	.option("--generate-keys", "Generate session keys after installation")
+	.option("--skip-keys", "Do not generate session keys", { conflicts: ["generate-keys"] })
+	.option("--prometheus-port <port:integer>", "Serve the node's Prometheus metrics on this port (default: 9615)")
+	.option("--prometheus-external", "Serve Prometheus metrics on all interfaces, not only localhost")
+	.option("--follow-logs", "Follow the node journal once setup finishes")
+	.option("--plan", "Show every step, command and file change without executing anything")
+	.option("--from-bundle <file:string>", "Install offline from a bundle made with 'bundle create'", {
+		conflicts: ["plan"],
+	})
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ lang, spec, nodeType, mode, name, generateKeys, skipKeys, prometheusPort, prometheusExternal, followLogs, plan, fromBundle, yes }) =>
+		runCommand("setup", async () => {
+			if (prometheusPort !== undefined && (prometheusPort < 1024 || prometheusPort > 65535)) {
+				throw new CommandError("--prometheus-port must be between 1024 and 65535", EXIT_CODES.USAGE);
+			}
+			if (plan && spec) {
+				return planResult(await planNodeSetupFromSpec(getMessage(lang ?? "en"), spec), "Setup would not proceed");
+			}
+			if (plan) {
+				requireUnattended(yes);
+				const steps = await planNodeSetup(getMessage(lang ?? "en"), {
+					nodeType,
+					mode,
+					name,
+					generateKeys: generateKeys ? true : skipKeys ? false : undefined,
+					prometheusPort,
+					prometheusExternal,
+					yes,
+				});
+				return planResult(steps, "Setup would not proceed");
+			}
+			if (spec) {
+				await setupNodeFromSpec(getMessage(lang ?? "en"), spec, fromBundle);
+				return { data: { completed: true, spec, bundle: fromBundle } };
+			}
+			requireUnattended(yes);
+			const completed = await setupNodeV2(getMessage(lang ?? "en"), {
+				nodeType,
+				mode,
+				name,
+				generateKeys: generateKeys ? true : skipKeys ? false : undefined,
+				prometheusPort,
+				prometheusExternal,
+				followLogs: followLogs ?? false,
+				bundle: fromBundle,
+				yes,
+			});
+			return completion(completed, "Setup did not complete");
+		})
+	)
+	.command("convert", "Convert the node to another node type")
+	.type("node-type", nodeType)
+	.option("--to <type:node-type>", "Target node type")
+	.option("--candidacy", "Submit validator candidacy after converting to a validator")
+	.option("--skip-candidacy", "Do not submit validator candidacy", { conflicts: ["candidacy"] })
+	.option("--plan", "Show the service file diff and commands without executing anything")
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ lang, to, candidacy, skipCandidacy, plan, yes }) =>
+		runCommand("convert", async () => {
+			requireUnattended(yes);
+			if (plan) {
+				const steps = await planConversion(getMessage(lang ?? "en"), {
+					to: to as NodeType | undefined,
+					candidacy: candidacy ? true : skipCandidacy ? false : undefined,
+					yes,
+				});
+				return planResult(steps, "Conversion would not proceed");
+			}
+			const completed = await convertNode(getMessage(lang ?? "en"), {
+				to: to as NodeType | undefined,
+				candidacy: candidacy ? true : skipCandidacy ? false : undefined,
+				yes,
+			});
+			return completion(completed, "Conversion did not complete");
+		})
+	)
+	.command("upgrade", "Upgrade the node binary, rolling back if the new one is unhealthy")
+	.option("--version <tag:string>", "Release tag to install, e.g. v1.2.0 (default: latest)")
+	.option("--grace-period <seconds:integer>", `Seconds the new binary has to advance the best block (default: 180, minimum: ${MIN_GRACE_PERIOD_SECONDS})`)
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ version, gracePeriod, yes }) =>
+		runCommand("upgrade", async () => {
+			requireUnattended(yes);
+			const report = await upgradeNode({ version, gracePeriod, yes });
+			if (!report) {
+				throw new CommandError("Upgrade was cancelled");
+			}
+			if (!isJsonOutput()) printUpgradeReport(report);
+			return { data: report };
+		})
+	)
+	.command("self-update", "Update d9-manager to the latest release")
+	.option("--mirror <dir:string>", "Take releases from a local directory of <tag>/ folders instead of GitHub")
+	.option("--check", "Only report whether an update is available")
+	.option("--force", "Replace a development build that has no version to compare", { conflicts: ["check"] })
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ mirror, check, force, yes }) =>
+		runCommand("self-update", async () => {
+			if (!check) requireUnattended(yes);
+			const report = await selfUpdate({ currentVersion: VERSION, mirror, check, force, yes });
+			if (!isJsonOutput()) printSelfUpdateReport(report);
+			return { data: report };
+		})
+	)
+	.command("uninstall", "Remove the node, its data and everything setup installed")
+	.option("--keep-database", "Keep the chain database in the data directory")
+	.option("--keep-keystore", "Keep the keystore in the data directory")
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ lang, keepDatabase, keepKeystore, yes }) =>
+		runCommand("uninstall", async () => {
+			requireUnattended(yes);
+			const report = await uninstallNode(getMessage(lang ?? "en"), { keepDatabase, keepKeystore, yes });
+			if (!report) {
+				throw new CommandError("Uninstall was cancelled");
+			}
+			if (!isJsonOutput()) printUninstallReport(report);
+			return {
+				data: report,
+				exitCode: report.failed.length > 0 ? EXIT_CODES.ERROR : EXIT_CODES.OK,
+			};
+		})
+	)
+	.command("bundle", "Create an offline installation bundle")
+	.type("bundle-action", new EnumType(["create"]))
+	.arguments("<action:bundle-action>")
+	.option("-f, --file <file:string>", "Bundle path (default: d9-bundle-<network>-<release>.tar.gz)")
+	.option("--version <tag:string>", "d9-node release tag to bundle (default: latest)")
+	.action(({ file, version }, action) =>
+		runCommand(`bundle ${action}`, async () => {
+			const report = await createBundle({ output: file, version });
+			if (!isJsonOutput()) printBundleReport(report);
+			return { data: report };
+		})
+	)
+	.command("chainspec", "Show the installed chain spec, or compare and replace it with a new one")
+	.type("chainspec-action", new EnumType(["show", "diff", "update"]))
+	.arguments("<action:chainspec-action>")
+	.option("--url <url:string>", "Chain spec to fetch (default: the network's chain spec URL)")
+	.option("-f, --file <file:string>", "Use a local chain spec file instead of downloading", { conflicts: ["url"] })
+	.option("-y, --yes", "Do not ask for confirmation when updating")
+	.action(({ url, file, yes }, action) =>
+		runCommand(`chainspec ${action}`, async () => {
+			if (action === "show") {
+				const report = await showChainSpec();
+				if (!isJsonOutput()) printChainSpecReport(report);
+				return { data: report };
+			}
+			if (action === "diff") {
+				const report = await diffChainSpec({ url, file });
+				if (!isJsonOutput()) printChainSpecDiff(report);
+				return { data: report };
+			}
+			requireUnattended(yes);
+			const report = await updateChainSpec({ url, file, yes });
+			if (!report) {
+				throw new CommandError("Chain spec update was cancelled");
+			}
+			return { data: report };
+		})
+	)
+	.command("candidacy", "Submit validator candidacy, or edit its name and sharing percentage")
+	.type("candidacy-action", new EnumType(["submit", "edit"]))
+	.arguments("[action:candidacy-action]")
+	.option("-n, --name <name:string>", "Public validator name")
+	.option("--sharing-percent <percent:integer>", "Share of rewards passed on to voters (0-100, default on submit: 0)")
+	.option("--status", "Only show whether the node is already a candidate", { conflicts: ["name", "sharing-percent"] })
+	.option("-y, --yes", "Do not ask for confirmation or wait for funding")
+	.action(({ lang, name, sharingPercent, status, yes }, action) =>
+		runCommand(action === "edit" ? "candidacy edit" : "candidacy", async () => {
+			if (status) {
+				const report = await collectCandidacyStatus();
+				if (!isJsonOutput()) printCandidacyStatus(report);
+				return { data: report };
+			}
+			requireUnattended(yes);
+			if (action === "edit") {
+				const report = await editCandidacy(getMessage(lang ?? "en"), { name, sharingPercent, yes });
+				if (!report) {
+					throw new CommandError("Candidacy changes were cancelled");
+				}
+				if (!isJsonOutput()) printCandidacyEditReport(report);
+				return {
+					data: report,
+					exitCode: report.changes.every((change) => change.success) ? EXIT_CODES.OK : EXIT_CODES.ERROR,
+				};
+			}
+			const completed = await submitCandidacy(getMessage(lang ?? "en"), { name, sharingPercent, yes });
+			return completion(completed, "Candidacy was not submitted");
+		})
+	)
+	.command("validators", "Rank validator candidates by votes and show where this node stands")
+	.option("--limit <count:integer>", "Only list the top candidates (this node is always listed)")
+	.action(({ limit }) =>
+		runCommand("validators", async () => {
+			const report = await collectValidators();
+			if (!isJsonOutput()) printValidatorsReport(report, limit);
+			return { data: report };
+		})
+	)
+	.command("status", "Show node service status, logs, metrics and disk usage")
+	.action(() =>
+		runCommand("status", async () => {
+			const status = await collectNodeStatus();
+			if (!isJsonOutput()) printNodeStatus(status);
+			return {
+				data: status,
+				exitCode: status.service.active ? EXIT_CODES.OK : EXIT_CODES.NOT_RUNNING,
+			};
+		})
+	)
+	.command("dashboard", "Live view of peers, block heights, sync and block rate from the local node")
+	.option("--interval <seconds:integer>", "Seconds between refreshes (default: 5)")
+	.option("--once", "Print a single snapshot and exit")
+	.action(({ interval, once }) =>
+		runCommand("dashboard", async () => {
+			if (interval !== undefined && interval < 1) {
+				throw new CommandError("--interval must be at least 1 second", EXIT_CODES.USAGE);
+			}
+			if (once || isJsonOutput()) {
+				const health = await collectNodeHealthReport();
+				if (!isJsonOutput()) printNodeHealth(health);
+				return { data: health };
+			}
+			await runDashboard({ interval });
+		})
+	)
+	.command("check", "Probe node health for monitoring, exiting 0/1/2 (OK/WARNING/CRITICAL) like a Nagios plugin")
+	.type("probe", new EnumType(PROBES))
+	.option("--probes <probes:probe[]>", `Probes to run, comma separated (default: ${PROBES.join(",")})`)
+	.option("--min-peers <count:integer>", `Warn below this many peers, critical at none (default: ${HEALTH_CHECK.MIN_PEERS})`)
+	.option(
+		"--max-finality-lag <blocks:integer>",
+		`Warn above this finality lag, critical above twice it (default: ${HEALTH_CHECK.MAX_FINALITY_LAG})`,
+	)
+	.action(({ probes, minPeers, maxFinalityLag }) =>
+		runCommand("check", async () => {
+			const report = await runHealthCheck({ probes, minPeers, maxFinalityLag });
+			if (!isJsonOutput()) printCheckReport(report);
+			return { data: report, exitCode: report.exitCode };
+		})
+	)
+	.command("logs", "Show node logs with level and pattern filters, pointing out known problems")
+	.type("log-level", new EnumType(LOG_LEVELS))
+	.option("-f, --follow", "Keep printing new entries until Ctrl+C")
+	.option("--since <time:string>", "Only entries since this time, e.g. \"1 hour ago\" or \"2025-01-31 12:00\"")
+	.option("--level <level:log-level>", "Only entries at least this severe")
+	.option("--grep <pattern:string>", "Only entries matching this regular expression (case-insensitive)")
+	.option("-n, --lines <count:integer>", "Entries to show (default: 100)")
+	.action(({ follow, since, level, grep, lines }) =>
+		runCommand("logs", async () => {
+			if (lines !== undefined && lines < 1) {
+				throw new CommandError("--lines must be at least 1", EXIT_CODES.USAGE);
+			}
+			if (follow) {
+				if (isJsonOutput()) {
+					throw new CommandError("--follow cannot be used with --output json", EXIT_CODES.USAGE);
+				}
+				const code = await followLogs({ since, level, grep, lines });
+				if (code !== 0) {
+					throw new CommandError(`journalctl exited with code ${code}`);
+				}
+				return;
+			}
+			const report = await collectLogs({ since, level, grep, lines });
+			if (!isJsonOutput()) printLogsReport(report);
+			return { data: report };
+		})
+	)
+	.command("watch", "Alert through webhooks, email or Telegram when the node is unhealthy")
+	.type("watch-action", new EnumType(["run", "install", "test"]))
+	.arguments("<action:watch-action>")
+	.option("-c, --config <file:string>", "YAML, TOML or JSON watch config (default: ~/.config/d9-manager/watch.yaml)")
+	.option("-y, --yes", "Do not ask for confirmation when installing")
+	.action(({ config, yes, network, networkFile }, action) =>
+		runCommand(`watch ${action}`, async () => {
+			const configPath = config ?? getDefaultWatchConfigPath();
+			if (action === "install") {
+				requireUnattended(yes);
+				const report = await installWatchService({ config: configPath, network, networkFile, yes });
+				if (!report) {
+					throw new CommandError("Watch service was not installed");
+				}
+				if (!isJsonOutput()) printWatchInstallReport(report);
+				return { data: report };
+			}
+			const watchConfig = await readWatchConfig(configPath);
+			if (action === "test") {
+				const results = await testNotifiers(watchConfig);
+				if (!isJsonOutput()) printNotifierTestResults(results);
+				return {
+					data: { results },
+					exitCode: results.every((result) => result.ok) ? EXIT_CODES.OK : EXIT_CODES.ERROR,
+				};
+			}
+			await runWatch(watchConfig);
+			return { data: { stopped: true } };
+		})
+	)
+	.command("state", "Show or discard the saved installation state")
+	.type("state-action", new EnumType(["show", "clear"]))
+	.arguments("<action:state-action>")
+	.option("-y, --yes", "Do not ask for confirmation when clearing")
+	.action(({ lang, yes }, action) =>
+		runCommand(`state ${action}`, async () => {
+			const messages = getMessage(lang ?? "en");
+			if (action === "clear") {
+				requireUnattended(yes);
+				await clearAbandonedInstallation(messages, { yes });
+				return { data: await collectInstallationState(messages) };
+			}
+			const report = await collectInstallationState(messages);
+			if (!isJsonOutput()) await showInstallationState(messages);
+			return { data: report };
+		})
+	)
+	.command("resume", "Continue an interrupted installation from its last checkpoint")
+	.action(({ lang }) =>
+		runCommand("resume", async () => {
+			const messages = getMessage(lang ?? "en");
+			const completed = await resumeInstallation(messages);
+			if (!completed) {
+				throw new CommandError("Installation was not resumed", EXIT_CODES.ERROR, await collectInstallationState(messages));
+			}
+			return { data: { completed } };
+		})
+	)
+	.command("balance", "Show the balance of the node account or another address")
+	.arguments("[address:string]")
+	.action((_options, address) =>
+		runCommand("balance", async () => {
+			const report = await collectBalance(address);
+			if (!isJsonOutput()) printBalance(report);
+			return { data: report };
+		})
+	)
+	.command("transfer", "Send D9 from the node account, or into it with --from-suri")
+	.arguments("<amount:string> [to:string]")
+	.option("--from-suri", "Ask for the sending account's secret URI instead of using the node account; sends to the node account by default")
+	.option("--allow-death", "Allow the sender to drop below the existential deposit, removing its account")
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(({ fromSuri, allowDeath, yes }, amount, to) =>
+		runCommand("transfer", async () => {
+			requireUnattended(yes);
+			if (fromSuri && isJsonOutput()) {
+				throw new CommandError("--from-suri prompts for a secret and cannot be used with --output json", EXIT_CODES.USAGE);
+			}
+			const report = await transfer({ amount, to, fromSuri, allowDeath, yes });
+			if (!report) {
+				throw new CommandError("Transfer was cancelled");
+			}
+			if (!isJsonOutput()) printTransferReport(report);
+			return { data: report, exitCode: report.success ? EXIT_CODES.OK : EXIT_CODES.ERROR };
+		})
+	)
+	.command("keystore", "Show where the keystore was found and the node address")
+	.action(() =>
+		runCommand("keystore", async () => {
+			const report = await collectKeystoreReport();
+			if (!isJsonOutput()) printKeystoreReport(report);
+			return {
+				data: report,
+				exitCode: report.path ? EXIT_CODES.OK : EXIT_CODES.NOT_FOUND,
+			};
+		})
+	)
+	.command("keys", "Verify the session keys against the chain, or rotate them")
+	.type("keys-action", new EnumType(["verify", "rotate"]))
+	.arguments("<action:keys-action>")
+	.option("--account <address:string>", "Validator account to compare with (default: the node account)")
+	.option("--offline", "Only check the local keystore", { conflicts: ["account"] })
+	.option("--derive", "Derive the new keys from the root mnemonic (advanced mode) instead of asking the node")
+	.option("-y, --yes", "Do not ask for confirmation when rotating")
+	.action(({ account, offline, derive, yes }, action) =>
+		runCommand(`keys ${action}`, async () => {
+			if (action === "verify") {
+				const report = await verifyKeys({ account, offline });
+				if (!isJsonOutput()) printKeysVerifyReport(report);
+				return { data: report, exitCode: keysVerifyExitCode(report) };
+			}
+			requireUnattended(yes);
+			if (derive && isJsonOutput()) {
+				throw new CommandError("--derive prompts for the root mnemonic and cannot be used with --output json", EXIT_CODES.USAGE);
+			}
+			const report = await rotateKeys({ derive, yes });
+			if (!report) {
+				throw new CommandError("Key rotation was cancelled");
+			}
+			if (!isJsonOutput()) printKeysRotateReport(report);
+			return {
+				data: report,
+				exitCode: report.confirmed && !report.error ? EXIT_CODES.OK : EXIT_CODES.ERROR,
+			};
+		})
+	);
 
 if (import.meta.main) {
-	await main();
+	// Under a root prefix, packages, users and systemd on the host are left alone
+	if (getRootPrefix()) {
+		setCommandRunner(new RootPrefixCommandRunner(getRootPrefix()));
+	}
+	await cli.parse(Deno.args);
 }
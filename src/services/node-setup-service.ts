@@ -9,6 +9,7 @@ import { NodeConfiguration } from '../domain/node-configuration.ts';
 import { InstallationMode } from '../domain/installation-mode.ts';
 import { TransactionManager } from '../core/transaction-manager.ts';
 import { Operation } from '../core/operations.ts';
+import { PlanStep, planOperations } from '../core/plan.ts';
 import {
   CreateDirectoryOperation,
   CreateUserOperation,
@@ -16,6 +17,7 @@ import {
   EnableServiceOperation,
 } from '../core/system-operations.ts';
 import { Messages } from '../types.ts';
+import { buildKeystorePath } from '../utils/keystore.ts';
 
 /**
  * Package manager abstraction
@@ -81,7 +83,7 @@ export class NodeSetupService {
         nodeName: config.name,
         basePath: config.dataDirectory,
         serviceUser: config.serviceUser,
-        keystorePath: `${config.dataDirectory}/chains/d9_main/keystore`,
+        keystorePath: buildKeystorePath(config.dataDirectory),
       },
     });
 
@@ -96,6 +98,17 @@ export class NodeSetupService {
     await txManager.clear();
   }
 
+  /**
+   * Describe the operations setupNode() would perform, without executing them
+   */
+  async planSetup(config: NodeConfiguration): Promise<PlanStep[]> {
+    if (!config.isValid()) {
+      throw new Error('Invalid node configuration');
+    }
+
+    return await planOperations(this.buildOperations(config));
+  }
+
   /**
    * Build operations sequence for a configuration
    */
@@ -4,6 +4,39 @@ export interface NodeMetadataStruct {
   index_of_last_percent_change: number;
 }
 
+/**
+ * A candidate's d9NodeVoting metadata, decoded
+ */
+export interface CandidateMetadata {
+  name: string;
+  sharingPercent: number;
+  /** Session in which the sharing percentage last changed */
+  lastPercentChangeSession: number;
+}
+
+/**
+ * A validator candidate's standing in d9NodeVoting
+ */
+export interface CandidateInfo {
+  address: string;
+  /** Accumulated votes, as a decimal string */
+  votes: string;
+  /** Null if the runtime has no metadata for the candidate */
+  metadata: CandidateMetadata | null;
+}
+
+/**
+ * A validator's im_online liveness in the current session
+ */
+export interface HeartbeatStatus {
+  session: number;
+  /** Position of the validator's im_online key among the session's authorities */
+  authorityIndex: number;
+  heartbeatReceived: boolean;
+  /** Blocks the validator authored this session, which also count as liveness */
+  authoredBlocks: number;
+}
+
 export interface Language {
   code: 'en' | 'zh';
   name: string;
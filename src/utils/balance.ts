@@ -2,10 +2,13 @@ import { Input } from '@cliffy/prompt';
 import { getD9API } from './polkadot.ts';
 import { createProgressBar } from './system.ts';
 
+/** Decimals of the D9 token (12, like DOT) */
+const DECIMALS = 12;
+
 export function formatBalance(balance: string): string {
-  // Convert from smallest unit to D9 (assuming 12 decimals like DOT)
+  // Convert from smallest unit to D9
   const balanceNum = BigInt(balance);
-  const decimals = BigInt(10 ** 12);
+  const decimals = BigInt(10 ** DECIMALS);
   const wholePart = balanceNum / decimals;
   const fractionalPart = balanceNum % decimals;
   
@@ -13,11 +16,27 @@ export function formatBalance(balance: string): string {
     return wholePart.toString();
   }
   
-  const fractionalStr = fractionalPart.toString().padStart(12, '0').replace(/0+$/, '');
+  const fractionalStr = fractionalPart.toString().padStart(DECIMALS, '0').replace(/0+$/, '');
   return `${wholePart}.${fractionalStr}`;
 }
 
-export async function checkBalanceWithPrompt(address: string): Promise<{ balance: string; isEmpty: boolean }> {
+/**
+ * Convert a D9 amount such as "1.5" to the smallest unit
+ * @returns null if the amount is not a non-negative decimal with at most 12 decimals
+ */
+export function parseBalance(amount: string): string | null {
+  const match = amount.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match || (match[2]?.length ?? 0) > DECIMALS) {
+    return null;
+  }
+  return (BigInt(match[1]) * BigInt(10 ** DECIMALS) + BigInt((match[2] ?? '').padEnd(DECIMALS, '0'))).toString();
+}
+
+export async function checkBalanceWithPrompt(
+  address: string,
+  options: { waitForFunds?: boolean } = {}
+): Promise<{ balance: string; isEmpty: boolean }> {
+  const waitForFunds = options.waitForFunds ?? true;
   const api = getD9API();
   
   try {
@@ -27,6 +46,12 @@ export async function checkBalanceWithPrompt(address: string): Promise<{ balance
     
     console.log(`💰 Balance: ${formattedBalance} D9`);
     
+    if (isEmpty && !waitForFunds) {
+      console.log(`\n⚠️  Your account balance is empty.`);
+      console.log(`Please send D9 tokens to: ${address}`);
+      return { balance: formattedBalance, isEmpty: true };
+    }
+
     if (isEmpty) {
       console.log(`\n⚠️  Your account balance is empty.`);
       console.log(`Please send D9 tokens to: ${address}`);
@@ -0,0 +1,144 @@
+/**
+ * Offline installation bundles.
+ *
+ * A bundle is a .tar.gz holding everything setup would otherwise download:
+ * the d9-node release tarball with its .sha256, the chain spec of the
+ * bundle's network, and manifest.json listing the SHA-256 of every file.
+ * Opening a bundle checks those hashes before anything is used.
+ */
+
+import { NetworkProfile } from '../config/networks.ts';
+import { executeCommand } from './system.ts';
+
+export const BUNDLE_FORMAT = 1;
+export const BUNDLE_MANIFEST = 'manifest.json';
+
+/**
+ * manifest.json of a bundle
+ */
+export interface BundleManifest {
+  format: number;
+  createdAt: string;
+  /** d9-node release tag */
+  release: string;
+  /** Network profile the bundle was made for */
+  network: string;
+  chainId: string;
+  files: {
+    /** d9-node release tarball */
+    nodeTarball: string;
+    /** Chain spec, or null for networks using a built-in chain */
+    chainSpec: string | null;
+  };
+  /** SHA-256 of every other file in the bundle, by file name */
+  sha256: Record<string, string>;
+}
+
+/**
+ * A bundle extracted to a temporary directory and verified
+ */
+export interface OpenedBundle {
+  path: string;
+  directory: string;
+  manifest: BundleManifest;
+  /** Paths inside directory */
+  nodeTarball: string;
+  chainSpec: string | null;
+}
+
+/**
+ * Raised when a bundle is unreadable, incomplete or fails verification
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+/**
+ * SHA-256 of a file as lowercase hex
+ */
+export async function sha256File(path: string): Promise<string> {
+  const result = await executeCommand('sha256sum', [path]);
+  if (!result.success) {
+    throw new Error(`Failed to hash ${path}: ${result.error}`);
+  }
+  return result.output.trim().split(/\s+/)[0];
+}
+
+/**
+ * Extract and verify a bundle for the given network
+ */
+export async function openBundle(path: string, profile: NetworkProfile): Promise<OpenedBundle> {
+  const directory = await Deno.makeTempDir({ prefix: 'd9-bundle-' });
+
+  try {
+    const extractResult = await executeCommand('tar', ['-xzf', path, '-C', directory]);
+    if (!extractResult.success) {
+      throw new BundleError(`Cannot extract bundle ${path}: ${extractResult.error}`);
+    }
+
+    const manifest = await readManifest(directory);
+    if (manifest.chainId !== profile.chainId) {
+      throw new BundleError(
+        `Bundle is for network ${manifest.network} (chain ${manifest.chainId}), ` +
+        `not ${profile.name} (chain ${profile.chainId}); pass --network ${manifest.network}`
+      );
+    }
+
+    console.log(`📦 Verifying bundle ${path} (d9-node ${manifest.release}, ${manifest.network})...`);
+    for (const [name, expected] of Object.entries(manifest.sha256)) {
+      const actual = await sha256File(`${directory}/${name}`).catch(() => null);
+      if (actual !== expected) {
+        throw new BundleError(`Bundle file ${name} is missing or does not match its manifest hash`);
+      }
+    }
+
+    const nodeTarball = `${directory}/${manifest.files.nodeTarball}`;
+    const chainSpec = manifest.files.chainSpec ? `${directory}/${manifest.files.chainSpec}` : null;
+
+    console.log('✅ Bundle verified');
+    return { path, directory, manifest, nodeTarball, chainSpec };
+  } catch (error) {
+    await Deno.remove(directory, { recursive: true }).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Remove the extracted files of a bundle
+ */
+export async function closeBundle(bundle: OpenedBundle): Promise<void> {
+  await Deno.remove(bundle.directory, { recursive: true }).catch(() => {});
+}
+
+async function readManifest(directory: string): Promise<BundleManifest> {
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(await Deno.readTextFile(`${directory}/${BUNDLE_MANIFEST}`));
+  } catch (error) {
+    throw new BundleError(
+      `Bundle has no readable ${BUNDLE_MANIFEST}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new BundleError(`Unsupported bundle format ${manifest.format} (expected ${BUNDLE_FORMAT})`);
+  }
+
+  for (const name of Object.keys(manifest.sha256 ?? {})) {
+    if (name.includes('/') || name.startsWith('.')) {
+      throw new BundleError(`Bundle manifest lists an invalid file name: ${name}`);
+    }
+  }
+
+  const required = [manifest.files?.nodeTarball, manifest.files?.chainSpec].filter((name) => name);
+  for (const name of required) {
+    if (!manifest.sha256?.[name as string]) {
+      throw new BundleError(`Bundle manifest has no hash for ${name}`);
+    }
+  }
+
+  return manifest;
+}
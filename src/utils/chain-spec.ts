@@ -0,0 +1,298 @@
+/**
+ * Reading and comparing chain specifications.
+ *
+ * The genesis hash of a raw chain spec is derived the way the node derives
+ * it: the storage root of genesis.raw (trie layout chosen by the runtime's
+ * state version) goes into block 0's header, and the header hash is the
+ * genesis hash. Light-client specs carry the state root directly. Specs
+ * with a non-raw genesis need the runtime to build their storage, so their
+ * genesis hash is unknown.
+ */
+
+import { compactFromU8aLim, compactToU8a, hexToU8a, stringToU8a, u8aConcat, u8aEq, u8aToHex } from '@polkadot/util';
+import { blake2AsU8a, cryptoWaitReady } from '@polkadot/util-crypto';
+import { StateVersion, trieRoot } from './trie.ts';
+
+/** Storage key of the runtime wasm (":code") */
+const CODE_KEY = u8aToHex(stringToU8a(':code'));
+
+/** Prefix of the top-trie keys holding default child trie roots */
+const CHILD_STORAGE_PREFIX = stringToU8a(':child_storage:default:');
+
+/** Marker of a zstd-compressed runtime blob (sp-maybe-compressed-blob) */
+const ZSTD_PREFIX = new Uint8Array([82, 188, 83, 118, 70, 219, 142, 5]);
+
+/** Wasm custom section holding the SCALE-encoded RuntimeVersion */
+const RUNTIME_VERSION_SECTION = 'runtime_version';
+
+/** blake2_64("Core"), the id of the Core runtime API */
+const CORE_API_ID = '0xdf6acb689907609b';
+
+type RawStorage = Record<string, string>;
+
+/**
+ * The parts of a chain spec the manager cares about
+ */
+export interface ChainSpecSummary {
+  path: string;
+  name: string;
+  id: string;
+  chainType: string | null;
+  protocolId: string | null;
+  bootNodes: string[];
+  properties: Record<string, unknown>;
+  /** Null when the spec's genesis is not raw */
+  genesisHash: string | null;
+}
+
+/**
+ * A parsed chain spec with its raw genesis storage, if it has one
+ */
+export interface ChainSpec {
+  summary: ChainSpecSummary;
+  storage: RawStorage | null;
+}
+
+export interface FieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * Differences between two chain specs
+ */
+export interface ChainSpecDiff {
+  fields: FieldChange[];
+  bootNodes: { added: string[]; removed: string[] };
+  genesis: {
+    old: string | null;
+    new: string | null;
+    /** False when either genesis hash is unknown */
+    same: boolean;
+    /** Raw storage changes, when both specs are raw and the genesis differs */
+    storage?: { added: number; removed: number; changed: number; runtimeChanged: boolean };
+  };
+}
+
+/**
+ * Raised when a chain spec cannot be read or its genesis cannot be derived
+ */
+export class ChainSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChainSpecError';
+  }
+}
+
+/**
+ * Read a chain spec and derive its genesis hash
+ */
+export async function readChainSpec(path: string): Promise<ChainSpec> {
+  let json;
+  try {
+    json = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new ChainSpecError(
+      `Cannot read chain spec ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (typeof json?.id !== 'string' || typeof json?.genesis !== 'object' || json.genesis === null) {
+    throw new ChainSpecError(`${path} is not a chain spec (missing id or genesis)`);
+  }
+
+  const raw = json.genesis.raw;
+  const storage: RawStorage | null = raw?.top ?? null;
+  let genesisHash: string | null = null;
+  if (storage) {
+    genesisHash = await rawGenesisHash(storage, raw.childrenDefault ?? {});
+  } else if (typeof json.genesis.stateRootHash === 'string') {
+    genesisHash = genesisHashFromStateRoot(hexToU8a(json.genesis.stateRootHash));
+  }
+
+  return {
+    summary: {
+      path,
+      name: json.name ?? json.id,
+      id: json.id,
+      chainType: json.chainType ?? null,
+      protocolId: json.protocolId ?? null,
+      bootNodes: json.bootNodes ?? [],
+      properties: json.properties ?? {},
+      genesisHash,
+    },
+    storage,
+  };
+}
+
+/**
+ * Compare an installed chain spec with a candidate replacement
+ */
+export function diffChainSpecs(oldSpec: ChainSpec, newSpec: ChainSpec): ChainSpecDiff {
+  const before = oldSpec.summary;
+  const after = newSpec.summary;
+
+  const fields: FieldChange[] = [];
+  for (const field of ['name', 'id', 'chainType', 'protocolId'] as const) {
+    if (before[field] !== after[field]) {
+      fields.push({ field, old: before[field], new: after[field] });
+    }
+  }
+  const propertyNames = new Set([...Object.keys(before.properties), ...Object.keys(after.properties)]);
+  for (const name of propertyNames) {
+    if (JSON.stringify(before.properties[name]) !== JSON.stringify(after.properties[name])) {
+      fields.push({ field: `properties.${name}`, old: before.properties[name], new: after.properties[name] });
+    }
+  }
+
+  const same = before.genesisHash !== null && before.genesisHash === after.genesisHash;
+  const diff: ChainSpecDiff = {
+    fields,
+    bootNodes: {
+      added: after.bootNodes.filter((node) => !before.bootNodes.includes(node)),
+      removed: before.bootNodes.filter((node) => !after.bootNodes.includes(node)),
+    },
+    genesis: { old: before.genesisHash, new: after.genesisHash, same },
+  };
+
+  if (!same && oldSpec.storage && newSpec.storage) {
+    const oldStorage = oldSpec.storage;
+    const newStorage = newSpec.storage;
+    const oldKeys = Object.keys(oldStorage);
+    const newKeys = Object.keys(newStorage);
+    diff.genesis.storage = {
+      added: newKeys.filter((key) => !(key in oldStorage)).length,
+      removed: oldKeys.filter((key) => !(key in newStorage)).length,
+      changed: newKeys.filter((key) => key in oldStorage && oldStorage[key] !== newStorage[key]).length,
+      runtimeChanged: oldStorage[CODE_KEY] !== newStorage[CODE_KEY],
+    };
+  }
+
+  return diff;
+}
+
+/**
+ * Hash of block 0 for a genesis state root
+ */
+function genesisHashFromStateRoot(stateRoot: Uint8Array): string {
+  const header = u8aConcat(
+    new Uint8Array(32), // parent hash
+    compactToU8a(0), // number
+    stateRoot,
+    trieRoot([], 0), // extrinsics root of the empty block
+    compactToU8a(0) // no digest items
+  );
+  return u8aToHex(blake2AsU8a(header, 256));
+}
+
+async function rawGenesisHash(top: RawStorage, childrenDefault: Record<string, RawStorage>): Promise<string> {
+  await cryptoWaitReady();
+
+  const code = top[CODE_KEY];
+  if (!code) {
+    throw new ChainSpecError('Chain spec genesis has no runtime code');
+  }
+  const version = await readStateVersion(hexToU8a(code));
+
+  const pairs: [Uint8Array, Uint8Array][] = Object.entries(top).map(([key, value]) => [hexToU8a(key), hexToU8a(value)]);
+  for (const [childKey, child] of Object.entries(childrenDefault)) {
+    const childPairs: [Uint8Array, Uint8Array][] = Object.entries(child).map(([key, value]) => [hexToU8a(key), hexToU8a(value)]);
+    if (childPairs.length > 0) {
+      pairs.push([u8aConcat(CHILD_STORAGE_PREFIX, hexToU8a(childKey)), trieRoot(childPairs, version)]);
+    }
+  }
+
+  return genesisHashFromStateRoot(trieRoot(pairs, version));
+}
+
+/**
+ * Trie layout the runtime declares in its embedded RuntimeVersion
+ */
+async function readStateVersion(code: Uint8Array): Promise<StateVersion> {
+  let wasm = code;
+  if (u8aEq(code.subarray(0, ZSTD_PREFIX.length), ZSTD_PREFIX)) {
+    wasm = await decompressRuntime(code.subarray(ZSTD_PREFIX.length));
+  }
+
+  const section = findCustomSection(wasm, RUNTIME_VERSION_SECTION);
+  if (!section) {
+    throw new ChainSpecError(`Runtime code has no ${RUNTIME_VERSION_SECTION} section, cannot derive the genesis hash`);
+  }
+
+  // RuntimeVersion: spec_name, impl_name, authoring/spec/impl versions, apis,
+  // then transaction_version (Core >= 3) and state_version (Core >= 4)
+  let offset = 0;
+  for (let i = 0; i < 2; i++) {
+    const [length, size] = compactFromU8aLim(section.subarray(offset));
+    offset += length + size;
+  }
+  offset += 12;
+
+  const [length, apiCount] = compactFromU8aLim(section.subarray(offset));
+  offset += length;
+  let coreVersion = 0;
+  const view = new DataView(section.buffer, section.byteOffset, section.byteLength);
+  for (let i = 0; i < apiCount; i++) {
+    if (u8aToHex(section.subarray(offset, offset + 8)) === CORE_API_ID) {
+      coreVersion = view.getUint32(offset + 8, true);
+    }
+    offset += 12;
+  }
+
+  if (coreVersion < 4) {
+    return 0;
+  }
+  // Versions above 1 fall back to the latest layout, as in sp-version
+  return section[offset + 4] === 0 ? 0 : 1;
+}
+
+/**
+ * Decompress a zstd runtime blob. node:zlib is only loaded for compressed
+ * runtimes, since older Deno releases lack zstdDecompressSync and every
+ * command imports this module.
+ */
+async function decompressRuntime(blob: Uint8Array): Promise<Uint8Array> {
+  const zlib: { zstdDecompressSync?: (data: Uint8Array) => Uint8Array } = await import('node:zlib');
+  if (typeof zlib.zstdDecompressSync !== 'function') {
+    throw new ChainSpecError(
+      `Runtime code is zstd-compressed and Deno ${Deno.version.deno} cannot decompress it, cannot derive the genesis hash`
+    );
+  }
+  return new Uint8Array(zlib.zstdDecompressSync(blob));
+}
+
+function findCustomSection(wasm: Uint8Array, name: string): Uint8Array | null {
+  if (wasm[0] !== 0x00 || new TextDecoder().decode(wasm.subarray(1, 4)) !== 'asm') {
+    throw new ChainSpecError('Runtime code is not a wasm module');
+  }
+
+  // Sections follow the magic number and version
+  let offset = 8;
+  const readLeb = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = wasm[offset++];
+      result += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  while (offset < wasm.length) {
+    const id = wasm[offset++];
+    const size = readLeb();
+    const end = offset + size;
+    if (id === 0) {
+      const nameLength = readLeb();
+      const sectionName = new TextDecoder().decode(wasm.subarray(offset, offset + nameLength));
+      if (sectionName === name) {
+        return wasm.subarray(offset + nameLength, end);
+      }
+    }
+    offset = end;
+  }
+  return null;
+}
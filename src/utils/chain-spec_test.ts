@@ -0,0 +1,99 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { ChainSpecError, readChainSpec } from './chain-spec.ts';
+import { getGenesisHash } from './node-rpc.ts';
+import { NETWORK } from '../config/constants.ts';
+
+// The runtimes below are bare wasm modules holding only a runtime_version
+// section (Core API version and state version vary). Expected genesis hashes
+// were computed with sp-trie (via chopsticks-executor) and @polkadot/types'
+// Header, not with this implementation.
+
+const RUNTIME_CORE4_V1 =
+  '0x0061736d01000000004a0f72756e74696d655f76657273696f6e1c64392d746573741c64392d746573740100000064000000010000000837e397fc7c91f5e402000000df6acb689907609b040000000100000001';
+const RUNTIME_CORE4_V0 =
+  '0x0061736d01000000004a0f72756e74696d655f76657273696f6e1c64392d746573741c64392d746573740100000064000000010000000837e397fc7c91f5e402000000df6acb689907609b040000000100000000';
+/** Core 3 predates state_version, so the trailing byte must be ignored */
+const RUNTIME_CORE3 =
+  '0x0061736d01000000004a0f72756e74696d655f76657273696f6e1c64392d746573741c64392d746573740100000064000000010000000837e397fc7c91f5e402000000df6acb689907609b030000000100000001';
+/** RUNTIME_CORE4_V1 behind the sp-maybe-compressed-blob zstd prefix */
+const RUNTIME_CORE4_V1_ZSTD =
+  '0x52bc537646db8e0528b52ffd0058a102000061736d01000000004a0f72756e74696d655f76657273696f6e1c64392d746573741c64392d746573740100000064000000010000000837e397fc7c91f5e402000000df6acb689907609b040000000100000001';
+
+function fill(byte: number, length: number): string {
+  return '0x' + byte.toString(16).padStart(2, '0').repeat(length);
+}
+
+/**
+ * Write a raw chain spec with the given runtime and fixed storage, then read it
+ */
+async function readRawSpec(code: string) {
+  const path = await Deno.makeTempFile({ prefix: 'd9-test-', suffix: '.json' });
+  try {
+    await Deno.writeTextFile(path, JSON.stringify({
+      name: 'D9 Test',
+      id: 'd9_test',
+      chainType: 'Local',
+      bootNodes: [],
+      genesis: {
+        raw: {
+          top: {
+            '0x3a636f6465': code,
+            '0x26aa394eea5630e07c48ae0c9558cef7': fill(0x09, 48),
+            '0x01': '0x00',
+          },
+          childrenDefault: {
+            // "d9-child"
+            '0x64392d6368696c64': { '0x01': fill(0x21, 40), '0x02': '0x02' },
+          },
+        },
+      },
+    }));
+    return await readChainSpec(path);
+  } finally {
+    await Deno.remove(path);
+  }
+}
+
+/**
+ * Whether this Deno can decompress zstd runtimes
+ */
+async function hasZstd(): Promise<boolean> {
+  const zlib: { zstdDecompressSync?: unknown } = await import('node:zlib');
+  return typeof zlib.zstdDecompressSync === 'function';
+}
+
+Deno.test('readChainSpec derives the genesis hash of a raw spec under state version 1', async () => {
+  const spec = await readRawSpec(RUNTIME_CORE4_V1);
+  assertEquals(spec.summary.genesisHash, '0x53111e38aa6d5a5175f99f9a69c31931b2b6fd3a7a5f61b10ce65e300df62338');
+});
+
+Deno.test('readChainSpec derives the genesis hash of a raw spec under state version 0', async () => {
+  const spec = await readRawSpec(RUNTIME_CORE4_V0);
+  assertEquals(spec.summary.genesisHash, '0x4c03180757743ce723733dbe202fd63ac9a4f3b172281c89dd72ad9b1a544c75');
+});
+
+Deno.test('readChainSpec uses state version 0 for runtimes before Core API 4', async () => {
+  const spec = await readRawSpec(RUNTIME_CORE3);
+  assertEquals(spec.summary.genesisHash, '0xd07e416fe14ac649f525a9f56bb20ceadaa62cffa9c97bd8a6190f45b38b6b04');
+});
+
+Deno.test('readChainSpec reads the state version of a zstd-compressed runtime', async () => {
+  if (await hasZstd()) {
+    const spec = await readRawSpec(RUNTIME_CORE4_V1_ZSTD);
+    assertEquals(spec.summary.genesisHash, '0x6fa6343298b22239f375fed986f683d5e8f9b4db279d090aa6c161a4c56f96b8');
+  } else {
+    await assertRejects(() => readRawSpec(RUNTIME_CORE4_V1_ZSTD), ChainSpecError, 'cannot decompress it');
+  }
+});
+
+// Needs the published mainnet raw spec and network access:
+//   D9_MAINNET_SPEC=/path/to/new-main-spec.json deno task test
+Deno.test({
+  name: 'readChainSpec matches the mainnet genesis hash',
+  ignore: !Deno.env.get('D9_MAINNET_SPEC'),
+  async fn() {
+    const spec = await readChainSpec(Deno.env.get('D9_MAINNET_SPEC')!);
+    const url = Deno.env.get('D9_MAINNET_RPC') ?? NETWORK.ENDPOINT.replace(/^ws/, 'http');
+    assertEquals(spec.summary.genesisHash, await getGenesisHash(url));
+  },
+});
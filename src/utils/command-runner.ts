@@ -0,0 +1,309 @@
+/**
+ * Process execution abstraction.
+ *
+ * Every external command goes through a CommandRunner so setup, conversion,
+ * key insertion and package management can run against a scripted fake
+ * instead of a real host. The default runner spawns processes with
+ * Deno.Command; setCommandRunner() swaps it for the whole process.
+ */
+
+/**
+ * Captured result of a finished command
+ */
+export interface CommandOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A single command invocation as seen by a runner
+ */
+export interface CommandInvocation {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  /** True when run with inherited stdio */
+  interactive?: boolean;
+}
+
+export interface CommandRunnerOptions {
+  /** Extra environment variables, merged over the current environment */
+  env?: Record<string, string>;
+}
+
+/**
+ * Runs external commands
+ */
+export interface CommandRunner {
+  /**
+   * Run a command to completion, capturing stdout and stderr
+   */
+  run(command: string, args: string[], options?: CommandRunnerOptions): Promise<CommandOutput>;
+
+  /**
+   * Run a command attached to the terminal (e.g. following logs)
+   * @returns Exit code
+   */
+  runInteractive(command: string, args: string[]): Promise<number>;
+
+  /**
+   * Run a command, passing each stdout line to onLine as it arrives (e.g.
+   * following logs). Stderr goes to the terminal.
+   * @returns Exit code
+   */
+  stream(command: string, args: string[], onLine: (line: string) => void): Promise<number>;
+}
+
+/**
+ * Runner that spawns real processes
+ */
+export class DenoCommandRunner implements CommandRunner {
+  async run(command: string, args: string[], options: CommandRunnerOptions = {}): Promise<CommandOutput> {
+    const process = new Deno.Command(command, {
+      args,
+      env: options.env ? { ...Deno.env.toObject(), ...options.env } : undefined,
+      stdout: 'piped',
+      stderr: 'piped',
+    });
+    const result = await process.output();
+
+    return {
+      code: result.code,
+      stdout: new TextDecoder().decode(result.stdout),
+      stderr: new TextDecoder().decode(result.stderr),
+    };
+  }
+
+  async runInteractive(command: string, args: string[]): Promise<number> {
+    const process = new Deno.Command(command, {
+      args,
+      stdin: 'inherit',
+      stdout: 'inherit',
+      stderr: 'inherit',
+    });
+    const status = await process.spawn().status;
+    return status.code;
+  }
+
+  async stream(command: string, args: string[], onLine: (line: string) => void): Promise<number> {
+    const child = new Deno.Command(command, {
+      args,
+      stdin: 'inherit',
+      stdout: 'piped',
+      stderr: 'inherit',
+    }).spawn();
+
+    let pending = '';
+    for await (const chunk of child.stdout.pipeThrough(new TextDecoderStream())) {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(onLine);
+    }
+    if (pending) {
+      onLine(pending);
+    }
+    return (await child.status).code;
+  }
+}
+
+/**
+ * Matches an invocation by its space-joined command line, a pattern over it,
+ * or a predicate
+ */
+export type InvocationMatcher = string | RegExp | ((invocation: CommandInvocation) => boolean);
+
+type ScriptedResponse = Partial<CommandOutput> | ((invocation: CommandInvocation) => Partial<CommandOutput>);
+
+/**
+ * Scripted runner for tests: records every invocation and answers with
+ * canned output. Unmatched commands succeed with empty output unless
+ * strict mode is on, in which case they throw.
+ */
+export class FakeCommandRunner implements CommandRunner {
+  readonly invocations: CommandInvocation[] = [];
+  private responses: { matcher: InvocationMatcher; response: ScriptedResponse; once: boolean }[] = [];
+
+  constructor(private readonly options: { strict?: boolean } = {}) {}
+
+  /**
+   * Answer every matching invocation with the given output
+   */
+  on(matcher: InvocationMatcher, response: ScriptedResponse): this {
+    this.responses.push({ matcher, response, once: false });
+    return this;
+  }
+
+  /**
+   * Answer only the next matching invocation with the given output
+   */
+  once(matcher: InvocationMatcher, response: ScriptedResponse): this {
+    this.responses.push({ matcher, response, once: true });
+    return this;
+  }
+
+  /**
+   * Recorded invocations as command lines, e.g. "sudo systemctl stop d9-node"
+   */
+  get commandLines(): string[] {
+    return this.invocations.map(toCommandLine);
+  }
+
+  /**
+   * Recorded invocations matching a matcher
+   */
+  calls(matcher: InvocationMatcher): CommandInvocation[] {
+    return this.invocations.filter((invocation) => matches(matcher, invocation));
+  }
+
+  reset(): void {
+    this.invocations.length = 0;
+    this.responses = [];
+  }
+
+  run(command: string, args: string[], options: CommandRunnerOptions = {}): Promise<CommandOutput> {
+    return new Promise((resolve) => resolve(this.respond({ command, args: [...args], env: options.env })));
+  }
+
+  runInteractive(command: string, args: string[]): Promise<number> {
+    return new Promise((resolve) => resolve(this.respond({ command, args: [...args], interactive: true }).code));
+  }
+
+  stream(command: string, args: string[], onLine: (line: string) => void): Promise<number> {
+    return new Promise((resolve) => {
+      const output = this.respond({ command, args: [...args] });
+      output.stdout.split('\n').filter((line) => line.length > 0).forEach(onLine);
+      resolve(output.code);
+    });
+  }
+
+  private respond(invocation: CommandInvocation): CommandOutput {
+    this.invocations.push(invocation);
+
+    const index = this.responses.findIndex((entry) => matches(entry.matcher, invocation));
+    if (index === -1) {
+      if (this.options.strict) {
+        throw new Error(`Unexpected command: ${toCommandLine(invocation)}`);
+      }
+      return { code: 0, stdout: '', stderr: '' };
+    }
+
+    const entry = this.responses[index];
+    if (entry.once) {
+      this.responses.splice(index, 1);
+    }
+
+    const response = typeof entry.response === 'function' ? entry.response(invocation) : entry.response;
+    return { code: 0, stdout: '', stderr: '', ...response };
+  }
+}
+
+/**
+ * Programs that change the host itself (packages, users, systemd, swap)
+ * rather than files, so a root prefix cannot redirect them
+ */
+const HOST_PROGRAMS = [
+  'apt', 'apt-get', 'apt-mark', 'dpkg',
+  'useradd', 'userdel', 'usermod', 'groupadd',
+  'systemctl', 'swapon', 'swapoff', 'mkswap',
+  // Service users are never created under a prefix, so their files cannot be chowned to them
+  'chown',
+];
+
+/**
+ * Read-only uses of HOST_PROGRAMS, which still run
+ */
+const HOST_QUERIES = ['dpkg -l', 'systemctl is-active', 'systemctl is-enabled', 'systemctl status', 'systemctl show'];
+
+/**
+ * Runner for installs under D9_MANAGER_ROOT: files already land below the
+ * prefix, and commands that would change the host itself are recorded and
+ * answered with success instead of being run. Everything else goes to the
+ * wrapped runner.
+ */
+export class RootPrefixCommandRunner implements CommandRunner {
+  readonly skipped: CommandInvocation[] = [];
+
+  constructor(
+    private readonly root: string,
+    private readonly inner: CommandRunner = new DenoCommandRunner()
+  ) {}
+
+  run(command: string, args: string[], options: CommandRunnerOptions = {}): Promise<CommandOutput> {
+    if (this.skip({ command, args: [...args], env: options.env })) {
+      return Promise.resolve({ code: 0, stdout: '', stderr: '' });
+    }
+    return this.inner.run(command, args, options);
+  }
+
+  runInteractive(command: string, args: string[]): Promise<number> {
+    if (this.skip({ command, args: [...args], interactive: true })) {
+      return Promise.resolve(0);
+    }
+    return this.inner.runInteractive(command, args);
+  }
+
+  stream(command: string, args: string[], onLine: (line: string) => void): Promise<number> {
+    if (this.skip({ command, args: [...args] })) {
+      return Promise.resolve(0);
+    }
+    return this.inner.stream(command, args, onLine);
+  }
+
+  private skip(invocation: CommandInvocation): boolean {
+    const [program, ...args] = unwrapSudo(invocation);
+    const commandLine = [program, ...args].join(' ');
+    if (
+      !HOST_PROGRAMS.includes(program) ||
+      HOST_QUERIES.some((query) => commandLine === query || commandLine.startsWith(`${query} `))
+    ) {
+      return false;
+    }
+
+    this.skipped.push(invocation);
+    console.log(`⏭️  Skipped under root prefix ${this.root}: ${toCommandLine(invocation)}`);
+    return true;
+  }
+}
+
+/**
+ * The program and arguments a command line runs, without a leading `sudo [-u user]`
+ */
+function unwrapSudo(invocation: CommandInvocation): string[] {
+  const line = [invocation.command, ...invocation.args];
+  if (line[0] !== 'sudo') {
+    return line;
+  }
+  return line[1] === '-u' ? line.slice(3) : line.slice(1);
+}
+
+function toCommandLine(invocation: CommandInvocation): string {
+  return [invocation.command, ...invocation.args].join(' ');
+}
+
+function matches(matcher: InvocationMatcher, invocation: CommandInvocation): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(invocation);
+  }
+  const commandLine = toCommandLine(invocation);
+  return typeof matcher === 'string' ? commandLine === matcher : matcher.test(commandLine);
+}
+
+let currentRunner: CommandRunner = new DenoCommandRunner();
+
+/**
+ * Runner used by executeCommand and every module that does not get one injected
+ */
+export function getCommandRunner(): CommandRunner {
+  return currentRunner;
+}
+
+/**
+ * Replace the process-wide runner
+ * @returns The previous runner, so callers can restore it
+ */
+export function setCommandRunner(runner: CommandRunner): CommandRunner {
+  const previous = currentRunner;
+  currentRunner = runner;
+  return previous;
+}
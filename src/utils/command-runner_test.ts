@@ -0,0 +1,92 @@
+import { assert, assertEquals } from '@std/assert';
+import { FakeCommandRunner, RootPrefixCommandRunner } from './command-runner.ts';
+import { withTestEnvironment } from './testing.ts';
+import {
+  CreateUserOperation,
+  EnableServiceOperation,
+  StartServiceOperation,
+} from '../core/system-operations.ts';
+
+Deno.test('RootPrefixCommandRunner skips commands that change the host', async () => {
+  const inner = new FakeCommandRunner({ strict: true });
+  const runner = new RootPrefixCommandRunner('/tmp/sandbox', inner);
+
+  await withTestEnvironment({ captureConsole: true }, async () => {
+    for (
+      const line of [
+        'sudo apt update -qq',
+        'sudo apt install -y -qq jq',
+        'sudo dpkg --configure -a',
+        'sudo useradd --system --no-create-home d9-node',
+        'sudo chown -R d9-node:d9-node /tmp/sandbox/var/lib/d9-node',
+        'sudo systemctl daemon-reload',
+        'sudo systemctl enable d9-node.service',
+        'sudo systemctl start d9-node.service',
+        'sudo -u d9-node systemctl --user restart x.service',
+      ]
+    ) {
+      const [command, ...args] = line.split(' ');
+      assertEquals(await runner.run(command, args), { code: 0, stdout: '', stderr: '' });
+    }
+    assertEquals(await runner.runInteractive('sudo', ['apt', 'update']), 0);
+  });
+
+  assertEquals(inner.invocations.length, 0);
+  assertEquals(runner.skipped.length, 10);
+});
+
+Deno.test('RootPrefixCommandRunner runs file commands and read-only queries', async () => {
+  const inner = new FakeCommandRunner({ strict: true })
+    .on(/^sudo (mv|mkdir|chmod) /, {})
+    .on('dpkg -l jq', { stdout: 'ii  jq  1.6  amd64  JSON processor' })
+    .on('systemctl is-active d9-node.service', { code: 3, stdout: 'inactive' })
+    .on('sudo journalctl -u d9-node.service -n 5 --no-pager', { stdout: 'log line' });
+  const runner = new RootPrefixCommandRunner('/tmp/sandbox', inner);
+
+  await runner.run('sudo', ['mkdir', '-p', '/tmp/sandbox/usr/local/bin']);
+  await runner.run('sudo', ['mv', '/tmp/d9-node', '/tmp/sandbox/usr/local/bin/d9-node']);
+  await runner.run('sudo', ['chmod', '755', '/tmp/sandbox/usr/local/bin/d9-node']);
+  assertEquals((await runner.run('dpkg', ['-l', 'jq'])).stdout, 'ii  jq  1.6  amd64  JSON processor');
+  assertEquals((await runner.run('systemctl', ['is-active', 'd9-node.service'])).code, 3);
+  await runner.run('sudo', ['journalctl', '-u', 'd9-node.service', '-n', '5', '--no-pager']);
+
+  assertEquals(inner.invocations.length, 6);
+  assertEquals(runner.skipped.length, 0);
+});
+
+Deno.test('Service and user operations leave the host alone under a root prefix', async () => {
+  const inner = new FakeCommandRunner({ strict: true })
+    .on('id d9-node', { code: 1, stderr: 'id: d9-node: no such user' })
+    .on('systemctl is-enabled d9-node.service', { code: 1, stdout: 'disabled' })
+    .on('systemctl is-active d9-node.service', { code: 3, stdout: 'inactive' });
+  const runner = new RootPrefixCommandRunner('/tmp/sandbox', inner);
+
+  await withTestEnvironment({ runner, captureConsole: true }, async () => {
+    for (
+      const operation of [
+        new CreateUserOperation('d9-node', { system: true, noCreateHome: true }),
+        new EnableServiceOperation('d9-node.service'),
+        new StartServiceOperation('d9-node.service'),
+      ]
+    ) {
+      assertEquals(await operation.isAlreadyDone(), false);
+      assert((await operation.execute()).success);
+      assert((await operation.rollback()).success);
+    }
+  });
+
+  // Only the read-only checks reached the host
+  assertEquals(inner.commandLines, [
+    'id d9-node',
+    'systemctl is-enabled d9-node.service',
+    'systemctl is-active d9-node.service',
+  ]);
+  assertEquals(runner.skipped.map(({ command, args }) => [command, ...args].join(' ')), [
+    'sudo useradd --system --no-create-home d9-node',
+    'sudo userdel d9-node',
+    'sudo systemctl enable d9-node.service',
+    'sudo systemctl disable d9-node.service',
+    'sudo systemctl start d9-node.service',
+    'sudo systemctl stop d9-node.service',
+  ]);
+});
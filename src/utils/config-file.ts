@@ -0,0 +1,44 @@
+/**
+ * Parsing for user-supplied YAML, TOML and JSON files
+ */
+
+import { parse as parseYaml } from '@std/yaml';
+import { parse as parseToml } from '@std/toml';
+
+/**
+ * Raised when a config file has an unsupported extension or does not parse
+ */
+export class ConfigFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigFileError';
+  }
+}
+
+/**
+ * Parse file content according to the file's extension
+ */
+export function parseConfigContent(content: string, fileName: string): unknown {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  try {
+    switch (extension) {
+      case 'yaml':
+      case 'yml':
+        return parseYaml(content);
+      case 'toml':
+        return parseToml(content);
+      case 'json':
+        return JSON.parse(content);
+      default:
+        throw new ConfigFileError(`Unsupported format '.${extension}' (use .yaml, .toml or .json)`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigFileError) {
+      throw error;
+    }
+    throw new ConfigFileError(
+      `Failed to parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Minimal line-based unified diff for showing configuration file changes.
+ */
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+/**
+ * Compute line edits using the longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ kind: ' ', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: '-', text: oldLines[i++] });
+    } else {
+      result.push({ kind: '+', text: newLines[j++] });
+    }
+  }
+  while (i < rows) result.push({ kind: '-', text: oldLines[i++] });
+  while (j < cols) result.push({ kind: '+', text: newLines[j++] });
+
+  return result;
+}
+
+/**
+ * Produce a unified diff between two texts, or an empty string if they match
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const split = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+  const lines = diffLines(split(oldText), split(newText));
+
+  // Group changes into hunks with surrounding context
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].kind === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < lines.length) {
+      if (lines[end].kind !== ' ') {
+        end++;
+        continue;
+      }
+      let run = 0;
+      while (end + run < lines.length && lines[end + run].kind === ' ') run++;
+      if (end + run >= lines.length || run > context * 2) {
+        end = Math.min(lines.length, end + context);
+        break;
+      }
+      end += run;
+    }
+
+    // Line numbers for the hunk header
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < start; k++) {
+      if (lines[k].kind !== '+') oldStart++;
+      if (lines[k].kind !== '-') newStart++;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== '+').length;
+    const newCount = hunk.filter((line) => line.kind !== '-').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.kind}${line.text}`));
+
+    index = end;
+  }
+
+  return output.join('\n');
+}
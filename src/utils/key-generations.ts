@@ -0,0 +1,69 @@
+/**
+ * Persistent record of session key generations.
+ *
+ * Each rotation creates a generation: the public keys and the keystore files
+ * holding them. A generation stays pending until its keys show up in
+ * session.nextKeys, and only then do the previous generation's files go.
+ * The record also pins the keystore file holding the controller key, the
+ * account that signs session.setKeys, so the node account stays the same
+ * once the keystore holds more than one aura key.
+ */
+
+import { getConfigDir } from '../core/state-manager.ts';
+
+/**
+ * One set of session keys
+ */
+export interface KeyGeneration {
+  generation: number;
+  /** author_rotateKeys on the node, or derived from the root mnemonic */
+  source: 'rotate-keys' | 'derived';
+  /** HD index of derived keys (//aura//<index>) */
+  derivationIndex?: number;
+  /** Public keys by SessionKeys field */
+  keys: Record<string, string>;
+  /** Keystore files holding the keys */
+  files: string[];
+  createdAt: string;
+  /** When the keys were seen in session.nextKeys */
+  confirmedAt?: string;
+  /** Block the setKeys transaction was included in */
+  blockHash?: string;
+}
+
+export interface KeyGenerationState {
+  /** Account that signs session.setKeys */
+  controller: string;
+  /** Keystore file holding the controller's secret, never removed by rotation */
+  controllerFile: string;
+  active: KeyGeneration | null;
+  pending: KeyGeneration | null;
+  /** Highest HD index used so far; setup's advanced mode uses 0 */
+  lastDerivationIndex: number;
+}
+
+/**
+ * Path of the key generation record
+ */
+export function getKeyGenerationPath(): string {
+  return `${getConfigDir()}/keys.json`;
+}
+
+/**
+ * Load the key generation record, or null if keys were never rotated
+ */
+export async function loadKeyGenerations(): Promise<KeyGenerationState | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(getKeyGenerationPath()));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw new Error(`Failed to load key generations: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function saveKeyGenerations(state: KeyGenerationState): Promise<void> {
+  await Deno.mkdir(getConfigDir(), { recursive: true });
+  await Deno.writeTextFile(getKeyGenerationPath(), JSON.stringify(state, null, 2));
+}
@@ -2,7 +2,9 @@ import { Keyring } from "@polkadot/keyring";
 import { u8aToHex, hexToU8a } from "@polkadot/util";
 import { mnemonicValidate } from "@polkadot/util-crypto";
 import { cryptoWaitReady } from "@polkadot/util-crypto";
-import { PATHS, CHAIN, KEY_TYPES } from "../config/constants.ts";
+import { PATHS, KEY_TYPES, ALL_KEY_TYPES, hostPath } from "../config/constants.ts";
+import { getNetworkProfile } from "../config/networks.ts";
+import { loadKeyGenerations } from "./key-generations.ts";
 
 export interface KeystoreInfo {
 	address: string;
@@ -11,15 +13,30 @@ export interface KeystoreInfo {
 }
 
 /**
- * Build keystore path from a base data directory
+ * One session key file in a keystore
+ */
+export interface KeystoreEntry {
+	/** Key type identifier, e.g. "aura" */
+	type: string;
+	file: string;
+	/** Public key encoded in the file name */
+	publicKey: string;
+	/** Public key derived from the file's secret, or null if it does not parse */
+	derivedPublicKey: string | null;
+	error?: string;
+}
+
+/**
+ * Build keystore path from a base data directory for the active network
  */
 export function buildKeystorePath(basePath: string): string {
-	return `${basePath}/${CHAIN.KEYSTORE_SUFFIX}`;
+	return `${basePath}/${getNetworkProfile().keystoreSuffix}`;
 }
 
 /**
  * Get the actual data directory in use by checking which one exists.
- * Returns null if no data directory is found.
+ * Returns the host path (under D9_MANAGER_ROOT if set), or null if no
+ * data directory is found.
  */
 export async function getDataDirectory(): Promise<string | null> {
 	const possiblePaths: string[] = [
@@ -35,7 +52,7 @@ export async function getDataDirectory(): Promise<string | null> {
 		possiblePaths.push(`/home/${sudoUser}/node-data`);
 	}
 
-	for (const path of possiblePaths) {
+	for (const path of possiblePaths.map(hostPath)) {
 		try {
 			const stat = await Deno.stat(path);
 			if (stat.isDirectory) {
@@ -50,12 +67,17 @@ export async function getDataDirectory(): Promise<string | null> {
 }
 
 /**
- * Find the keystore directory path across multiple possible locations.
- * This is the single source of truth for keystore location.
+ * Result of searching the known keystore locations
  */
-export async function findKeystorePath(options?: { verbose?: boolean }): Promise<string | null> {
-	const verbose = options?.verbose ?? true;
+export interface KeystoreDiscovery {
+	searched: Array<{ path: string; found: boolean }>;
+	path: string | null;
+}
 
+/**
+ * Get the keystore locations to search, in priority order, as host paths
+ */
+export function getKeystoreCandidates(): string[] {
 	// Build possible keystore paths from data directories
 	const possiblePaths: string[] = [
 		buildKeystorePath(PATHS.DATA_DIR_NEW),
@@ -70,6 +92,41 @@ export async function findKeystorePath(options?: { verbose?: boolean }): Promise
 		possiblePaths.push(buildKeystorePath(`/home/${sudoUser}/node-data`));
 	}
 
+	return possiblePaths.map(hostPath);
+}
+
+/**
+ * Check every keystore location without printing anything
+ */
+export async function discoverKeystore(): Promise<KeystoreDiscovery> {
+	const searched: KeystoreDiscovery["searched"] = [];
+	let found: string | null = null;
+
+	for (const path of getKeystoreCandidates()) {
+		let exists = false;
+		try {
+			exists = (await Deno.stat(path)).isDirectory;
+		} catch {
+			// Path doesn't exist
+		}
+		searched.push({ path, found: exists });
+		if (exists && !found) {
+			found = path;
+		}
+	}
+
+	return { searched, path: found };
+}
+
+/**
+ * Find the keystore directory path across multiple possible locations.
+ * This is the single source of truth for keystore location.
+ */
+export async function findKeystorePath(options?: { verbose?: boolean }): Promise<string | null> {
+	const verbose = options?.verbose ?? true;
+
+	const possiblePaths = getKeystoreCandidates();
+
 	if (verbose) {
 		console.log("🔍 Searching for keystore in the following locations:");
 		possiblePaths.forEach((path, idx) => {
@@ -87,7 +144,7 @@ export async function findKeystorePath(options?: { verbose?: boolean }): Promise
 				}
 				return path;
 			}
-		} catch (error) {
+		} catch {
 			if (verbose) {
 				console.log(`   ❌ Not found: ${path}`);
 			}
@@ -101,38 +158,38 @@ export async function findKeystorePath(options?: { verbose?: boolean }): Promise
 	return null;
 }
 
-export async function readKeystoreInfo(): Promise<KeystoreInfo | null> {
+export async function readKeystoreInfo(options?: { verbose?: boolean }): Promise<KeystoreInfo | null> {
+	const verbose = options?.verbose ?? true;
+	const log = (...args: unknown[]) => {
+		if (verbose) console.log(...args);
+	};
+
 	await cryptoWaitReady();
 
-	const keystorePath = await findKeystorePath({ verbose: true });
+	const keystorePath = await findKeystorePath({ verbose });
 
 	if (!keystorePath) {
 		return null;
 	}
 
 	try {
-		console.log(`\n🔑 Checking for keys in keystore...`);
+		log(`\n🔑 Checking for keys in keystore...`);
 
 		// Look for aura key (starts with KEY_TYPES.AURA.prefix)
-		const files = [];
-		for await (const dirEntry of Deno.readDir(keystorePath)) {
-			if (dirEntry.isFile && dirEntry.name.startsWith(KEY_TYPES.AURA.prefix)) {
-				files.push(dirEntry.name);
-			}
-		}
+		const keyFile = await findControllerKeyFile(keystorePath);
 
-		if (files.length === 0) {
-			console.log(`❌ No aura key found in keystore (expected file starting with '${KEY_TYPES.AURA.prefix}')`);
-			console.log(`   Keystore path: ${keystorePath}`);
-			console.log("💡 Keys are generated during node setup. Please run setup first.");
+		if (!keyFile) {
+			log(`❌ No aura key found in keystore (expected file starting with '${KEY_TYPES.AURA.prefix}')`);
+			log(`   Keystore path: ${keystorePath}`);
+			log("💡 Keys are generated during node setup. Please run setup first.");
 			return { address: "", publicKey: "", hasKeys: false };
 		}
 
-		console.log(`✅ Found ${files.length} aura key(s)`);
+		log(`✅ Found aura key`);
 
-		// Read the first aura key file
-		const keyFilePath = `${keystorePath}/${files[0]}`;
-		console.log(`📖 Reading key from: ${keyFilePath}`);
+		// Read the aura key file holding the node account
+		const keyFilePath = `${keystorePath}/${keyFile}`;
+		log(`📖 Reading key from: ${keyFilePath}`);
 		let keyData = await Deno.readTextFile(keyFilePath);
 
 		// Remove quotes if present (key files often have quotes around the actual key)
@@ -194,8 +251,8 @@ export async function readKeystoreInfo(): Promise<KeystoreInfo | null> {
 		const keyring = new Keyring({ type: "sr25519", ss58Format: 9 });
 		const keyPair = keyring.addFromUri(secretKey);
 
-		console.log(`✅ Successfully loaded key`);
-		console.log(`   Address: Dn${keyPair.address}`);
+		log(`✅ Successfully loaded key`);
+		log(`   Address: Dn${keyPair.address}`);
 
 		return {
 			address: `Dn${keyPair.address}`,
@@ -213,12 +270,73 @@ export async function readKeystoreInfo(): Promise<KeystoreInfo | null> {
 	}
 }
 
-export async function hasValidKeystore(): Promise<boolean> {
-	const keystoreInfo = await readKeystoreInfo();
+/**
+ * Aura key file holding the node account's secret. After a key rotation the
+ * keystore can hold several aura keys, so the file recorded by the rotation
+ * wins; otherwise the first aura key file is used.
+ */
+export async function findControllerKeyFile(keystorePath: string): Promise<string | null> {
+	const files: string[] = [];
+	for await (const dirEntry of Deno.readDir(keystorePath)) {
+		if (dirEntry.isFile && dirEntry.name.startsWith(KEY_TYPES.AURA.prefix)) {
+			files.push(dirEntry.name);
+		}
+	}
+
+	const pinned = (await loadKeyGenerations())?.controllerFile;
+	if (pinned && files.includes(pinned)) {
+		return pinned;
+	}
+	return files.sort()[0] ?? null;
+}
+
+export async function hasValidKeystore(options?: { verbose?: boolean }): Promise<boolean> {
+	const keystoreInfo = await readKeystoreInfo(options);
 	return keystoreInfo?.hasKeys ?? false;
 }
 
-export async function getNodeAddress(): Promise<string | null> {
-	const keystoreInfo = await readKeystoreInfo();
+export async function getNodeAddress(options?: { verbose?: boolean }): Promise<string | null> {
+	const keystoreInfo = await readKeystoreInfo(options);
 	return keystoreInfo?.address ?? null;
 }
+
+/**
+ * Read every session key file in a keystore and derive its public key.
+ * Key files are named <key type hex><public key hex> and hold the secret
+ * URI as a JSON string.
+ */
+export async function inspectKeystore(keystorePath: string): Promise<KeystoreEntry[]> {
+	await cryptoWaitReady();
+
+	const entries: KeystoreEntry[] = [];
+	for await (const dirEntry of Deno.readDir(keystorePath)) {
+		const keyType = ALL_KEY_TYPES.find((candidate) => dirEntry.name.startsWith(candidate.prefix));
+		if (!dirEntry.isFile || !keyType) {
+			continue;
+		}
+
+		const entry: KeystoreEntry = {
+			type: keyType.type,
+			file: dirEntry.name,
+			publicKey: `0x${dirEntry.name.slice(keyType.prefix.length)}`,
+			derivedPublicKey: null,
+		};
+		try {
+			let suri = (await Deno.readTextFile(`${keystorePath}/${dirEntry.name}`)).trim();
+			if (suri.startsWith('"')) {
+				suri = JSON.parse(suri);
+			}
+			if (!suri) {
+				throw new Error("Key file is empty");
+			}
+
+			const keyring = new Keyring({ type: keyType.scheme === "Ed25519" ? "ed25519" : "sr25519" });
+			entry.derivedPublicKey = u8aToHex(keyring.addFromUri(suri).publicKey);
+		} catch (error) {
+			entry.error = error instanceof Error ? error.message : String(error);
+		}
+		entries.push(entry);
+	}
+
+	return entries.sort((a, b) => a.file.localeCompare(b.file));
+}
@@ -0,0 +1,121 @@
+/**
+ * Parsing and classification of d9-node log lines.
+ *
+ * Substrate logs "<date> <time> [LEVEL [thread] target:] message"; INFO
+ * lines usually carry neither level nor target. Lines that are not in this
+ * format (systemd, the dynamic loader) keep the journal's timestamp and
+ * priority. Known failure patterns are matched on the message so each
+ * entry can point at a fix.
+ */
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'trace'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  /** Log target, e.g. "sync", null when the line has none */
+  target: string | null;
+  message: string;
+  /** Id of the known problem the line matches */
+  issue: string | null;
+}
+
+/**
+ * A recognised failure and what to do about it
+ */
+export interface KnownIssue {
+  id: string;
+  title: string;
+  fix: string;
+  pattern: RegExp;
+}
+
+export const KNOWN_ISSUES: KnownIssue[] = [
+  {
+    id: 'database-corruption',
+    title: 'Chain database is corrupt',
+    fix: 'Stop the node, run `d9-node purge-chain --base-path <data dir> --chain <chain spec> -y` ' +
+      '(the keystore is kept) and start it again to resync',
+    pattern: /corrupt|Database version cannot be read|Failed to open database|Block import error.*database|(rocksdb|paritydb).*(IO error|invalid)/i,
+  },
+  {
+    id: 'keystore',
+    title: 'Keystore cannot be used',
+    fix: 'Run `d9-manager keys verify`, and make sure the keystore directory belongs to the service user',
+    pattern: /keystore.*(error|fail|denied|invalid)|(error|fail).*keystore|Key not found|KeyNotFound|Invalid key file/i,
+  },
+  {
+    id: 'glibc',
+    title: 'Binary needs a newer glibc than the system has',
+    fix: 'Upgrade the OS (Ubuntu 22.04 or Debian 12 and later), or install a d9-node build made for this system',
+    pattern: /GLIBC_[\d.]+'? not found|version `GLIBC/,
+  },
+  {
+    id: 'port-in-use',
+    title: 'A port the node needs is already in use',
+    fix: 'Find the other process with `sudo ss -ltnp` (often a second d9-node) and stop it, or change --port / --rpc-port',
+    pattern: /Address already in use|os error 98|AddrInUse/i,
+  },
+  {
+    id: 'no-peers',
+    title: 'Node has no peers',
+    fix: 'Allow the P2P port (default 40100) through the firewall, allow outbound connections, ' +
+      'and check the bootnodes in the chain spec',
+    pattern: /\(0 peers\)|No peers|no bootnodes? (are )?reachable/i,
+  },
+];
+
+const SUBSTRATE_LINE =
+  /^(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d+)?)\s+(?:(TRACE|DEBUG|INFO|WARN|ERROR)\s+(?:(?:[^\s:]+\s+)?([A-Za-z_][\w:-]*):\s+)?)?(.*)$/;
+
+/**
+ * Colour codes, present when the node runs without --disable-log-color
+ */
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/**
+ * Parse one log message. fallbackTimestamp and fallbackLevel are used when
+ * the message does not carry its own.
+ */
+export function parseLogLine(line: string, fallbackTimestamp: string, fallbackLevel: LogLevel = 'info'): LogEntry {
+  const text = line.replace(ANSI_ESCAPE, '').trimEnd();
+  const match = text.match(SUBSTRATE_LINE);
+  const entry: LogEntry = match
+    ? {
+      timestamp: match[1],
+      level: match[2] ? match[2].toLowerCase() as LogLevel : 'info',
+      target: match[3] ?? null,
+      message: match[4],
+      issue: null,
+    }
+    : { timestamp: fallbackTimestamp, level: fallbackLevel, target: null, message: text, issue: null };
+
+  entry.issue = classifyLogMessage(entry.message)?.id ?? null;
+  return entry;
+}
+
+/**
+ * Known problem a message points at, if any
+ */
+export function classifyLogMessage(message: string): KnownIssue | null {
+  return KNOWN_ISSUES.find((issue) => issue.pattern.test(message)) ?? null;
+}
+
+/**
+ * Whether level is at least as severe as minimum
+ */
+export function isAtLeast(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Map a syslog priority (0-7) to a log level
+ */
+export function levelFromPriority(priority: number): LogLevel {
+  if (priority <= 3) {
+    return 'error';
+  }
+  return priority === 4 ? 'warn' : priority === 7 ? 'debug' : 'info';
+}
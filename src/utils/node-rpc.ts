@@ -0,0 +1,75 @@
+/**
+ * Minimal JSON-RPC client for the node running on this host.
+ *
+ * Health checks talk to the local node over plain HTTP instead of opening
+ * a polkadot.js API connection: they only need a few raw RPC calls, must
+ * fail fast while the node is restarting, and must not fail over to a
+ * remote endpoint the way getD9API() does.
+ */
+
+import { getLocalRpcEndpoint } from '../config/networks.ts';
+
+/**
+ * Time allowed for one RPC request
+ */
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Raised when the node cannot be reached or answers with an error
+ */
+export class NodeRpcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NodeRpcError';
+  }
+}
+
+/**
+ * HTTP URL of the local node's RPC server (same port as its WebSocket)
+ */
+export function getLocalRpcUrl(): string {
+  return getLocalRpcEndpoint().replace(/^ws/, 'http');
+}
+
+/**
+ * Call an RPC method on the local node
+ */
+export async function nodeRpc<T>(method: string, params: unknown[] = [], url: string = getLocalRpcUrl()): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new NodeRpcError(`Cannot reach node at ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new NodeRpcError(`${method} failed: HTTP ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (body.error) {
+    throw new NodeRpcError(`${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`);
+  }
+  return body.result as T;
+}
+
+/**
+ * Number of the node's best block
+ */
+export async function getBestBlockNumber(url?: string): Promise<number> {
+  const header = await nodeRpc<{ number: string }>('chain_getHeader', [], url);
+  return parseInt(header.number, 16);
+}
+
+/**
+ * Hash of block 0 in the node's database
+ */
+export async function getGenesisHash(url?: string): Promise<string> {
+  return await nodeRpc<string>('chain_getBlockHash', [0], url);
+}
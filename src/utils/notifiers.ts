@@ -0,0 +1,268 @@
+/**
+ * Alert delivery for the watch daemon.
+ *
+ * Every channel implements Notifier, so the daemon does not care where an
+ * alert goes. Each send either completes or throws; retrying and
+ * de-duplication are the daemon's job.
+ */
+
+/**
+ * Time allowed for one delivery
+ */
+const SEND_TIMEOUT_MS = 30000;
+
+export type AlertSeverity = 'warning' | 'critical' | 'resolved';
+
+export interface WatchAlert {
+  /** Condition the alert is about, e.g. "peers" */
+  key: string;
+  severity: AlertSeverity;
+  message: string;
+  /** Host the daemon runs on */
+  host: string;
+  timestamp: string;
+}
+
+/**
+ * A delivery channel for alerts
+ */
+export interface Notifier {
+  /** Shown in logs, e.g. "telegram" */
+  readonly name: string;
+  send(alert: WatchAlert): Promise<void>;
+}
+
+export interface WebhookSettings {
+  type: 'webhook';
+  url: string;
+  /** Extra request headers, e.g. an Authorization token */
+  headers?: Record<string, string>;
+}
+
+export interface TelegramSettings {
+  type: 'telegram';
+  botToken: string;
+  chatId: string;
+  /** Bot API base URL (default: https://api.telegram.org) */
+  apiUrl?: string;
+}
+
+export interface SmtpSettings {
+  type: 'smtp';
+  host: string;
+  port: number;
+  /** tls: TLS from the start (465), starttls: upgrade after EHLO (587), none: plain text */
+  security: 'tls' | 'starttls' | 'none';
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export type NotifierSettings = WebhookSettings | TelegramSettings | SmtpSettings;
+
+/**
+ * Subject line shared by all channels, e.g. "[D9 CRITICAL] node-1: no peers"
+ */
+export function formatAlertSubject(alert: WatchAlert): string {
+  return `[D9 ${alert.severity.toUpperCase()}] ${alert.host}: ${alert.message}`;
+}
+
+function formatAlertText(alert: WatchAlert): string {
+  return `${formatAlertSubject(alert)}\n\nCondition: ${alert.key}\nTime: ${alert.timestamp}`;
+}
+
+/**
+ * POSTs the alert as JSON
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+
+  constructor(private readonly settings: WebhookSettings) {}
+
+  async send(alert: WatchAlert): Promise<void> {
+    const response = await fetch(this.settings.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.settings.headers },
+      body: JSON.stringify({ ...alert, text: formatAlertSubject(alert) }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (!response.ok) {
+      throw new Error(`Webhook answered HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Sends the alert as a message from a Telegram bot
+ */
+export class TelegramNotifier implements Notifier {
+  readonly name = 'telegram';
+
+  constructor(private readonly settings: TelegramSettings) {}
+
+  async send(alert: WatchAlert): Promise<void> {
+    const apiUrl = (this.settings.apiUrl ?? 'https://api.telegram.org').replace(/\/+$/, '');
+    const response = await fetch(`${apiUrl}/bot${this.settings.botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: this.settings.chatId, text: formatAlertText(alert) }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.ok) {
+      throw new Error(`Telegram answered HTTP ${response.status}: ${body?.description ?? 'no description'}`);
+    }
+  }
+}
+
+/**
+ * Sends the alert by email over SMTP
+ */
+export class SmtpNotifier implements Notifier {
+  readonly name = 'smtp';
+
+  /**
+   * @param caCerts Extra trusted CA certificates (PEM), e.g. for a local test server
+   */
+  constructor(private readonly settings: SmtpSettings, private readonly caCerts?: string[]) {}
+
+  async send(alert: WatchAlert): Promise<void> {
+    const { host, port, security } = this.settings;
+    let conn: Deno.Conn = security === 'tls'
+      ? await Deno.connectTls({ hostname: host, port, caCerts: this.caCerts })
+      : await Deno.connect({ hostname: host, port });
+    const close = () => {
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the timeout or the server
+      }
+    };
+    // Closing the connection makes a pending read fail
+    const timer = setTimeout(close, SEND_TIMEOUT_MS);
+
+    try {
+      let session = new SmtpSession(conn);
+      await session.expect(220);
+      await session.command(`EHLO ${Deno.hostname()}`, 250);
+
+      if (security === 'starttls') {
+        await session.command('STARTTLS', 220);
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: host, caCerts: this.caCerts });
+        session = new SmtpSession(conn);
+        await session.command(`EHLO ${Deno.hostname()}`, 250);
+      }
+
+      if (this.settings.username) {
+        const credentials = `\0${this.settings.username}\0${this.settings.password ?? ''}`;
+        await session.command(`AUTH PLAIN ${encodeBase64(credentials)}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${this.settings.from}>`, 250);
+      for (const recipient of this.settings.to) {
+        await session.command(`RCPT TO:<${recipient}>`, 250, 251);
+      }
+      await session.command('DATA', 354);
+      await session.command(`${this.buildMessage(alert)}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => {
+        // Delivered already; some servers drop the connection instead
+      });
+    } finally {
+      clearTimeout(timer);
+      close();
+    }
+  }
+
+  private buildMessage(alert: WatchAlert): string {
+    const headers = [
+      `From: ${this.settings.from}`,
+      `To: ${this.settings.to.join(', ')}`,
+      `Subject: =?UTF-8?B?${encodeBase64(formatAlertSubject(alert))}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    // Lines starting with a dot are doubled so they do not end DATA
+    const body = formatAlertText(alert).split('\n').map((line) => line.startsWith('.') ? `.${line}` : line);
+    return [...headers, '', ...body].join('\r\n');
+  }
+}
+
+/**
+ * Line-oriented SMTP request/response exchange on one connection
+ */
+class SmtpSession {
+  private buffer = '';
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  constructor(private readonly conn: Deno.Conn) {}
+
+  async command(line: string, ...expected: number[]): Promise<void> {
+    await this.write(`${line}\r\n`);
+    await this.expect(...expected);
+  }
+
+  /**
+   * Read a (possibly multi-line) reply and check its code
+   */
+  async expect(...expected: number[]): Promise<void> {
+    let line: string;
+    const lines: string[] = [];
+    do {
+      line = await this.readLine();
+      lines.push(line);
+    } while (line[3] === '-');
+
+    const code = parseInt(line.slice(0, 3), 10);
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP server answered: ${lines.join(' ')}`);
+    }
+  }
+
+  private async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    while (!this.buffer.includes('\r\n')) {
+      const read = await this.conn.read(chunk);
+      if (read === null) {
+        throw new Error('SMTP server closed the connection');
+      }
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+    const end = this.buffer.indexOf('\r\n');
+    const line = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end + 2);
+    return line;
+  }
+}
+
+function encodeBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+/**
+ * Build the notifiers described by a watch configuration
+ */
+export function createNotifiers(settings: NotifierSettings[]): Notifier[] {
+  return settings.map((entry) => {
+    switch (entry.type) {
+      case 'webhook':
+        return new WebhookNotifier(entry);
+      case 'telegram':
+        return new TelegramNotifier(entry);
+      case 'smtp':
+        return new SmtpNotifier(entry);
+    }
+  });
+}
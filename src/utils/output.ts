@@ -0,0 +1,70 @@
+/**
+ * Output mode handling for subcommands.
+ *
+ * In text mode commands print human-readable progress as usual. In JSON mode
+ * each command writes exactly one JSON document to stdout; any progress text
+ * produced along the way is diverted to stderr so stdout stays parseable.
+ */
+
+import { EXIT_CODES } from '../config/constants.ts';
+
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * The single document a command emits in JSON mode
+ */
+export interface CommandDocument<T = unknown> {
+  command: string;
+  ok: boolean;
+  exitCode: number;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * What a command action hands back to the CLI runner
+ */
+export interface CommandResult<T = unknown> {
+  data?: T;
+  exitCode?: number;
+}
+
+/**
+ * Error carrying the exit code it should produce
+ */
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number = EXIT_CODES.ERROR,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+let currentFormat: OutputFormat = 'text';
+
+/**
+ * Select the output format. JSON mode diverts console.log/info to stderr.
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  currentFormat = format;
+
+  if (format === 'json') {
+    console.log = (...args: unknown[]) => console.error(...args);
+    console.info = (...args: unknown[]) => console.error(...args);
+  }
+}
+
+export function isJsonOutput(): boolean {
+  return currentFormat === 'json';
+}
+
+/**
+ * Write a command document to stdout
+ */
+export function emitDocument<T>(document: CommandDocument<T>): void {
+  const json = JSON.stringify(document, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+  Deno.stdout.writeSync(new TextEncoder().encode(json + '\n'));
+}
@@ -1,36 +1,223 @@
 import { ApiPromise, WsProvider } from '@polkadot/api';
 import { Keyring } from '@polkadot/keyring';
-import { NodeMetadataStruct } from '../types.ts';
-import { readKeystoreInfo, findKeystorePath } from './keystore.ts';
-import { NETWORK, KEY_TYPES } from '../config/constants.ts';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import { CandidateInfo, CandidateMetadata, HeartbeatStatus, NodeMetadataStruct } from '../types.ts';
+import { readKeystoreInfo, findKeystorePath, findControllerKeyFile } from './keystore.ts';
+import { NETWORK } from '../config/constants.ts';
+import { getNetworkProfile } from '../config/networks.ts';
+
+/**
+ * Result of probing one RPC endpoint
+ */
+export interface EndpointHealth {
+  endpoint: string;
+  reachable: boolean;
+  finalizedBlock?: number;
+  error?: string;
+}
+
+let configuredEndpoints: string[] | null = null;
+
+/**
+ * Override the RPC endpoints for this process (e.g. from --rpc)
+ */
+export function setRpcEndpoints(endpoints: string[]): void {
+  configuredEndpoints = endpoints.map((endpoint) => endpoint.trim()).filter((endpoint) => endpoint.length > 0);
+}
+
+/**
+ * RPC endpoints in priority order: --rpc, then D9_RPC_ENDPOINTS, then the
+ * active network profile
+ */
+export function getRpcEndpoints(): string[] {
+  if (configuredEndpoints && configuredEndpoints.length > 0) {
+    return configuredEndpoints;
+  }
+
+  const fromEnv = Deno.env.get(NETWORK.ENDPOINTS_ENV);
+  if (fromEnv) {
+    const endpoints = fromEnv.split(',').map((endpoint) => endpoint.trim()).filter((endpoint) => endpoint.length > 0);
+    if (endpoints.length > 0) {
+      return endpoints;
+    }
+  }
+
+  return [...getNetworkProfile().rpcEndpoints];
+}
+
+/**
+ * Reject if a promise does not settle in time
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Connect to an endpoint just long enough to read its finalized block number
+ */
+export async function probeEndpoint(endpoint: string, timeoutMs: number = NETWORK.CONNECT_TIMEOUT_MS): Promise<EndpointHealth> {
+  let provider: WsProvider | null = null;
+  try {
+    // Inside the try, since a malformed URL makes the constructor throw
+    provider = new WsProvider(endpoint, false);
+    const connecting = provider;
+    await withTimeout(
+      (async () => {
+        await connecting.connect();
+        await connecting.isReady;
+      })(),
+      timeoutMs,
+      `Timed out connecting to ${endpoint}`
+    );
+
+    const finalizedHash = await withTimeout(
+      provider.send<string>('chain_getFinalizedHead', []),
+      timeoutMs,
+      `Timed out querying ${endpoint}`
+    );
+    const header = await withTimeout(
+      provider.send<{ number: string }>('chain_getHeader', [finalizedHash]),
+      timeoutMs,
+      `Timed out querying ${endpoint}`
+    );
+
+    return { endpoint, reachable: true, finalizedBlock: parseInt(header.number, 16) };
+  } catch (error) {
+    return { endpoint, reachable: false, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await provider?.disconnect().catch(() => {});
+  }
+}
+
+/**
+ * Probe all endpoints and order the reachable ones by finalized block,
+ * highest first. Ties keep the configured order, so the local node wins.
+ */
+export async function rankEndpoints(endpoints: string[] = getRpcEndpoints()): Promise<EndpointHealth[]> {
+  const results = await Promise.all(endpoints.map((endpoint) => probeEndpoint(endpoint)));
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => {
+      if (a.result.reachable !== b.result.reachable) {
+        return a.result.reachable ? -1 : 1;
+      }
+      const blockDiff = (b.result.finalizedBlock ?? -1) - (a.result.finalizedBlock ?? -1);
+      return blockDiff !== 0 ? blockDiff : a.index - b.index;
+    })
+    .map(({ result }) => result);
+}
+
+/**
+ * Outcome of a submitted extrinsic
+ */
+export interface ExtrinsicResult {
+  success: boolean;
+  /** Block the extrinsic was included in */
+  hash?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of dry-running an extrinsic
+ */
+export interface DryRunResult {
+  /** False when the endpoint refuses system_dryRun */
+  checked: boolean;
+  /** Why the runtime would reject the call, e.g. the pallet error */
+  error?: string;
+}
+
+type Extrinsic = ReturnType<ApiPromise['tx'][string][string]>;
+export type Signer = ReturnType<Keyring['addFromUri']>;
 
 class D9ChainAPI {
   private api: ApiPromise | null = null;
   private keyring: Keyring;
   private keyPair: any = null;
+  private endpoint: string | null = null;
 
   constructor() {
     this.keyring = new Keyring({ type: 'sr25519', ss58Format: 9 });
   }
 
+  /**
+   * Endpoint of the current connection, if connected
+   */
+  getEndpoint(): string | null {
+    return this.endpoint;
+  }
+
+  /**
+   * Connect to the healthiest endpoint, falling back through the rest.
+   * If the connection later drops, the next call reconnects to whichever
+   * endpoint is then healthiest.
+   */
   async connect(): Promise<void> {
     if (this.api) {
       return;
     }
 
-    try {
-      const provider = new WsProvider(NETWORK.ENDPOINT);
-      this.api = await ApiPromise.create({ provider });
-      await this.api.isReady;
-    } catch (error) {
-      throw new Error(`Failed to connect to D9 network: ${error instanceof Error ? error.message : String(error)}`);
+    const ranked = await rankEndpoints();
+    const errors: string[] = [];
+
+    for (const health of ranked) {
+      if (!health.reachable) {
+        errors.push(`${health.endpoint}: ${health.error}`);
+        continue;
+      }
+
+      let provider: WsProvider | null = null;
+      try {
+        provider = new WsProvider(health.endpoint, false);
+        const connecting = provider;
+        const api = await withTimeout(
+          (async () => {
+            await connecting.connect();
+            const created = await ApiPromise.create({ provider: connecting });
+            await created.isReady;
+            return created;
+          })(),
+          NETWORK.CONNECT_TIMEOUT_MS,
+          `Timed out connecting to ${health.endpoint}`
+        );
+
+        api.on('disconnected', () => {
+          if (this.api === api) {
+            console.log(`⚠️  Lost connection to ${health.endpoint}, will fail over on next request`);
+            this.api = null;
+            this.endpoint = null;
+            api.disconnect().catch(() => {});
+          }
+        });
+
+        this.api = api;
+        this.endpoint = health.endpoint;
+        return;
+      } catch (error) {
+        await provider?.disconnect().catch(() => {});
+        errors.push(`${health.endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
+
+    throw new Error(`Failed to connect to D9 network:\n  - ${errors.join('\n  - ')}`);
   }
 
   async disconnect(): Promise<void> {
     if (this.api) {
-      await this.api.disconnect();
+      const api = this.api;
       this.api = null;
+      this.endpoint = null;
+      await api.disconnect();
     }
   }
 
@@ -47,18 +234,12 @@ class D9ChainAPI {
         return { success: false, error: 'Keystore directory not found' };
       }
 
-      const files = [];
-      for await (const dirEntry of Deno.readDir(keystorePath)) {
-        if (dirEntry.isFile && dirEntry.name.startsWith(KEY_TYPES.AURA.prefix)) {
-          files.push(dirEntry.name);
-        }
-      }
-
-      if (files.length === 0) {
+      const keyFile = await findControllerKeyFile(keystorePath);
+      if (!keyFile) {
         return { success: false, error: 'Aura key not found' };
       }
 
-      const keyFilePath = `${keystorePath}/${files[0]}`;
+      const keyFilePath = `${keystorePath}/${keyFile}`;
       let keyData = await Deno.readTextFile(keyFilePath);
 
       // Remove quotes if present (key files often have quotes around the actual key)
@@ -98,88 +279,336 @@ class D9ChainAPI {
     };
   }
 
-  async submitCandidacy(metadata: NodeMetadataStruct): Promise<{ success: boolean; hash?: string; error?: string }> {
+  async submitCandidacy(metadata: NodeMetadataStruct): Promise<ExtrinsicResult> {
+    return await this.submitExtrinsic('d9NodeVoting', 'submitCandidacy', [{
+      name: Array.from(new TextEncoder().encode(metadata.name)),
+      sharing_percent: metadata.sharing_percent,
+      index_of_last_percent_change: metadata.index_of_last_percent_change
+    }]);
+  }
+
+  async checkCandidacyStatus(address: string): Promise<{ isCandidate: boolean; candidate?: CandidateInfo }> {
     await this.connect();
 
     try {
-      if (!this.keyPair) {
-        const keyResult = await this.loadKeyPair();
-        if (!keyResult.success) {
-          return { success: false, error: keyResult.error };
-        }
-      }
+      const candidate = await this.getCandidate(address);
+      return candidate ? { isCandidate: true, candidate } : { isCandidate: false };
+    } catch (error) {
+      console.error('Error checking candidacy status:', error);
+      return { isCandidate: false };
+    }
+  }
 
-      // Create the extrinsic
-      const extrinsic = this.api!.tx.d9NodeVoting.submitCandidacy({
-        name: Array.from(new TextEncoder().encode(metadata.name)),
-        sharing_percent: metadata.sharing_percent,
-        index_of_last_percent_change: metadata.index_of_last_percent_change
-      });
+  /**
+   * Votes and decoded metadata of a validator candidate
+   * @returns null if the account is not a candidate
+   */
+  async getCandidate(address: string): Promise<CandidateInfo | null> {
+    await this.connect();
 
-      // Submit the transaction
-      return new Promise((resolve) => {
-        let unsubscribe: () => void;
-
-        extrinsic.signAndSend(this.keyPair, ({ status, events }: any) => {
-          if (status.isInBlock || status.isFinalized) {
-            // Check for errors in events
-            const errorEvent = events.find(({ event }: any) => 
-              this.api!.events.system.ExtrinsicFailed.is(event)
-            );
-
-            if (errorEvent) {
-              const [dispatchError] = errorEvent.event.data;
-              let errorMessage = 'Transaction failed';
-
-              if ((dispatchError as any).isModule) {
-                try {
-                  const decoded = this.api!.registry.findMetaError((dispatchError as any).asModule);
-                  errorMessage = `${decoded.section}.${decoded.name}: ${decoded.docs.join(' ')}`;
-                } catch {
-                  errorMessage = 'Unknown module error';
-                }
-              }
-
-              resolve({ success: false, error: errorMessage });
-            } else {
-              resolve({ success: true, hash: status.asInBlock?.toString() || status.asFinalized?.toString() });
-            }
-
-            if (unsubscribe) unsubscribe();
-          }
-        }).then((unsub) => {
-          unsubscribe = unsub;
-        }).catch((error) => {
-          resolve({ success: false, error: error.message });
-        });
-      });
+    // Remove Dn prefix if present
+    const cleanAddress = address.startsWith('Dn') ? address.slice(2) : address;
+
+    // If votes exist (even zero), the account has submitted candidacy
+    const votes = await this.api!.query.d9NodeVoting.nodeAccumulativeVotes(cleanAddress);
+    if (!votes || votes.isEmpty) {
+      return null;
+    }
+
+    let metadata: CandidateMetadata | null = null;
+    if (this.api!.query.d9NodeVoting.nodeMetadata) {
+      metadata = this.decodeCandidateMetadata(await this.api!.query.d9NodeVoting.nodeMetadata(cleanAddress));
+    }
+
+    return { address: `Dn${cleanAddress}`, votes: votes.toString(), metadata };
+  }
+
+  /**
+   * Every validator candidate with its votes and decoded metadata, unsorted
+   */
+  async getCandidates(): Promise<CandidateInfo[]> {
+    await this.connect();
+
+    const voting = this.api!.query.d9NodeVoting;
+    const [votes, metadata] = await Promise.all([
+      voting.nodeAccumulativeVotes.entries(),
+      voting.nodeMetadata ? voting.nodeMetadata.entries() : Promise.resolve([]),
+    ]);
+
+    const metadataByAccount = new Map<string, CandidateMetadata | null>();
+    for (const [key, value] of metadata) {
+      metadataByAccount.set(key.args[0].toString(), this.decodeCandidateMetadata(value));
+    }
+
+    return votes.map(([key, value]) => ({
+      address: `Dn${this.keyring.encodeAddress(key.args[0].toString())}`,
+      votes: value.toString(),
+      metadata: metadataByAccount.get(key.args[0].toString()) ?? null,
+    }));
+  }
+
+  /**
+   * Accounts in the current session's validator set
+   */
+  async getActiveValidators(): Promise<string[]> {
+    await this.connect();
+
+    const validators = (await this.api!.query.session.validators()).toPrimitive() as string[];
+    return validators.map((address) => `Dn${this.keyring.encodeAddress(address)}`);
+  }
 
+  /**
+   * Index of the current session
+   */
+  async getCurrentSessionIndex(): Promise<number> {
+    await this.connect();
+    return (await this.api!.query.session.currentIndex()).toPrimitive() as number;
+  }
+
+  /**
+   * im_online status of a validator in the current session, or null if none
+   * of the given im_online public keys is among the session's authorities
+   */
+  async getHeartbeatStatus(address: string, imOnlineKeys: string[]): Promise<HeartbeatStatus | null> {
+    await this.connect();
+
+    const api = this.api!;
+    const [session, authorities] = await Promise.all([
+      api.query.session.currentIndex(),
+      api.query.imOnline.keys(),
+    ]);
+    const wanted = imOnlineKeys.map((key) => key.toLowerCase());
+    const authorityIndex = (authorities.toPrimitive() as string[]).findIndex((key) => wanted.includes(key.toLowerCase()));
+    if (authorityIndex < 0) {
+      return null;
+    }
+
+    const account = address.startsWith('Dn') ? address.slice(2) : address;
+    const [heartbeat, authored] = await Promise.all([
+      api.query.imOnline.receivedHeartbeats(session, authorityIndex),
+      api.query.imOnline.authoredBlocks(session, account),
+    ]);
+    return {
+      session: session.toPrimitive() as number,
+      authorityIndex,
+      heartbeatReceived: !heartbeat.isEmpty,
+      authoredBlocks: authored.toPrimitive() as number,
+    };
+  }
+
+  /**
+   * Keypair for another account than the node's, e.g. to send funds to it
+   */
+  async createSigner(suri: string): Promise<Signer> {
+    await cryptoWaitReady();
+    return this.keyring.addFromUri(suri);
+  }
+
+  /**
+   * Smallest balance an account may hold, in the chain's smallest unit
+   */
+  async getExistentialDeposit(): Promise<string> {
+    await this.connect();
+    return this.api!.consts.balances.existentialDeposit.toString();
+  }
+
+  /**
+   * Whether the runtime has a call
+   */
+  async hasCall(section: string, method: string): Promise<boolean> {
+    await this.connect();
+    return Boolean(this.api!.tx[section]?.[method]);
+  }
+
+  /**
+   * Fee for a call signed by the node key (or the given signer), in the
+   * chain's smallest unit
+   */
+  async estimateFee(section: string, method: string, args: unknown[], signer?: Signer): Promise<string> {
+    await this.connect();
+
+    const account = signer ?? await this.nodeKeyPair();
+    const info = await this.buildExtrinsic(section, method, args).paymentInfo(account);
+    return info.partialFee.toString();
+  }
+
+  /**
+   * Sign any call with the node key (or the given signer) and submit it.
+   * Where the endpoint allows system_dryRun (the local node does), the call
+   * is tried first so the runtime's own rules reject it before it costs a
+   * fee.
+   */
+  async submitExtrinsic(section: string, method: string, args: unknown[], signer?: Signer): Promise<ExtrinsicResult> {
+    await this.connect();
+
+    try {
+      const account = signer ?? await this.nodeKeyPair();
+      const extrinsic = this.buildExtrinsic(section, method, args);
+
+      await extrinsic.signAsync(account);
+      const dryRun = await this.dryRun(extrinsic);
+      if (dryRun.error) {
+        return { success: false, error: dryRun.error };
+      }
+
+      return await this.signAndSend(extrinsic, account);
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  async checkCandidacyStatus(address: string): Promise<{ isCandidate: boolean; metadata?: any }> {
+  /**
+   * Ask the runtime whether a call signed by the node key (or the given
+   * signer) would succeed, without submitting it
+   */
+  async checkExtrinsic(section: string, method: string, args: unknown[], signer?: Signer): Promise<DryRunResult> {
+    await this.connect();
+
+    const extrinsic = this.buildExtrinsic(section, method, args);
+    await extrinsic.signAsync(signer ?? await this.nodeKeyPair());
+    return await this.dryRun(extrinsic);
+  }
+
+  /**
+   * Session keys an account has registered for the next session
+   * @returns Public keys by SessionKeys field, or null if none are registered
+   */
+  async getNextSessionKeys(address: string): Promise<Record<string, string> | null> {
+    await this.connect();
+
+    // Remove Dn prefix if present
+    const cleanAddress = address.startsWith('Dn') ? address.slice(2) : address;
+
+    const keys = await this.api!.query.session.nextKeys(cleanAddress);
+    return keys.isEmpty ? null : keys.toJSON() as Record<string, string>;
+  }
+
+  /**
+   * Split SCALE-encoded session keys (as returned by author_rotateKeys) into
+   * public keys by SessionKeys field
+   */
+  async decodeSessionKeys(encoded: string): Promise<Record<string, string>> {
     await this.connect();
 
+    const keysType = this.api!.tx.session.setKeys.meta.args[0].type.toString();
+    return this.api!.createType(keysType, encoded).toJSON() as Record<string, string>;
+  }
+
+  /**
+   * Register session keys for the node account with session.setKeys
+   */
+  async setSessionKeys(keys: Record<string, string>): Promise<ExtrinsicResult> {
+    // The ownership proof is unused by the runtime's session keys
+    return await this.submitExtrinsic('session', 'setKeys', [keys, '0x']);
+  }
+
+  /**
+   * Sign an extrinsic and resolve once it is in a block
+   */
+  private signAndSend(extrinsic: Extrinsic, signer: Signer = this.keyPair): Promise<ExtrinsicResult> {
+    return new Promise((resolve) => {
+      let unsubscribe: () => void;
+
+      extrinsic.signAndSend(signer, ({ status, events }: any) => {
+        if (status.isInBlock || status.isFinalized) {
+          // Check for errors in events
+          const errorEvent = events.find(({ event }: any) => 
+            this.api!.events.system.ExtrinsicFailed.is(event)
+          );
+
+          if (errorEvent) {
+            const [dispatchError] = errorEvent.event.data;
+            resolve({ success: false, error: this.describeDispatchError(dispatchError) });
+          } else {
+            resolve({ success: true, hash: status.asInBlock?.toString() || status.asFinalized?.toString() });
+          }
+
+          if (unsubscribe) unsubscribe();
+        }
+      }).then((unsub) => {
+        unsubscribe = unsub;
+      }).catch((error) => {
+        resolve({ success: false, error: error.message });
+      });
+    });
+  }
+
+  /**
+   * The node key, loaded from the keystore on first use
+   */
+  private async nodeKeyPair(): Promise<Signer> {
+    if (!this.keyPair) {
+      const keyResult = await this.loadKeyPair();
+      if (!keyResult.success) {
+        throw new Error(keyResult.error ?? 'Cannot load the node key');
+      }
+    }
+    return this.keyPair;
+  }
+
+  /**
+   * system_dryRun of a signed extrinsic against the best block
+   */
+  private async dryRun(extrinsic: Extrinsic): Promise<DryRunResult> {
+    let outcome;
     try {
-      // Remove Dn prefix if present
-      const cleanAddress = address.startsWith('Dn') ? address.slice(2) : address;
-      
-      const votes = await this.api!.query.d9NodeVoting.nodeAccumulativeVotes(cleanAddress);
-      
-      // If votes is null or not a number, they're not a candidate
-      // If votes exists (is a number), they already have candidacy
-      const isCandidate = votes && !votes.isEmpty;
-      
-      return {
-        isCandidate,
-        metadata: isCandidate ? votes.toJSON() : undefined
-      };
-    } catch (error) {
-      console.error('Error checking candidacy status:', error);
-      return { isCandidate: false };
+      outcome = await this.api!.rpc.system.dryRun(extrinsic.toHex());
+    } catch {
+      // Dry runs are an unsafe RPC method, public endpoints refuse them
+      return { checked: false };
+    }
+    if (outcome.isErr) {
+      return { checked: true, error: `Transaction is invalid: ${outcome.asErr.toString()}` };
+    }
+    if (outcome.asOk.isErr) {
+      return { checked: true, error: this.describeDispatchError(outcome.asOk.asErr) };
+    }
+    return { checked: true };
+  }
+
+  private buildExtrinsic(section: string, method: string, args: unknown[]): Extrinsic {
+    const calls = this.api!.tx[section];
+    if (!calls) {
+      throw new Error(`Runtime has no ${section} pallet`);
+    }
+    if (!calls[method]) {
+      throw new Error(`Runtime has no ${section}.${method} (available: ${Object.keys(calls).join(', ')})`);
+    }
+    return calls[method](...args);
+  }
+
+  /**
+   * Candidate metadata from d9NodeVoting.nodeMetadata, null if there is none
+   */
+  private decodeCandidateMetadata(stored: { isEmpty: boolean; toPrimitive(): unknown }): CandidateMetadata | null {
+    if (stored.isEmpty) {
+      return null;
+    }
+
+    // toPrimitive() turns the name bytes into text
+    const fields = stored.toPrimitive() as { name?: string; sharingPercent?: number; indexOfLastPercentChange?: number };
+    return {
+      name: fields.name ?? '',
+      sharingPercent: fields.sharingPercent ?? 0,
+      lastPercentChangeSession: fields.indexOfLastPercentChange ?? 0,
+    };
+  }
+
+  /**
+   * Readable message for a failed dispatch, naming the pallet error if any
+   */
+  private describeDispatchError(
+    dispatchError: { isModule: boolean; asModule: Parameters<ApiPromise['registry']['findMetaError']>[0] }
+  ): string {
+    if (dispatchError.isModule) {
+      try {
+        const decoded = this.api!.registry.findMetaError(dispatchError.asModule);
+        return `${decoded.section}.${decoded.name}: ${decoded.docs.join(' ')}`;
+      } catch {
+        return 'Unknown module error';
+      }
     }
+    return 'Transaction failed';
   }
 }
 
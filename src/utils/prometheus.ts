@@ -0,0 +1,227 @@
+/**
+ * Scraper for the node's Prometheus metrics endpoint.
+ *
+ * Substrate serves its metrics in the Prometheus text exposition format on
+ * --prometheus-port (9615 unless the service file says otherwise). Only the
+ * handful of series the manager summarizes are looked up by name; the
+ * parser itself keeps every sample.
+ */
+
+import { hostPath, PATHS, SERVICE } from '../config/constants.ts';
+
+/**
+ * Time allowed for one scrape
+ */
+const SCRAPE_TIMEOUT_MS = 5000;
+
+/**
+ * One sample line: name{labels} value
+ */
+export interface MetricSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Key series of a scrape, null where the node does not export them
+ */
+export interface NodeMetricsSummary {
+  url: string;
+  bestBlock: number | null;
+  finalizedBlock: number | null;
+  /** Highest block announced by peers while syncing */
+  syncTarget: number | null;
+  /** Blocks between best and finalized */
+  finalityLag: number | null;
+  peers: number | null;
+  /** Transactions ready for inclusion */
+  txPoolReady: number | null;
+  /** Bytes held by the database cache */
+  dbCacheBytes: number | null;
+  /** Samples in the scrape */
+  sampleCount: number;
+}
+
+/**
+ * Raised when the metrics endpoint cannot be scraped
+ */
+export class PrometheusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrometheusError';
+  }
+}
+
+/**
+ * Parse the Prometheus text exposition format. Comments (# HELP, # TYPE)
+ * and malformed lines are skipped.
+ */
+export function parsePrometheusText(text: string): MetricSample[] {
+  const samples: MetricSample[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.length === 0 || line.startsWith('#')) {
+      continue;
+    }
+    const sample = parseSampleLine(line);
+    if (sample) {
+      samples.push(sample);
+    }
+  }
+  return samples;
+}
+
+/**
+ * Parse one sample line, or null if it is malformed
+ */
+function parseSampleLine(line: string): MetricSample | null {
+  const nameMatch = line.match(/^[a-zA-Z_:][a-zA-Z0-9_:]*/);
+  if (!nameMatch) {
+    return null;
+  }
+  const name = nameMatch[0];
+  let position = name.length;
+  const labels: Record<string, string> = {};
+
+  if (line[position] === '{') {
+    position++;
+    while (position < line.length && line[position] !== '}') {
+      const labelMatch = line.slice(position).match(/^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"/);
+      if (!labelMatch) {
+        return null;
+      }
+      position += labelMatch[0].length;
+
+      // Label values escape backslash, double quote and line feed
+      let value = '';
+      while (position < line.length && line[position] !== '"') {
+        if (line[position] === '\\' && position + 1 < line.length) {
+          position++;
+          value += line[position] === 'n' ? '\n' : line[position];
+        } else {
+          value += line[position];
+        }
+        position++;
+      }
+      if (position >= line.length) {
+        return null;
+      }
+      labels[labelMatch[1]] = value;
+      position++;
+
+      const separator = line.slice(position).match(/^\s*,?\s*/);
+      position += separator ? separator[0].length : 0;
+    }
+    if (line[position] !== '}') {
+      return null;
+    }
+    position++;
+  }
+
+  // Value, optionally followed by a timestamp
+  const [valueText] = line.slice(position).trim().split(/\s+/);
+  const value = parseSampleValue(valueText);
+  return value === null ? null : { name, labels, value };
+}
+
+function parseSampleValue(text: string | undefined): number | null {
+  switch (text) {
+    case undefined:
+    case '':
+      return null;
+    case 'NaN':
+      return NaN;
+    case '+Inf':
+      return Infinity;
+    case '-Inf':
+      return -Infinity;
+  }
+  const value = Number(text);
+  return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * Metrics URL of the node on this host, using --prometheus-port from the
+ * installed service file when it sets one
+ */
+export async function getMetricsUrl(): Promise<string> {
+  let port: number = SERVICE.PROMETHEUS_PORT;
+  try {
+    const serviceContent = await Deno.readTextFile(hostPath(PATHS.SERVICE_FILE));
+    const portMatch = serviceContent.match(/--prometheus-port\s+(\d+)/);
+    if (portMatch) {
+      port = parseInt(portMatch[1], 10);
+    }
+  } catch {
+    // No service file, assume the node's default
+  }
+  return `http://127.0.0.1:${port}/metrics`;
+}
+
+/**
+ * Scrape a metrics endpoint
+ */
+export async function scrapeMetrics(url: string): Promise<MetricSample[]> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(SCRAPE_TIMEOUT_MS) });
+  } catch (error) {
+    throw new PrometheusError(`Cannot scrape ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new PrometheusError(`Cannot scrape ${url}: HTTP ${response.status}`);
+  }
+  return parsePrometheusText(await response.text());
+}
+
+/**
+ * Value of the first sample whose name, after the chain's metric prefix
+ * (usually "substrate_"), is one of names and which carries the given labels
+ */
+export function findMetric(
+  samples: MetricSample[],
+  names: string[],
+  labels: Record<string, string> = {}
+): number | null {
+  for (const name of names) {
+    const sample = samples.find((candidate) =>
+      (candidate.name === name || candidate.name.endsWith(`_${name}`)) &&
+      Object.entries(labels).every(([key, value]) => candidate.labels[key] === value)
+    );
+    if (sample) {
+      return sample.value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the key series out of a scrape
+ */
+export function summarizeMetrics(samples: MetricSample[], url: string): NodeMetricsSummary {
+  const bestBlock = findMetric(samples, ['block_height'], { status: 'best' });
+  const finalizedBlock = findMetric(samples, ['block_height'], { status: 'finalized' });
+
+  return {
+    url,
+    bestBlock,
+    finalizedBlock,
+    syncTarget: findMetric(samples, ['block_height'], { status: 'sync_target' }),
+    finalityLag: bestBlock !== null && finalizedBlock !== null ? bestBlock - finalizedBlock : null,
+    // Renamed from sub_libp2p_peers_count in newer Substrate releases
+    peers: findMetric(samples, ['sub_libp2p_peers_count', 'sync_peers']),
+    txPoolReady: findMetric(samples, ['ready_transactions_number']),
+    dbCacheBytes: findMetric(samples, ['database_cache_bytes']),
+    sampleCount: samples.length,
+  };
+}
+
+/**
+ * Scrape the node on this host and summarize its key series
+ */
+export async function collectNodeMetrics(url?: string): Promise<NodeMetricsSummary> {
+  const target = url ?? await getMetricsUrl();
+  return summarizeMetrics(await scrapeMetrics(target), target);
+}
@@ -0,0 +1,93 @@
+/**
+ * d9-node release resolution and verified downloads
+ */
+
+import { BinaryDownloader } from '../services/node-setup-service.ts';
+import { URLS } from '../config/constants.ts';
+import { executeCommand } from './system.ts';
+
+/**
+ * Where release tarballs are downloaded to
+ */
+export const BINARY_TARBALL = '/tmp/d9-node.tar.gz';
+
+/**
+ * Download URLs of one d9-node release
+ */
+export interface ReleaseAssets {
+  /** Release tag, e.g. "v1.2.0" */
+  tag: string;
+  tarballUrl: string;
+  hashUrl: string;
+}
+
+/**
+ * Asset entry of the GitHub releases API
+ */
+interface ReleaseAsset {
+  name: string;
+  browser_download_url: string;
+}
+
+/**
+ * Resolve download URLs of a tagged release, or the latest one
+ */
+export async function fetchRelease(version?: string): Promise<ReleaseAssets> {
+  const url = version ? `${URLS.RELEASES_API}/tags/${version}` : URLS.LATEST_RELEASE_API;
+  const releaseResult = await executeCommand('curl', ['-s', url]);
+
+  if (!releaseResult.success) {
+    throw new Error('Failed to fetch release information');
+  }
+
+  const release = JSON.parse(releaseResult.output);
+  if (release.message && release.message.includes('rate limit')) {
+    throw new Error('GitHub API rate limit exceeded');
+  }
+  if (version && release.message === 'Not Found') {
+    throw new Error(`Release ${version} not found`);
+  }
+
+  const assets: ReleaseAsset[] = release.assets ?? [];
+  const tarballAsset = assets.find((asset) => asset.name.endsWith('.tar.gz'));
+  const hashAsset = assets.find((asset) => asset.name.endsWith('.sha256'));
+
+  if (!tarballAsset || !hashAsset) {
+    throw new Error('Could not find download URLs');
+  }
+
+  return {
+    tag: release.tag_name ?? version ?? 'latest',
+    tarballUrl: tarballAsset.browser_download_url,
+    hashUrl: hashAsset.browser_download_url,
+  };
+}
+
+/**
+ * Download a release tarball and its checksum to BINARY_TARBALL and verify it
+ */
+export async function downloadRelease(release: ReleaseAssets, downloader: BinaryDownloader): Promise<void> {
+  await downloader.download(release.tarballUrl, BINARY_TARBALL);
+  await downloader.download(release.hashUrl, `${BINARY_TARBALL}.sha256`);
+
+  // Fix checksum format
+  const checksumContent = await Deno.readTextFile(`${BINARY_TARBALL}.sha256`);
+  const checksumHash = checksumContent.trim().split(/\s+/)[0];
+  await Deno.writeTextFile(`${BINARY_TARBALL}.sha256`, `${checksumHash}  d9-node.tar.gz\n`);
+
+  // Verify
+  const expectedHashResult = await executeCommand('cat', [`${BINARY_TARBALL}.sha256`]);
+  const expectedHash = expectedHashResult.output.trim().split(/\s+/)[0];
+
+  const verified = await downloader.verify(BINARY_TARBALL, expectedHash);
+  if (!verified) {
+    throw new Error('File integrity verification failed');
+  }
+}
+
+/**
+ * Remove downloaded release files
+ */
+export async function cleanupRelease(): Promise<void> {
+  await executeCommand('rm', ['-f', BINARY_TARBALL, `${BINARY_TARBALL}.sha256`]);
+}
@@ -5,7 +5,9 @@
  * temporary files with restricted permissions.
  */
 
-import { PATHS } from '../config/constants.ts';
+import { PATHS, hostPath } from '../config/constants.ts';
+import { getCommandRunner } from './command-runner.ts';
+import { buildKeystorePath } from './keystore.ts';
 
 export interface SecureKeyInsertOptions {
   basePath: string;
@@ -36,40 +38,30 @@ export async function secureKeyInsert(options: SecureKeyInsertOptions): Promise<
 
   try {
     // Build command based on whether we need to run as a different user
-    const baseCommand = serviceUser ? 'sudo' : PATHS.BINARY;
+    const baseCommand = serviceUser ? 'sudo' : hostPath(PATHS.BINARY);
     const args: string[] = [];
 
     if (serviceUser) {
-      args.push('-u', serviceUser, PATHS.BINARY);
+      args.push('-u', serviceUser, hostPath(PATHS.BINARY));
     }
 
     args.push(
       'key', 'insert',
-      '--base-path', basePath,
-      '--chain', chainSpec,
+      '--base-path', hostPath(basePath),
+      '--chain', hostPath(chainSpec),
       '--scheme', scheme,
       '--key-type', keyType,
       '--suri', suri  // Must use --suri flag (stdin doesn't work)
     );
 
     // Use HISTFILE=/dev/null to prevent bash history recording
-    const command = new Deno.Command(baseCommand, {
-      args,
-      env: {
-        ...Deno.env.toObject(),
-        HISTFILE: '/dev/null'
-      },
-      stdout: 'piped',
-      stderr: 'piped'
+    const { code, stderr } = await getCommandRunner().run(baseCommand, args, {
+      env: { HISTFILE: '/dev/null' }
     });
 
-    // Execute command
-    const { code, stdout, stderr } = await command.output();
-
     if (code !== 0) {
-      const errorOutput = new TextDecoder().decode(stderr);
       // Don't include the actual key in error messages
-      throw new Error(`Key insertion failed with code ${code}: ${errorOutput.substring(0, 200)}`);
+      throw new Error(`Key insertion failed with code ${code}: ${stderr.substring(0, 200)}`);
     }
 
     // Verify keystore file was created and is not empty
@@ -87,7 +79,7 @@ export async function secureKeyInsert(options: SecureKeyInsertOptions): Promise<
  * Verify that a keystore file was created and contains data.
  */
 async function verifyKeystoreFile(basePath: string, keyType: string): Promise<void> {
-  const keystorePath = `${basePath}/chains/d9_main/keystore`;
+  const keystorePath = hostPath(buildKeystorePath(basePath));
 
   // Map key type to hex prefix
   const keyPrefixes: Record<string, string> = {
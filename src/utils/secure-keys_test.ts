@@ -0,0 +1,112 @@
+import { assert, assertEquals, assertFalse, assertStringIncludes } from '@std/assert';
+import { secureKeyInsert, SecureKeyInsertOptions } from './secure-keys.ts';
+import { FakeCommandRunner } from './command-runner.ts';
+import { TestEnvironmentOptions, withTestEnvironment } from './testing.ts';
+import { buildKeystorePath } from './keystore.ts';
+import { PATHS } from '../config/constants.ts';
+
+const SURI = 'bottom drive obey lake curtain smoke basket hold race lonely fit walk//aura';
+
+const OPTIONS: SecureKeyInsertOptions = {
+  basePath: PATHS.DATA_DIR_NEW,
+  chainSpec: PATHS.CHAIN_SPEC,
+  keyType: 'aura',
+  scheme: 'Sr25519',
+  suri: SURI,
+  serviceUser: 'd9-node',
+};
+
+/**
+ * A fresh host root with the given runner and console.error captured
+ */
+function sandbox(runner: FakeCommandRunner): TestEnvironmentOptions {
+  return { runner, rootPrefix: true, captureConsole: true };
+}
+
+/**
+ * Answer `key insert` the way d9-node does: by writing a keystore file
+ */
+function writesKeystoreFile(root: string, fileName: string, content = `"${SURI}"`) {
+  return () => {
+    const keystore = `${root}${buildKeystorePath(OPTIONS.basePath)}`;
+    Deno.mkdirSync(keystore, { recursive: true });
+    Deno.writeTextFileSync(`${keystore}/${fileName}`, content);
+    return {};
+  };
+}
+
+Deno.test('secureKeyInsert runs key insert as the service user with history disabled', async () => {
+  const runner = new FakeCommandRunner({ strict: true });
+  await withTestEnvironment(sandbox(runner), async ({ root }) => {
+    runner.on(/ key insert /, writesKeystoreFile(root, '61757261d43593c7'));
+
+    assert(await secureKeyInsert(OPTIONS));
+
+    assertEquals(runner.invocations, [{
+      command: 'sudo',
+      args: [
+        '-u', 'd9-node', `${root}${PATHS.BINARY}`,
+        'key', 'insert',
+        '--base-path', `${root}${PATHS.DATA_DIR_NEW}`,
+        '--chain', `${root}${PATHS.CHAIN_SPEC}`,
+        '--scheme', 'Sr25519',
+        '--key-type', 'aura',
+        '--suri', SURI,
+      ],
+      env: { HISTFILE: '/dev/null' },
+    }]);
+  });
+});
+
+Deno.test('secureKeyInsert runs the binary directly without a service user', async () => {
+  const runner = new FakeCommandRunner({ strict: true });
+  await withTestEnvironment(sandbox(runner), async ({ root }) => {
+    runner.on(/ key insert /, writesKeystoreFile(root, '61757261d43593c7'));
+
+    assert(await secureKeyInsert({ ...OPTIONS, serviceUser: undefined }));
+
+    assertEquals(runner.invocations[0].command, `${root}${PATHS.BINARY}`);
+    assertEquals(runner.invocations[0].args.slice(0, 2), ['key', 'insert']);
+  });
+});
+
+Deno.test('secureKeyInsert fails on a non-zero exit without logging the key', async () => {
+  const runner = new FakeCommandRunner({ strict: true })
+    .on(/ key insert /, { code: 1, stderr: 'Error: Invalid secret phrase' });
+  await withTestEnvironment(sandbox(runner), async ({ errors }) => {
+    assertFalse(await secureKeyInsert(OPTIONS));
+
+    assertEquals(errors.length, 1);
+    assertStringIncludes(errors[0], 'Key insertion failed with code 1: Error: Invalid secret phrase');
+    assertFalse(errors[0].includes(SURI));
+  });
+});
+
+Deno.test('secureKeyInsert fails when key insert succeeds but writes no keystore file', async () => {
+  const runner = new FakeCommandRunner({ strict: true }).on(/ key insert /, {});
+  await withTestEnvironment(sandbox(runner), async ({ errors }) => {
+    assertFalse(await secureKeyInsert(OPTIONS));
+
+    assertStringIncludes(errors[0], 'Keystore directory not found');
+  });
+});
+
+Deno.test('secureKeyInsert rejects an empty keystore file', async () => {
+  const runner = new FakeCommandRunner({ strict: true });
+  await withTestEnvironment(sandbox(runner), async ({ root, errors }) => {
+    runner.on(/ key insert /, writesKeystoreFile(root, '61757261d43593c7', ''));
+
+    assertFalse(await secureKeyInsert(OPTIONS));
+
+    assertStringIncludes(errors[0], 'is empty');
+  });
+});
+
+Deno.test('secureKeyInsert fails on commands the strict fake does not expect', async () => {
+  const runner = new FakeCommandRunner({ strict: true });
+  await withTestEnvironment(sandbox(runner), async ({ errors }) => {
+    assertFalse(await secureKeyInsert(OPTIONS));
+
+    assertStringIncludes(errors[0], 'Unexpected command: sudo -u d9-node');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Semantic version parsing and comparison for release tags ("v1.2.3")
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers, e.g. ["rc", "1"] for 1.0.0-rc.1 */
+  prerelease: string[];
+}
+
+/**
+ * Parse a version or tag, or return null if it is not semver (e.g. "dev")
+ */
+export function parseSemVer(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two versions: negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+
+  // A release sorts after its pre-releases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) return Number(left) - Number(right);
+    if (leftNumeric) return -1;
+    if (rightNumeric) return 1;
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
@@ -1,4 +1,7 @@
 import { SystemInfo } from '../types.ts';
+import { PATHS, hostPath } from '../config/constants.ts';
+import { CommandRunner, getCommandRunner } from './command-runner.ts';
+import { isJsonOutput } from './output.ts';
 
 export async function checkSystemRequirements(): Promise<SystemInfo> {
   const info: SystemInfo = {
@@ -7,15 +10,15 @@ export async function checkSystemRequirements(): Promise<SystemInfo> {
     hasD9Binary: false
   };
 
+  const runner = getCommandRunner();
+
   // Check architecture
-  const archProcess = new Deno.Command('uname', { args: ['-m'] });
-  const archResult = await archProcess.output();
-  info.architecture = new TextDecoder().decode(archResult.stdout).trim();
+  const archResult = await runner.run('uname', ['-m']);
+  info.architecture = archResult.stdout.trim();
 
   // Check disk space (in GB)
-  const dfProcess = new Deno.Command('df', { args: ['/', '--block-size=1G'] });
-  const dfResult = await dfProcess.output();
-  const dfOutput = new TextDecoder().decode(dfResult.stdout);
+  const dfResult = await runner.run('df', ['/', '--block-size=1G']);
+  const dfOutput = dfResult.stdout;
   const lines = dfOutput.split('\n');
   if (lines.length > 1) {
     const columns = lines[1].split(/\s+/);
@@ -24,9 +27,9 @@ export async function checkSystemRequirements(): Promise<SystemInfo> {
 
   // Check for D9 binary
   const binaryPaths = [
-    '/usr/local/bin/d9-node',
+    PATHS.BINARY,
     '/home/ubuntu/d9_node/target/release/d9-node'
-  ];
+  ].map(hostPath);
 
   for (const path of binaryPaths) {
     try {
@@ -49,22 +52,18 @@ export async function checkDiskSpace(required: number): Promise<boolean> {
   return info.diskSpace >= required;
 }
 
-export async function executeCommand(command: string, args: string[]): Promise<{ success: boolean; output: string; error?: string }> {
+export async function executeCommand(
+  command: string,
+  args: string[],
+  runner: CommandRunner = getCommandRunner()
+): Promise<{ success: boolean; output: string; error?: string }> {
   try {
-    const process = new Deno.Command(command, { 
-      args,
-      stdout: "piped",
-      stderr: "piped"
-    });
-    const result = await process.output();
-    
-    const output = new TextDecoder().decode(result.stdout);
-    const errorOutput = new TextDecoder().decode(result.stderr);
-    
+    const result = await runner.run(command, args);
+
     return {
       success: result.code === 0,
-      output: output + (errorOutput ? '\n' + errorOutput : ''),
-      error: result.code !== 0 ? errorOutput || 'Command failed' : undefined
+      output: result.stdout + (result.stderr ? '\n' + result.stderr : ''),
+      error: result.code !== 0 ? result.stderr || 'Command failed' : undefined
     };
   } catch (error) {
     return {
@@ -75,11 +74,28 @@ export async function executeCommand(command: string, args: string[]): Promise<{
   }
 }
 
+/**
+ * Render a command line for display, quoting arguments that need it
+ */
+export function formatCommand(command: string, args: string[]): string {
+  return [command, ...args]
+    .map((part) => /^[\w@%+=:,./-]+$/.test(part) ? part : `'${part.replace(/'/g, `'\\''`)}'`)
+    .join(' ');
+}
+
 export async function systemctl(action: string, service: string): Promise<boolean> {
   const result = await executeCommand('sudo', ['systemctl', action, service]);
   return result.success;
 }
 
+/**
+ * Where progress indicators go: stderr in JSON mode, so stdout only holds the
+ * command's document
+ */
+function progressOutput(): typeof Deno.stdout | typeof Deno.stderr {
+  return isJsonOutput() ? Deno.stderr : Deno.stdout;
+}
+
 export async function createProgressBar(duration: number, message: string): Promise<void> {
   const steps = 20;
   const stepDuration = duration / steps;
@@ -91,7 +107,7 @@ export async function createProgressBar(duration: number, message: string): Prom
     const percentage = Math.round((i / steps) * 100);
     
     // Clear line and write progress
-    Deno.stdout.writeSync(new TextEncoder().encode(`\r[${progress}] ${percentage}%`));
+    progressOutput().writeSync(new TextEncoder().encode(`\r[${progress}] ${percentage}%`));
     
     if (i < steps) {
       await new Promise(resolve => setTimeout(resolve, stepDuration));
@@ -104,20 +120,21 @@ export async function createProgressBar(duration: number, message: string): Prom
 export async function showProgress<T>(message: string, promise: Promise<T>): Promise<T> {
   // Simple progress indicator using dots
   const encoder = new TextEncoder();
-  Deno.stdout.writeSync(encoder.encode(`${message}`));
+  const output = progressOutput();
+  output.writeSync(encoder.encode(`${message}`));
   
   const interval = setInterval(() => {
-    Deno.stdout.writeSync(encoder.encode('.'));
+    output.writeSync(encoder.encode('.'));
   }, 500);
   
   try {
     const result = await promise;
     clearInterval(interval);
-    Deno.stdout.writeSync(encoder.encode(' ✓\n'));
+    output.writeSync(encoder.encode(' ✓\n'));
     return result;
   } catch (error) {
     clearInterval(interval);
-    Deno.stdout.writeSync(encoder.encode(' ✗\n'));
+    output.writeSync(encoder.encode(' ✗\n'));
     throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * Shared set-up for tests.
+ *
+ * withTestEnvironment swaps the process-wide pieces a test may depend on
+ * (the command runner, the D9_MANAGER_ROOT host root, console output) and
+ * puts them back afterwards, even if the test fails. withHttpServer runs a
+ * local stand-in for an HTTP API.
+ */
+
+import { CommandRunner, setCommandRunner } from './command-runner.ts';
+import { ROOT_PREFIX_ENV } from '../config/constants.ts';
+
+export interface TestEnvironmentOptions {
+  /** Runner to install for the duration of the test */
+  runner?: CommandRunner;
+  /** Create a temporary host root and point D9_MANAGER_ROOT at it */
+  rootPrefix?: boolean;
+  /** Record console.log and console.error instead of printing them */
+  captureConsole?: boolean;
+}
+
+export interface TestEnvironment {
+  /** The temporary host root, or '' without rootPrefix */
+  root: string;
+  /** Lines written with console.log, when captured */
+  logs: string[];
+  /** Lines written with console.error, when captured */
+  errors: string[];
+}
+
+/**
+ * Run fn with the requested runner, host root and console capture in place
+ */
+export async function withTestEnvironment(
+  options: TestEnvironmentOptions,
+  fn: (environment: TestEnvironment) => Promise<void>
+): Promise<void> {
+  const environment: TestEnvironment = { root: '', logs: [], errors: [] };
+  const previousRunner = options.runner ? setCommandRunner(options.runner) : null;
+  const previousRoot = Deno.env.get(ROOT_PREFIX_ENV);
+  const previousLog = console.log;
+  const previousError = console.error;
+
+  try {
+    if (options.rootPrefix) {
+      environment.root = await Deno.makeTempDir({ prefix: 'd9-test-' });
+      Deno.env.set(ROOT_PREFIX_ENV, environment.root);
+    }
+    if (options.captureConsole) {
+      console.log = (...data: unknown[]) => environment.logs.push(data.join(' '));
+      console.error = (...data: unknown[]) => environment.errors.push(data.join(' '));
+    }
+    await fn(environment);
+  } finally {
+    console.log = previousLog;
+    console.error = previousError;
+    if (options.rootPrefix) {
+      if (previousRoot === undefined) {
+        Deno.env.delete(ROOT_PREFIX_ENV);
+      } else {
+        Deno.env.set(ROOT_PREFIX_ENV, previousRoot);
+      }
+      if (environment.root) {
+        await Deno.remove(environment.root, { recursive: true });
+      }
+    }
+    if (previousRunner) {
+      setCommandRunner(previousRunner);
+    }
+  }
+}
+
+/**
+ * Run fn against a local HTTP server on a free port
+ * @param fn Receives the server's base URL, e.g. http://127.0.0.1:41234
+ */
+export async function withHttpServer(
+  handler: (request: Request) => Response | Promise<Response>,
+  fn: (url: string) => Promise<void>
+): Promise<void> {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, handler);
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`);
+  } finally {
+    await server.shutdown();
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Storage root of a Substrate base-16 Patricia-Merkle trie, as computed by
+ * sp-trie's TrieStream (no-extension layout, blake2-256).
+ *
+ * Used to derive a chain's genesis block from the raw storage in its chain
+ * spec. Layout V1 differs from V0 only in that values of 33 bytes or more
+ * are stored as a hash in their node instead of inline.
+ */
+
+import { compactToU8a, u8aConcat } from '@polkadot/util';
+import { blake2AsU8a } from '@polkadot/util-crypto';
+
+export type StateVersion = 0 | 1;
+
+/** Values at least this long are hashed under layout V1 */
+const VALUE_HASH_THRESHOLD = 33;
+
+/** Node encodings shorter than a hash are inlined in their parent */
+const HASH_LENGTH = 32;
+
+const EMPTY_TRIE = 0x00;
+const LEAF = 0b01 << 6;
+const BRANCH_WITHOUT_VALUE = 0b10 << 6;
+const BRANCH_WITH_VALUE = 0b11 << 6;
+const HASHED_VALUE_LEAF = 0b001 << 5;
+const HASHED_VALUE_BRANCH = 0b0001 << 4;
+
+interface TrieEntry {
+  nibbles: number[];
+  value: Uint8Array;
+}
+
+function blake2(data: Uint8Array): Uint8Array {
+  return blake2AsU8a(data, 256);
+}
+
+function toNibbles(key: Uint8Array): number[] {
+  const nibbles: number[] = [];
+  for (const byte of key) {
+    nibbles.push(byte >> 4, byte & 0x0f);
+  }
+  return nibbles;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Node header: kind prefix, partial key length and the packed partial key
+ */
+function encodeHeader(prefix: number, prefixBits: number, partial: number[]): number[] {
+  const maxValue = 255 >> prefixBits;
+  const inline = Math.min(maxValue - 1, partial.length);
+  const bytes: number[] = [];
+
+  if (partial.length === inline) {
+    bytes.push(prefix + inline);
+  } else {
+    bytes.push(prefix + maxValue);
+    let remaining = partial.length - inline;
+    while (remaining > 0) {
+      if (remaining < 256) {
+        bytes.push(remaining - 1);
+        remaining = 0;
+      } else {
+        bytes.push(255);
+        remaining -= 255;
+      }
+    }
+  }
+
+  const odd = partial.length % 2;
+  if (odd) {
+    bytes.push(partial[0]);
+  }
+  for (let i = odd; i < partial.length; i += 2) {
+    bytes.push((partial[i] << 4) | partial[i + 1]);
+  }
+  return bytes;
+}
+
+/**
+ * A value as stored in its node: length-prefixed, or its hash under V1
+ */
+function encodeValue(value: Uint8Array, version: StateVersion): { hashed: boolean; bytes: Uint8Array } {
+  if (version === 1 && value.length >= VALUE_HASH_THRESHOLD) {
+    return { hashed: true, bytes: blake2(value) };
+  }
+  return { hashed: false, bytes: u8aConcat(compactToU8a(value.length), value) };
+}
+
+/**
+ * Reference to a child node: the node itself if short enough, else its hash
+ */
+function encodeChild(node: Uint8Array): Uint8Array {
+  const reference = node.length >= HASH_LENGTH ? blake2(node) : node;
+  return u8aConcat(compactToU8a(reference.length), reference);
+}
+
+function sharedPrefixLength(a: number[], b: number[], from: number): number {
+  let length = from;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Encode the node for entries (sorted, all sharing nibbles before cursor)
+ */
+function encodeNode(entries: TrieEntry[], cursor: number, version: StateVersion): Uint8Array {
+  if (entries.length === 0) {
+    return new Uint8Array([EMPTY_TRIE]);
+  }
+
+  if (entries.length === 1) {
+    const { nibbles, value } = entries[0];
+    const encoded = encodeValue(value, version);
+    const header = encoded.hashed
+      ? encodeHeader(HASHED_VALUE_LEAF, 3, nibbles.slice(cursor))
+      : encodeHeader(LEAF, 2, nibbles.slice(cursor));
+    return u8aConcat(new Uint8Array(header), encoded.bytes);
+  }
+
+  // The branch sits where the keys stop sharing nibbles
+  const first = entries[0].nibbles;
+  let depth = first.length;
+  for (const entry of entries.slice(1)) {
+    depth = Math.min(depth, sharedPrefixLength(first, entry.nibbles, cursor));
+  }
+
+  // Sorted order puts a key ending at the branch first
+  const hasValue = first.length === depth;
+  const children = entries.slice(hasValue ? 1 : 0);
+  const groups: TrieEntry[][] = Array.from({ length: 16 }, () => []);
+  for (const entry of children) {
+    groups[entry.nibbles[depth]].push(entry);
+  }
+
+  const partial = first.slice(cursor, depth);
+  const encoded = hasValue ? encodeValue(entries[0].value, version) : null;
+  const header = !encoded
+    ? encodeHeader(BRANCH_WITHOUT_VALUE, 2, partial)
+    : encoded.hashed
+    ? encodeHeader(HASHED_VALUE_BRANCH, 4, partial)
+    : encodeHeader(BRANCH_WITH_VALUE, 2, partial);
+
+  let bitmap = 0;
+  groups.forEach((group, index) => {
+    if (group.length > 0) bitmap |= 1 << index;
+  });
+
+  const parts: Uint8Array[] = [new Uint8Array([...header, bitmap & 0xff, bitmap >> 8])];
+  if (encoded) {
+    parts.push(encoded.bytes);
+  }
+  for (const group of groups) {
+    if (group.length > 0) {
+      parts.push(encodeChild(encodeNode(group, depth + 1, version)));
+    }
+  }
+  return u8aConcat(...parts);
+}
+
+/**
+ * Root hash of the trie holding the given key/value pairs
+ */
+export function trieRoot(pairs: [Uint8Array, Uint8Array][], version: StateVersion): Uint8Array {
+  const entries = [...pairs]
+    .sort(([a], [b]) => compareBytes(a, b))
+    .map(([key, value]) => ({ nibbles: toNibbles(key), value }));
+  return blake2(encodeNode(entries, 0, version));
+}
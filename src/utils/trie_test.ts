@@ -0,0 +1,77 @@
+import { assertEquals } from '@std/assert';
+import { hexToU8a, u8aToHex } from '@polkadot/util';
+import { StateVersion, trieRoot } from './trie.ts';
+
+// Expected roots were computed with sp-trie (via chopsticks-executor's
+// calculate_state_root), not with this implementation
+
+function fill(byte: number, length: number): string {
+  return u8aToHex(new Uint8Array(length).fill(byte));
+}
+
+function root(pairs: [string, string][], version: StateVersion): string {
+  return u8aToHex(trieRoot(pairs.map(([key, value]) => [hexToU8a(key), hexToU8a(value)]), version));
+}
+
+Deno.test('trieRoot of the empty trie', () => {
+  const empty = '0x03170a2e7597b7b7e3d84c05391d139a62b157e78786d8c082f29dcf4c111314';
+  assertEquals(root([], 0), empty);
+  assertEquals(root([], 1), empty);
+});
+
+Deno.test('trieRoot of a single short entry is the same under V0 and V1', () => {
+  const expected = '0x026d8928ce5c16b17fc14756c901439708132764e6338cbd029e0ef0e417ed6d';
+  assertEquals(root([['0x0102', '0x0304']], 0), expected);
+  assertEquals(root([['0x0102', '0x0304']], 1), expected);
+});
+
+Deno.test('trieRoot with keys that are prefixes of other keys', () => {
+  const pairs: [string, string][] = [
+    ['0x0103', '0xdd'],
+    ['0x01', '0xaa'],
+    ['0x010203', '0xcc'],
+    ['0x0102', '0xbb'],
+    ['0x02', '0x'],
+  ];
+  const expected = '0xfad81397d16088cf253a537e37629b1a9059a9d3a9e35c24d28344e45b83d18e';
+  assertEquals(root(pairs, 0), expected);
+  assertEquals(root(pairs, 1), expected);
+});
+
+Deno.test('trieRoot hashes values of 33 bytes or more only under V1', () => {
+  const pairs: [string, string][] = [
+    ['0x0a', fill(0x11, 40)],
+    ['0x0a0b', fill(0x22, 32)],
+    ['0x0b', fill(0x33, 33)],
+    ['0x0b0c', fill(0x44, 1)],
+  ];
+  assertEquals(root(pairs, 0), '0x253b6ab80d6701d3828d44efe78484e462ff9323d0ea0cca8f1fd979a7cdf603');
+  assertEquals(root(pairs, 1), '0xc28f81eed47dadd2639b72260574d4d8385e1fdd4841ad45437b3e6789569e9a');
+});
+
+Deno.test('trieRoot with long shared key prefixes', () => {
+  const pairs: [string, string][] = [
+    [fill(0x5a, 40), '0x01'],
+    [fill(0x5a, 35) + '6b6b6b6b6b', '0x02'],
+    [fill(0x5a, 33), fill(0x66, 50)],
+  ];
+  assertEquals(root(pairs, 0), '0x9f9360514a25e07462e54a409cee772294cc2a71377e3fe2d4ead4cf9f6ec516');
+  assertEquals(root(pairs, 1), '0xc446a1243753443024294cb74ed7795f12701b88fc7db393a9a196da32d07192');
+});
+
+Deno.test('trieRoot with a partial key longer than 255 nibbles', () => {
+  const pairs: [string, string][] = [
+    [fill(0x77, 200), '0x01'],
+    [fill(0x77, 199) + '78', '0x02'],
+  ];
+  assertEquals(root(pairs, 0), '0xa180f199f15148b5c0a3adfd5ded8ebe03ad62dd3efb901210f7bc0c97ca91f0');
+});
+
+Deno.test('trieRoot of 200 entries', () => {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < 200; i++) {
+    pairs.push([u8aToHex(new Uint8Array([(i * 37) % 256, i])), fill(i, i % 45)]);
+  }
+  assertEquals(root(pairs, 0), '0xf7b003ebf20dc625e728eb72275d4bd69686e0bb3f05498e81280e48298b04ee');
+  assertEquals(root(pairs, 1), '0x0187912b2628e1ef59f49f26339f0730da58b450b3485c4dfd1c543a3145d254');
+});